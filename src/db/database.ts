@@ -1,62 +1,174 @@
 import * as sqlite3 from 'sqlite3';
+import { AsyncLocalStorage } from 'async_hooks';
+import { migrations } from './migrations';
 const sqlite = sqlite3.verbose();
 
+export class SchemaVersionError extends Error {
+  constructor(
+    public current: number,
+    public supported: number,
+  ) {
+    super(
+      `Database schema version ${current} is newer than this build supports (${supported}); refusing to downgrade`,
+    );
+    this.name = 'SchemaVersionError';
+  }
+}
+
+interface TransactionScope {
+  depth: number;
+  afterCommit: (() => void)[];
+}
+
 export class Database {
   private db: sqlite3.Database;
+  // The transaction the current async call chain is in
+  private transactionScope = new AsyncLocalStorage<TransactionScope>();
+  private activeTransaction: Promise<void> | null = null;
 
   constructor(filename: string = 'data.db') {
     this.db = new sqlite.Database(filename);
   }
 
   async initialize(): Promise<void> {
-    await this.createTables();
+    await this.migrate();
   }
 
-  private async createTables(): Promise<void> {
-    const createTasksTable = `
-      CREATE TABLE IF NOT EXISTS tasks (
-        id TEXT PRIMARY KEY,
-        title TEXT NOT NULL,
-        description TEXT,
-        completed INTEGER DEFAULT 0,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        is_deleted INTEGER DEFAULT 0,
-        sync_status TEXT DEFAULT 'pending',
-        server_id TEXT,
-        last_synced_at DATETIME
+  /**
+   * Applies pending migrations in version order, each in its own
+   * transaction. Refuses to run against a database written by a newer
+   * build, since this build cannot know what that schema looks like.
+   */
+  private async migrate(): Promise<void> {
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
       )
-    `;
-
-    const createSyncQueueTable = `
-      CREATE TABLE IF NOT EXISTS sync_queue (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    task_id TEXT,
-    operation_type TEXT,
-    task_snapshot TEXT,
-    attempts INTEGER DEFAULT 0,
-    status TEXT DEFAULT 'pending',
-    created_at TEXT DEFAULT CURRENT_TIMESTAMP
-  )
-`;
-
-    const deadLetterQueue = `CREATE TABLE IF NOT EXISTS dead_letter_queue (
-    id TEXT PRIMARY KEY,
-    task_id TEXT,
-    operation TEXT,
-    data TEXT,
-    error_message TEXT,
-    failed_at DATETIME DEFAULT CURRENT_TIMESTAMP
-  )
-`
-
-    await this.run(createTasksTable);
-    await this.run(createSyncQueueTable);
-    await this.run(deadLetterQueue);
+    `);
+
+    const row = await this.get(
+      'SELECT MAX(version) as version FROM schema_migrations',
+    );
+    const current: number = row?.version ?? 0;
+    const latest = migrations[migrations.length - 1].version;
+
+    if (current > latest) {
+      throw new SchemaVersionError(current, latest);
+    }
+
+    for (const migration of migrations) {
+      if (migration.version <= current) {
+        continue;
+      }
+
+      try {
+        await this.transaction(async () => {
+          await migration.up(this);
+          await this.run(
+            'INSERT INTO schema_migrations (version, name) VALUES (?, ?)',
+            [migration.version, migration.name],
+          );
+        });
+      } catch (error) {
+        throw new Error(
+          `Migration ${migration.version} (${migration.name}) failed: ${(error as Error).message}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Runs fn inside a transaction: committed when it resolves, rolled back
+   * when it throws. Nested calls use savepoints, so an inner failure that
+   * the caller catches only undoes the inner work.
+   *
+   * There is a single connection, so while a transaction is open, queries
+   * from outside it wait for it to finish instead of joining it.
+   */
+  async transaction<T>(fn: () => Promise<T>): Promise<T> {
+    const parent = this.transactionScope.getStore();
+
+    if (parent) {
+      const scope = { depth: parent.depth + 1, afterCommit: [] };
+      const savepoint = `sp_${scope.depth}`;
+      await this.exec(`SAVEPOINT ${savepoint}`);
+      try {
+        const result = await this.transactionScope.run(scope, fn);
+        await this.exec(`RELEASE ${savepoint}`);
+        parent.afterCommit.push(...scope.afterCommit);
+        return result;
+      } catch (error) {
+        await this.exec(`ROLLBACK TO ${savepoint}`);
+        await this.exec(`RELEASE ${savepoint}`);
+        throw error;
+      }
+    }
+
+    while (this.activeTransaction) {
+      await this.activeTransaction;
+    }
+    let finish!: () => void;
+    this.activeTransaction = new Promise((resolve) => (finish = resolve));
+
+    const scope: TransactionScope = { depth: 0, afterCommit: [] };
+    let result: T;
+    try {
+      await this.exec('BEGIN');
+      try {
+        result = await this.transactionScope.run(scope, fn);
+        await this.exec('COMMIT');
+      } catch (error) {
+        await this.exec('ROLLBACK');
+        throw error;
+      }
+    } finally {
+      this.activeTransaction = null;
+      finish();
+    }
+
+    for (const callback of scope.afterCommit) {
+      callback();
+    }
+    return result;
+  }
+
+  /**
+   * Runs callback once the current transaction commits, or straight away
+   * outside a transaction. Dropped if the transaction, or the savepoint it
+   * was registered in, rolls back.
+   */
+  afterCommit(callback: () => void): void {
+    const scope = this.transactionScope.getStore();
+    if (scope) {
+      scope.afterCommit.push(callback);
+    } else {
+      callback();
+    }
+  }
+
+  private async waitForTransaction(): Promise<void> {
+    while (
+      this.activeTransaction &&
+      this.transactionScope.getStore() === undefined
+    ) {
+      await this.activeTransaction;
+    }
+  }
+
+  private exec(sql: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run(sql, (err) => {
+        if (err) reject(err);
+        else resolve();
+      });
+    });
   }
 
   // Helper methods
-  run(sql: string, params: any[] = []): Promise<void> {
+  async run(sql: string, params: any[] = []): Promise<void> {
+    await this.waitForTransaction();
     return new Promise((resolve, reject) => {
       this.db.run(sql, params, (err) => {
         if (err) reject(err);
@@ -65,7 +177,8 @@ export class Database {
     });
   }
 
-  get(sql: string, params: any[] = []): Promise<any> {
+  async get(sql: string, params: any[] = []): Promise<any> {
+    await this.waitForTransaction();
     return new Promise((resolve, reject) => {
       this.db.get(sql, params, (err, row) => {
         if (err) reject(err);
@@ -74,7 +187,8 @@ export class Database {
     });
   }
 
-  all(sql: string, params: any[] = []): Promise<any[]> {
+  async all(sql: string, params: any[] = []): Promise<any[]> {
+    await this.waitForTransaction();
     return new Promise((resolve, reject) => {
       this.db.all(sql, params, (err, rows) => {
         if (err) reject(err);
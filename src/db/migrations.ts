@@ -0,0 +1,381 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { Database } from './database';
+import { formatHlc, legacyHlc } from '../utils/hlc';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up(db: Database): Promise<void>;
+}
+
+/**
+ * Ordered schema history. Each migration runs once, inside a transaction,
+ * and is recorded in schema_migrations. Never edit a migration that has
+ * shipped; add a new one instead.
+ */
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    // IF NOT EXISTS so databases created before migrations existed are
+    // adopted as-is and reconciled by the migrations that follow
+    async up(db) {
+      await db.run(`
+        CREATE TABLE IF NOT EXISTS tasks (
+          id TEXT PRIMARY KEY,
+          title TEXT NOT NULL,
+          description TEXT,
+          completed INTEGER DEFAULT 0,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          is_deleted INTEGER DEFAULT 0,
+          sync_status TEXT DEFAULT 'pending',
+          server_id TEXT,
+          last_synced_at DATETIME
+        )
+      `);
+      await db.run(`
+        CREATE TABLE IF NOT EXISTS sync_queue (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          task_id TEXT,
+          operation_type TEXT,
+          task_snapshot TEXT,
+          attempts INTEGER DEFAULT 0,
+          status TEXT DEFAULT 'pending',
+          error_message TEXT,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+      await db.run(`
+        CREATE TABLE IF NOT EXISTS dead_letter_queue (
+          id TEXT PRIMARY KEY,
+          task_id TEXT,
+          operation TEXT,
+          data TEXT,
+          error_message TEXT,
+          failed_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+      await db.run(`
+        CREATE TABLE IF NOT EXISTS dead_letter_audit (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          dead_letter_id TEXT,
+          task_id TEXT,
+          operation TEXT,
+          data TEXT,
+          error_message TEXT,
+          action TEXT NOT NULL,
+          reason TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+      await db.run(`
+        CREATE TABLE IF NOT EXISTS task_changes (
+          seq INTEGER PRIMARY KEY AUTOINCREMENT,
+          task_id TEXT NOT NULL,
+          changed_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+      await db.run(`
+        CREATE TABLE IF NOT EXISTS sync_state (
+          key TEXT PRIMARY KEY,
+          value TEXT
+        )
+      `);
+      await db.run(`
+        CREATE TABLE IF NOT EXISTS task_base_snapshots (
+          task_id TEXT PRIMARY KEY,
+          snapshot TEXT NOT NULL
+        )
+      `);
+      await db.run(`
+        CREATE TABLE IF NOT EXISTS sync_conflicts (
+          id TEXT PRIMARY KEY,
+          task_id TEXT NOT NULL,
+          server_id TEXT,
+          local_version TEXT NOT NULL,
+          remote_version TEXT NOT NULL,
+          resolved_version TEXT NOT NULL,
+          strategy TEXT NOT NULL,
+          outcome TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          manual_resolution TEXT,
+          manually_resolved_at DATETIME
+        )
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: 'sync_queue_matches_sync_queue_item',
+    // Renames operation_type/task_snapshot/attempts to the SyncQueueItem
+    // names and switches to text ids, keeping every queued operation.
+    // Older builds left task_id empty on updates and deletes; the snapshot
+    // still carries it.
+    async up(db) {
+      const columns = await db.all('PRAGMA table_info(sync_queue)');
+      const hasErrorMessage = columns.some((c) => c.name === 'error_message');
+
+      await db.run(`
+        CREATE TABLE sync_queue_new (
+          id TEXT PRIMARY KEY,
+          task_id TEXT NOT NULL,
+          operation TEXT NOT NULL,
+          data TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          retry_count INTEGER NOT NULL DEFAULT 0,
+          error_message TEXT
+        )
+      `);
+      await db.run(`
+        INSERT INTO sync_queue_new (
+          id, task_id, operation, data, created_at, retry_count, error_message
+        )
+        SELECT
+          CAST(id AS TEXT),
+          COALESCE(task_id, json_extract(task_snapshot, '$.id'), ''),
+          operation_type,
+          COALESCE(task_snapshot, '{}'),
+          strftime('%Y-%m-%dT%H:%M:%fZ', COALESCE(created_at, 'now')),
+          COALESCE(attempts, 0),
+          ${hasErrorMessage ? 'error_message' : 'NULL'}
+        FROM sync_queue
+        ORDER BY id
+      `);
+      await db.run('DROP TABLE sync_queue');
+      await db.run('ALTER TABLE sync_queue_new RENAME TO sync_queue');
+      await db.run(
+        'CREATE INDEX idx_sync_queue_task ON sync_queue (task_id, created_at)',
+      );
+    },
+  },
+  {
+    version: 3,
+    name: 'sync_queue_next_attempt_at',
+    // NULL means the item is due now
+    async up(db) {
+      await db.run('ALTER TABLE sync_queue ADD COLUMN next_attempt_at TEXT');
+    },
+  },
+  {
+    version: 4,
+    name: 'sync_queue_status',
+    // 'in-progress' while the item is being sent, otherwise 'pending'
+    async up(db) {
+      await db.run(
+        "ALTER TABLE sync_queue ADD COLUMN status TEXT NOT NULL DEFAULT 'pending'",
+      );
+    },
+  },
+  {
+    version: 5,
+    name: 'tasks_full_text_search',
+    // Triggers keep the index in step with every write to tasks, inside
+    // the same transaction
+    async up(db) {
+      await db.run(`
+        CREATE VIRTUAL TABLE tasks_fts USING fts5(
+          task_id UNINDEXED,
+          title,
+          description
+        )
+      `);
+      await db.run(`
+        INSERT INTO tasks_fts (task_id, title, description)
+        SELECT id, title, COALESCE(description, '') FROM tasks
+      `);
+      await db.run(`
+        CREATE TRIGGER tasks_fts_insert AFTER INSERT ON tasks BEGIN
+          INSERT INTO tasks_fts (task_id, title, description)
+          VALUES (new.id, new.title, COALESCE(new.description, ''));
+        END
+      `);
+      await db.run(`
+        CREATE TRIGGER tasks_fts_update
+        AFTER UPDATE OF title, description ON tasks BEGIN
+          DELETE FROM tasks_fts WHERE task_id = old.id;
+          INSERT INTO tasks_fts (task_id, title, description)
+          VALUES (new.id, new.title, COALESCE(new.description, ''));
+        END
+      `);
+      await db.run(`
+        CREATE TRIGGER tasks_fts_delete AFTER DELETE ON tasks BEGIN
+          DELETE FROM tasks_fts WHERE task_id = old.id;
+        END
+      `);
+    },
+  },
+  {
+    version: 6,
+    name: 'task_due_at_priority_tags',
+    // tags holds a JSON array of strings
+    async up(db) {
+      await db.run('ALTER TABLE tasks ADD COLUMN due_at TEXT');
+      await db.run(
+        "ALTER TABLE tasks ADD COLUMN priority TEXT NOT NULL DEFAULT 'normal'",
+      );
+      await db.run(
+        "ALTER TABLE tasks ADD COLUMN tags TEXT NOT NULL DEFAULT '[]'",
+      );
+      await db.run('CREATE INDEX idx_tasks_due_at ON tasks (due_at)');
+    },
+  },
+  {
+    version: 7,
+    name: 'task_parent_id',
+    async up(db) {
+      await db.run('ALTER TABLE tasks ADD COLUMN parent_id TEXT');
+      await db.run('CREATE INDEX idx_tasks_parent ON tasks (parent_id)');
+    },
+  },
+  {
+    version: 8,
+    name: 'users_and_task_owner',
+    // Existing tasks keep a NULL owner until the first account adopts them
+    async up(db) {
+      await db.run(`
+        CREATE TABLE users (
+          id TEXT PRIMARY KEY,
+          username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+          password_hash TEXT NOT NULL,
+          created_at DATETIME NOT NULL
+        )
+      `);
+      await db.run('ALTER TABLE tasks ADD COLUMN owner_id TEXT');
+      await db.run('CREATE INDEX idx_tasks_owner ON tasks (owner_id)');
+    },
+  },
+  {
+    version: 9,
+    name: 'device_id_and_hlc',
+    // Rows written before this keep a NULL hlc on tasks and are compared by
+    // updated_at; queued items get one from created_at so the queue order
+    // is unchanged
+    async up(db) {
+      await db.run(
+        `INSERT OR IGNORE INTO sync_state (key, value) VALUES ('device_id', ?)`,
+        [uuidv4()],
+      );
+      await db.run('ALTER TABLE tasks ADD COLUMN hlc TEXT');
+      await db.run('ALTER TABLE sync_queue ADD COLUMN hlc TEXT');
+
+      const queued = await db.all('SELECT id, created_at FROM sync_queue');
+      for (const row of queued) {
+        await db.run('UPDATE sync_queue SET hlc = ? WHERE id = ?', [
+          formatHlc(legacyHlc(row.created_at)),
+          row.id,
+        ]);
+      }
+    },
+  },
+  {
+    version: 10,
+    name: 'task_revisions',
+    async up(db) {
+      await db.run(`
+        CREATE TABLE task_revisions (
+          task_id TEXT NOT NULL,
+          revision INTEGER NOT NULL,
+          operation TEXT NOT NULL,
+          source TEXT NOT NULL,
+          device_id TEXT,
+          hlc TEXT,
+          restored_from INTEGER,
+          snapshot TEXT NOT NULL,
+          created_at DATETIME NOT NULL,
+          PRIMARY KEY (task_id, revision)
+        )
+      `);
+    },
+  },
+  {
+    version: 11,
+    name: 'trash_and_sync_devices',
+    async up(db) {
+      await db.run('ALTER TABLE tasks ADD COLUMN purged_at DATETIME');
+      // Devices that pull from this database, and the change cursor each
+      // has acknowledged by pulling past it
+      await db.run(`
+        CREATE TABLE sync_devices (
+          device_id TEXT PRIMARY KEY,
+          owner_id TEXT,
+          acked_seq INTEGER NOT NULL DEFAULT 0,
+          last_seen_at DATETIME NOT NULL
+        )
+      `);
+    },
+  },
+  {
+    version: 12,
+    name: 'task_versions',
+    async up(db) {
+      // Bumped on every write to a task, for If-Match and sync conflicts
+      await db.run(
+        'ALTER TABLE tasks ADD COLUMN version INTEGER NOT NULL DEFAULT 1',
+      );
+      // The server's version of the task when it was last synced
+      await db.run('ALTER TABLE task_base_snapshots ADD COLUMN version INTEGER');
+    },
+  },
+  {
+    version: 13,
+    name: 'idempotency',
+    async up(db) {
+      // Owners are keyed as '' when there is none, as NULL never matches
+      // in a primary key. A NULL status_code marks a request in progress.
+      await db.run(`
+        CREATE TABLE idempotency_keys (
+          owner_key TEXT NOT NULL,
+          scope TEXT NOT NULL,
+          key TEXT NOT NULL,
+          request_hash TEXT NOT NULL,
+          status_code INTEGER,
+          response TEXT,
+          created_at DATETIME NOT NULL,
+          PRIMARY KEY (owner_key, scope, key)
+        )
+      `);
+      await db.run(
+        'CREATE INDEX idx_idempotency_keys_created_at ON idempotency_keys(created_at)',
+      );
+      // The task a client's create became on this server
+      await db.run(`
+        CREATE TABLE task_client_ids (
+          owner_key TEXT NOT NULL,
+          client_id TEXT NOT NULL,
+          server_id TEXT NOT NULL,
+          PRIMARY KEY (owner_key, client_id)
+        )
+      `);
+    },
+  },
+  {
+    version: 14,
+    name: 'conflict_and_dead_letter_owners',
+    // The owner of the task each row is about, so users only see their own
+    async up(db) {
+      for (const table of ['sync_conflicts', 'dead_letter_queue']) {
+        await db.run(`ALTER TABLE ${table} ADD COLUMN owner_id TEXT`);
+        await db.run(`
+          UPDATE ${table}
+          SET owner_id = (SELECT owner_id FROM tasks WHERE tasks.id = ${table}.task_id)
+        `);
+        await db.run(`CREATE INDEX idx_${table}_owner ON ${table} (owner_id)`);
+      }
+    },
+  },
+  {
+    version: 15,
+    name: 'sync_accounts',
+    // The account on the sync server each user's tasks sync as
+    async up(db) {
+      await db.run(`
+        CREATE TABLE sync_accounts (
+          owner_id TEXT PRIMARY KEY,
+          token TEXT NOT NULL,
+          linked_at DATETIME NOT NULL
+        )
+      `);
+    },
+  },
+];
@@ -0,0 +1,66 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { AuthService } from '../services/authService';
+import { User } from '../types';
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    /** Set by requireAuth for authenticated requests */
+    user?: User;
+  }
+}
+
+/** Query parameter and cookie a token can be sent in (see requireAuth) */
+export const TOKEN_PARAM = 'access_token';
+
+export interface RequireAuthOptions {
+  /**
+   * Also take the token from the `access_token` query parameter or
+   * cookie, for clients that cannot set headers, such as a browser's
+   * EventSource. Tokens in URLs end up in logs, so only for such routes.
+   */
+  tokenOutsideHeader?: boolean;
+}
+
+/**
+ * Rejects requests without a valid `Authorization: Bearer <token>` header
+ * and exposes the caller as `req.user`.
+ */
+export function requireAuth(
+  authService: AuthService,
+  options: RequireAuthOptions = {},
+): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const [scheme, header] = (req.header('Authorization') ?? '').split(' ');
+    const token =
+      scheme === 'Bearer' && header
+        ? header
+        : options.tokenOutsideHeader
+          ? tokenOutsideHeader(req)
+          : undefined;
+    const user = token
+      ? await authService.authenticate(token).catch(() => null)
+      : null;
+
+    if (!user) {
+      res.set('WWW-Authenticate', 'Bearer');
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+    req.user = user;
+    next();
+  };
+}
+
+function tokenOutsideHeader(req: Request): string | undefined {
+  const param = req.query[TOKEN_PARAM];
+  if (typeof param === 'string' && param) {
+    return param;
+  }
+  for (const cookie of (req.header('Cookie') ?? '').split(';')) {
+    const [name, ...value] = cookie.trim().split('=');
+    if (name === TOKEN_PARAM && value.length > 0) {
+      return value.join('=');
+    }
+  }
+  return undefined;
+}
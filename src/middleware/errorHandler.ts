@@ -1,4 +1,5 @@
 import { Request, Response, NextFunction } from 'express';
+import { ValidationError } from '../utils/validation';
 
 export interface AppError extends Error {
   statusCode?: number;
@@ -10,13 +11,18 @@ export function errorHandler(
   res: Response,
   next: NextFunction
 ): void {
-  console.error('Error:', err);
-
   const statusCode = err.statusCode || 500;
   const message = err.message || 'Internal Server Error';
 
+  // Rejected requests are the client's problem, not worth a stack trace
+  if (statusCode >= 500) {
+    console.error('Error:', err);
+  }
+
   res.status(statusCode).json({
     error: message,
+    // One entry per invalid field (see utils/validation)
+    ...(err instanceof ValidationError ? { errors: err.errors } : {}),
     timestamp: new Date().toISOString(),
     path: req.path,
   });
@@ -0,0 +1,99 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { IdempotencyService } from '../services/idempotencyService';
+
+const MAX_KEY_LENGTH = 255;
+
+export interface IdempotentOptions {
+  /**
+   * The part of the body the key stands for, when retries may differ in
+   * the rest. Defaults to the whole body.
+   */
+  request?: (body: any) => unknown;
+  /** Whether a response is kept for retries. Defaults to all but 5xx. */
+  store?: (statusCode: number, body: any) => boolean;
+}
+
+/**
+ * Makes a POST safe to retry. With an `Idempotency-Key` header, the first
+ * response is stored (see IdempotencyService) and sent again, marked with
+ * `Idempotent-Replayed: true`, to retries with the same key and body.
+ * Server errors, and other responses `options.store` turns down, are not
+ * stored, so a retry after one runs again.
+ */
+export function idempotent(
+  service: IdempotencyService,
+  scope: string,
+  options: IdempotentOptions = {},
+): RequestHandler {
+  const requestOf = options.request ?? ((body: unknown) => body);
+  const store = options.store ?? ((statusCode: number) => statusCode < 500);
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const key = req.get('Idempotency-Key');
+    if (key === undefined) {
+      next();
+      return;
+    }
+    if (!key || key.length > MAX_KEY_LENGTH) {
+      res.status(400).json({
+        error: `Idempotency-Key must be 1 to ${MAX_KEY_LENGTH} characters`,
+      });
+      return;
+    }
+
+    const owner = req.user?.id;
+    try {
+      const claim = await service.claim(scope, owner, key, requestOf(req.body));
+      if (claim.state === 'mismatch') {
+        res.status(422).json({
+          error: 'Idempotency-Key was already used for a different request',
+        });
+        return;
+      }
+      if (claim.state === 'in-progress') {
+        res.status(409).json({
+          error: 'A request with this Idempotency-Key is still in progress',
+        });
+        return;
+      }
+      if (claim.state === 'replay') {
+        res
+          .status(claim.response.statusCode)
+          .set('Idempotent-Replayed', 'true')
+          .json(claim.response.body);
+        return;
+      }
+    } catch (error) {
+      next(error);
+      return;
+    }
+
+    // The response is stored before it is sent, so a retry arriving right
+    // after it sees the result
+    let settled = false;
+    const send = res.json.bind(res);
+    res.json = (body: unknown) => {
+      settled = true;
+      const stored = store(res.statusCode, body)
+        ? service.complete(scope, owner, key, {
+            statusCode: res.statusCode,
+            body,
+          })
+        : service.release(scope, owner, key);
+      stored
+        .catch((error) =>
+          console.error('Failed to store idempotent response:', error),
+        )
+        .finally(() => send(body));
+      return res;
+    };
+    // A request that ends without a response can be retried
+    res.on('close', () => {
+      if (!settled) {
+        void service.release(scope, owner, key).catch(() => undefined);
+      }
+    });
+
+    next();
+  };
+}
@@ -0,0 +1,95 @@
+import { Router, Request, Response, RequestHandler } from 'express';
+import {
+  AuthService,
+  InvalidAccountError,
+  InvalidCredentialsError,
+  UsernameTakenError,
+} from '../services/authService';
+import { validate } from '../utils/validation';
+import { JSON_TYPE, RouteSpec, json } from '../utils/openapi';
+import { loginSchema, registerSchema } from '../schemas';
+import {
+  authSessionSchema,
+  errorSchema,
+  userSchema,
+} from '../schemas/responses';
+
+export function createAuthRouter(
+  authService: AuthService,
+  authenticate: RequestHandler,
+): Router {
+  const router = Router();
+
+  // Create an account and return a token for it
+  router.post('/register', async (req: Request, res: Response) => {
+    const { username, password } = validate(registerSchema, req.body ?? {});
+    try {
+      const session = await authService.register(username, password);
+      return res.status(201).json(session);
+    } catch (error) {
+      if (
+        error instanceof InvalidAccountError ||
+        error instanceof UsernameTakenError
+      ) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      return res.status(500).json({ error: 'Failed to create account' });
+    }
+  });
+
+  // Exchange a username and password for a token
+  router.post('/login', async (req: Request, res: Response) => {
+    const { username, password } = validate(loginSchema, req.body ?? {});
+    try {
+      return res.json(await authService.login(username, password));
+    } catch (error) {
+      if (error instanceof InvalidCredentialsError) {
+        return res.status(401).json({ error: error.message });
+      }
+      return res.status(500).json({ error: 'Failed to sign in' });
+    }
+  });
+
+  // The account a token belongs to
+  router.get('/me', authenticate, (req: Request, res: Response) => {
+    res.json(req.user);
+  });
+
+  return router;
+}
+
+/** The routes above, for the OpenAPI document (see routes/docs) */
+export const AUTH_ROUTES: RouteSpec[] = [
+  {
+    method: 'post',
+    path: '/register',
+    operationId: 'register',
+    summary: 'Create an account and return a token for it',
+    public: true,
+    body: { [JSON_TYPE]: registerSchema },
+    responses: {
+      201: json('The new account, signed in', authSessionSchema),
+      400: json('The account details are not allowed', errorSchema),
+      409: json('The username is taken', errorSchema),
+    },
+  },
+  {
+    method: 'post',
+    path: '/login',
+    operationId: 'login',
+    summary: 'Exchange a username and password for a token',
+    public: true,
+    body: { [JSON_TYPE]: loginSchema },
+    responses: {
+      200: json('Signed in', authSessionSchema),
+      401: json('The username or password is wrong', errorSchema),
+    },
+  },
+  {
+    method: 'get',
+    path: '/me',
+    operationId: 'getCurrentUser',
+    summary: 'The account a token belongs to',
+    responses: { 200: json('The account', userSchema) },
+  },
+];
@@ -0,0 +1,79 @@
+import { Router, Request, Response } from 'express';
+import path from 'path';
+import { AUTH_ROUTES } from './auth';
+import { TASK_ROUTES } from './tasks';
+import { TAG_ROUTES } from './tags';
+import { EVENT_ROUTES } from './events';
+import { SYNC_ROUTES } from './sync';
+import {
+  RouteGroup,
+  RouteSpec,
+  buildOpenApiDocument,
+  json,
+} from '../utils/openapi';
+import { string, unknown } from '../utils/validation';
+import { errorSchema } from '../schemas/responses';
+
+const API_VERSION = '1.0.0';
+// The same from src/routes and from the build in dist/routes
+const DOCS_PAGE = path.join(__dirname, '../../public/docs.html');
+
+const DOCS_ROUTES: RouteSpec[] = [
+  {
+    method: 'get',
+    path: '/openapi.json',
+    operationId: 'getOpenApiDocument',
+    summary: 'This document',
+    public: true,
+    responses: { 200: json('OpenAPI 3.1 document', unknown()) },
+  },
+  {
+    method: 'get',
+    path: '/docs',
+    operationId: 'getDocsPage',
+    summary: 'Interactive API documentation',
+    public: true,
+    responses: {
+      200: { description: 'HTML page', content: { 'text/html': string() } },
+    },
+  },
+];
+
+/**
+ * Every route, by where server.ts mounts its router below /api. Routers
+ * mounted at the same prefix are listed in the order they are mounted.
+ */
+export const API_ROUTES: RouteGroup[] = [
+  { prefix: '', tag: 'Docs', routes: DOCS_ROUTES },
+  { prefix: '/auth', tag: 'Accounts', routes: AUTH_ROUTES },
+  { prefix: '/tasks', tag: 'Tasks', routes: TASK_ROUTES },
+  { prefix: '/tags', tag: 'Tasks', routes: TAG_ROUTES },
+  { prefix: '/events', tag: 'Events', routes: EVENT_ROUTES },
+  { prefix: '', tag: 'Sync', routes: SYNC_ROUTES },
+];
+
+export function openApiDocument() {
+  return buildOpenApiDocument(API_ROUTES, {
+    title: 'Task Sync API',
+    version: API_VERSION,
+    serverUrl: '/api',
+    errorSchema,
+  });
+}
+
+/** The OpenAPI document and a page to browse and try it. Public. */
+export function createDocsRouter(): Router {
+  const router = Router();
+  // Built once: it only changes with the code
+  const document = openApiDocument();
+
+  router.get('/openapi.json', (_req: Request, res: Response) => {
+    res.json(document);
+  });
+
+  router.get('/docs', (_req: Request, res: Response) => {
+    res.sendFile(DOCS_PAGE);
+  });
+
+  return router;
+}
@@ -0,0 +1,88 @@
+import { Router, Request, Response } from 'express';
+import { EventService } from '../services/eventService';
+import { Database } from '../db/database';
+import { ServerEvent } from '../types';
+import { RouteSpec } from '../utils/openapi';
+import { string } from '../utils/validation';
+
+const HEARTBEAT_MS = 15000;
+
+export function createEventRouter(db: Database): Router {
+  const router = Router();
+  const events = EventService.for(db);
+
+  // Server-Sent Events stream of task and sync events. Reconnecting
+  // clients send Last-Event-ID to replay the events they missed.
+  router.get('/', (req: Request, res: Response) => {
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    res.flushHeaders();
+
+    // Signed-in clients only hear about their own tasks, and about the
+    // sync runs over them. Events without an owner only reach streams
+    // opened without accounts.
+    const visible = (event: ServerEvent) =>
+      !req.user ||
+      ('owner_id' in event.data && event.data.owner_id === req.user.id);
+    const send = (type: string, data: unknown, id?: number) => {
+      const idLine = id === undefined ? '' : `id: ${id}\n`;
+      res.write(`${idLine}event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    const lastEventId = req.header('Last-Event-ID');
+    if (lastEventId !== undefined) {
+      const lastId = parseInt(lastEventId, 10);
+      const missed = Number.isNaN(lastId) ? null : events.since(lastId);
+      if (missed) {
+        missed
+          .filter(visible)
+          .forEach((event) => send(event.type, event.data, event.id));
+      } else {
+        send('stream.reset', { last_event_id: lastId });
+      }
+    }
+
+    const unsubscribe = events.subscribe((event) => {
+      if (visible(event)) {
+        send(event.type, event.data, event.id);
+      }
+    });
+    // Comment lines keep proxies from closing an idle stream
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+    heartbeat.unref();
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  });
+
+  return router;
+}
+
+/** The routes above, for the OpenAPI document (see routes/docs) */
+export const EVENT_ROUTES: RouteSpec[] = [
+  {
+    method: 'get',
+    path: '/',
+    operationId: 'streamEvents',
+    summary: 'Server-Sent Events stream of task and sync events',
+    description:
+      'Each event has an id, a type (see ServerEventPayloads in the ' +
+      'source) and JSON data. The stream stays open until the client ' +
+      'closes it. Browsers, whose EventSource cannot send headers, can ' +
+      'pass the token as an `access_token` query parameter or cookie.',
+    headers: {
+      'Last-Event-ID': 'Id of the last event received, to replay those missed',
+    },
+    responses: {
+      200: {
+        description: 'The event stream',
+        content: { 'text/event-stream': string() },
+      },
+    },
+  },
+];
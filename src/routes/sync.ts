@@ -1,48 +1,200 @@
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, RequestHandler } from 'express';
 import { SyncService } from '../services/syncService';
-import { TaskService } from '../services/taskService';
+import { InvalidParentError, TaskService } from '../services/taskService';
+import { DeadLetterService } from '../services/deadLetterService';
+import { ConflictService } from '../services/conflictService';
+import {
+  BatchService,
+  ChecksumMismatchError,
+  InvalidBatchItem,
+} from '../services/batchService';
+import { SyncScheduler } from '../services/syncScheduler';
+import { SyncAccountService } from '../services/syncAccountService';
+import { ClockService } from '../services/clockService';
+import { TombstoneService } from '../services/tombstoneService';
+import { IdempotencyService } from '../services/idempotencyService';
+import { idempotent } from '../middleware/idempotency';
 import { Database } from '../db/database';
-import dns from 'dns';
-import crypto from 'crypto';
+import { BatchSyncResponse, SyncQueueItem } from '../types';
+import {
+  check,
+  integer,
+  object,
+  string,
+  validate,
+} from '../utils/validation';
+import { JSON_TYPE, RouteSpec, json } from '../utils/openapi';
+import {
+  batchEnvelopeSchema,
+  batchSyncRequestSchema,
+  changesQuerySchema,
+  conflictsQuerySchema,
+  deadLetterFilterSchema,
+  deadLetterQuerySchema,
+  discardSchema,
+  requeueSchema,
+  resolveConflictSchema,
+  syncAccountSchema,
+  syncQueueItemSchema,
+  syncRequestSchema,
+} from '../schemas';
+import {
+  batchSyncResponseSchema,
+  changesResponseSchema,
+  conflictResolutionSchema,
+  deadLetterItemSchema,
+  deadLetterPageSchema,
+  errorSchema,
+  healthSchema,
+  messageSchema,
+  syncConflictPageSchema,
+  syncConflictSchema,
+  syncResponseSchema,
+  syncSchedulerStateSchema,
+  syncStatusSchema,
+} from '../schemas/responses';
 
-export function createSyncRouter(db: Database): Router {
+/**
+ * Validates one item of a batch. Valid items are passed on as they were
+ * sent, since the checksum covers them that way; an invalid one fails on
+ * its own in the batch response.
+ */
+function parseBatchItem(item: unknown): SyncQueueItem | InvalidBatchItem {
+  const result = check(syncQueueItemSchema, item);
+  if ('errors' in result) {
+    const sent = (item ?? {}) as Record<string, unknown>;
+    return {
+      id: String(sent.id),
+      task_id: typeof sent.task_id === 'string' ? sent.task_id : '',
+      data: sent.data,
+      error: result.errors.map((e) => e.message).join('; '),
+    };
+  }
+  return item as SyncQueueItem;
+}
+
+export function createSyncRouter(
+  db: Database,
+  scheduler?: SyncScheduler,
+  authenticate?: RequestHandler,
+): Router {
   const router = Router();
   const taskService = new TaskService(db);
   const syncService = new SyncService(db, taskService);
+  const syncScheduler = scheduler ?? new SyncScheduler(syncService);
+  const deadLetterService = new DeadLetterService(db);
+  const batchService = new BatchService(db, taskService);
+  const conflictService = new ConflictService(db, taskService);
+  const tombstones = new TombstoneService(db);
+  const idempotency = new IdempotencyService(db);
+  const accounts = new SyncAccountService(db);
+  // Signed-in users only see conflicts and dead letters on their own tasks
+  const conflictsFor = (req: Request) =>
+    req.user ? conflictService.forOwner(req.user.id) : conflictService;
+  const deadLettersFor = (req: Request) =>
+    req.user ? deadLetterService.forOwner(req.user.id) : deadLetterService;
+
+  // Public, so clients can check connectivity before signing in
+  router.get('/health', async (_req: Request, res: Response) => {
+    res.status(200).json({
+      status: 'ok',
+      timestamp: new Date().toISOString(),
+    });
+  });
 
+  if (authenticate) {
+    router.use(authenticate);
+  }
 
 router.post('/sync', async (req: Request, res: Response) => {
+  const { strategy } = validate(syncRequestSchema, req.body ?? {});
+
   try {
+    // Signed-in users sync their own tasks, as their linked account
+    const account = req.user && (await accounts.get(req.user.id));
+    if (req.user && !account) {
+      return res.status(409).json({ error: 'No sync account linked' });
+    }
+    const sync = account ? syncService.forAccount(account) : syncService;
 
-    await new Promise<void>((resolve, reject) => {
-      dns.lookup('google.com', (err) => (err ? reject(err) : resolve()));
-    });
+    const online = await sync.checkConnectivity();
+    if (!online) {
+      return res.status(503).json({ error: 'Sync server is not reachable' });
+    }
 
-    const result = await syncService.sync();
+    const result = await sync.sync({ strategy });
 
-    res.status(200).json({
+    return res.status(200).json({
       message: result.success ? 'Sync completed successfully' : 'Sync completed with some errors',
       result,
     });
   } catch (error) {
     console.error('Sync failed:', error);
-    res.status(500).json({ error: 'No internet connection or sync process failed' });
+    return res.status(500).json({ error: 'Sync process failed' });
   }
 });
 
+  // The account on the sync server the caller's tasks sync as
+  router.put('/sync/account', async (req: Request, res: Response) => {
+    const { token } = validate(syncAccountSchema, req.body ?? {});
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    try {
+      await accounts.link(req.user.id, token);
+      return res.json({ message: 'Sync account linked' });
+    } catch (error) {
+      return res.status(500).json({ error: 'Failed to link sync account' });
+    }
+  });
+
+  router.delete('/sync/account', async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    try {
+      if (!(await accounts.unlink(req.user.id))) {
+        return res.status(404).json({ error: 'No sync account linked' });
+      }
+      return res.json({ message: 'Sync account unlinked' });
+    } catch (error) {
+      return res.status(500).json({ error: 'Failed to unlink sync account' });
+    }
+  });
+
+  // Background sync controls; an explicit POST /sync still runs when paused
+  router.post('/sync/pause', (_req: Request, res: Response) => {
+    syncScheduler.pause();
+    res.json(syncScheduler.getState());
+  });
+
+  router.post('/sync/resume', (_req: Request, res: Response) => {
+    syncScheduler.resume();
+    res.json(syncScheduler.getState());
+  });
+
 router.get('/status', async (req, res) => {
   try {
-    const [pending] = await db.get(`SELECT COUNT(*) as count FROM sync_queue`);
-    const [lastSync] = await db.get(`
-      SELECT MAX(last_synced_at) as last_sync FROM tasks WHERE last_synced_at IS NOT NULL
-    `);
+    // Signed-in users only count their own tasks
+    const owned = req.user ? 'owner_id = ?' : '1 = 1';
+    const ownerParams = req.user ? [req.user.id] : [];
+    const pending = await db.get(`
+      SELECT COUNT(*) as count FROM sync_queue
+      WHERE task_id IN (SELECT id FROM tasks WHERE ${owned})
+    `, ownerParams);
+    const lastSync = await db.get(`
+      SELECT MAX(last_synced_at) as last_sync FROM tasks WHERE last_synced_at IS NOT NULL AND ${owned}
+    `, ownerParams);
 
     const online = await syncService.checkConnectivity();
 
     res.json({
       pending_sync: pending.count,
       last_sync: lastSync.last_sync || null,
-      online
+      online,
+      device_id: await ClockService.for(db).deviceId(),
     });
   } catch (error) {
     res.status(500).json({ error: 'Failed to get sync status' });
@@ -50,59 +202,429 @@ router.get('/status', async (req, res) => {
 });
 
 
-  function verifyChecksum(items: any[], checksum: string): boolean {
-  const dataString = items.map(i => i.id + JSON.stringify(i.data)).join('');
-  const computed = crypto.createHash('sha256').update(dataString).digest('hex');
-  return computed === checksum;
-}
+  // Apply a client's queued operations. Retries with the same
+  // Idempotency-Key get the first response. A resent batch differs in its
+  // timestamp and attempt counts, so the key only covers the items' ids
+  // and data, like the checksum; and a response with failed items is not
+  // kept, so resending retries them.
+  const batchIdempotency = idempotent(idempotency, 'POST /batch', {
+    request: (body) =>
+      Array.isArray(body?.items)
+        ? body.items.map((item: any) => ({ id: item?.id, data: item?.data }))
+        : body,
+    store: (statusCode, body: BatchSyncResponse) =>
+      statusCode < 500 &&
+      !body?.processed_items?.some((item) => item.status === 'error'),
+  });
+
+router.post('/batch', batchIdempotency, async (req: Request, res: Response) => {
+  const { items, checksum } = validate(batchEnvelopeSchema, req.body ?? {});
 
-router.post('/batch', async (req: Request, res: Response) => {
   try {
-    const { items, checksum } = req.body;
+    const response = await batchService.processBatch(
+      items.map(parseBatchItem),
+      checksum,
+      req.user?.id,
+    );
+    return res.json(response);
+  } catch (error) {
+    if (error instanceof ChecksumMismatchError) {
+      return res.status(400).json({ error: error.message });
+    }
+    return res.status(500).json({ error: 'Internal server error during batch sync' });
+  }
+});
+
+  // Tasks changed on this server after a change cursor
+  router.get('/sync/changes', async (req: Request, res: Response) => {
+    const {
+      since = 0,
+      limit = 100,
+      device_id,
+    } = validate(changesQuerySchema, req.query);
 
-    if (!verifyChecksum(items, checksum)) {
-      return res.status(400).json({ error: 'Checksum verification failed' });
+    try {
+      // Pulling from `since` acknowledges every change up to it
+      if (device_id) {
+        await tombstones.acknowledge(device_id, req.user?.id ?? null, since);
+      }
+      const tasks = req.user ? taskService.forOwner(req.user.id) : taskService;
+      const changes = await tasks.getChangesSince(since, limit);
+      return res.json(changes);
+    } catch (error) {
+      return res.status(500).json({ error: 'Failed to fetch changes' });
     }
+  });
 
-    const results: any[] = [];
+  // List logged sync conflicts
+  router.get('/sync/conflicts', async (req: Request, res: Response) => {
+    const {
+      task_id,
+      limit = 50,
+      offset = 0,
+    } = validate(conflictsQuerySchema, req.query);
+
+    try {
+      const page = await conflictsFor(req).list(task_id, limit, offset);
+      return res.json(page);
+    } catch (error) {
+      return res.status(500).json({ error: 'Failed to fetch conflicts' });
+    }
+  });
+
+  // Get single conflict
+  router.get('/sync/conflicts/:id', async (req: Request, res: Response) => {
+    try {
+      const conflict = await conflictsFor(req).get(req.params.id);
+      if (!conflict) {
+        return res.status(404).json({ error: 'Conflict not found' });
+      }
+      return res.json(conflict);
+    } catch (error) {
+      return res.status(500).json({ error: 'Failed to fetch conflict' });
+    }
+  });
+
+  // Manually resolve a conflict with either side or a merged task
+  router.post(
+    '/sync/conflicts/:id/resolve',
+    async (req: Request, res: Response) => {
+      const { choice, task } = validate(resolveConflictSchema, req.body ?? {});
 
-    for (const item of items) {
       try {
-        let resultData;
-        if (item.operation === 'create') {
-          resultData = await taskService.createTask(item.data);
-        } else if (item.operation === 'update') {
-          resultData = await taskService.updateTask(item.data.id, item.data);
-        } else if (item.operation === 'delete') {
-          const deleted = await taskService.deleteTask(item.data.id);
-          resultData = { deleted };
+        const result = await conflictsFor(req).resolve(
+          req.params.id,
+          choice ?? task!,
+        );
+        if (!result) {
+          return res.status(404).json({ error: 'Conflict not found' });
         }
+        return res.json(result);
+      } catch (error) {
+        if (error instanceof InvalidParentError) {
+          return res.status(400).json({ error: error.message });
+        }
+        return res.status(500).json({ error: 'Failed to resolve conflict' });
+      }
+    },
+  );
 
-        results.push({ ...item, success: true, data: resultData });
-      } catch (err) {
-        results.push({ ...item, success: false, error: (err as Error).message });
+  // List dead letter items
+  router.get('/sync/dead-letter', async (req: Request, res: Response) => {
+    const {
+      limit = 50,
+      offset = 0,
+      ...filter
+    } = validate(deadLetterQuerySchema, req.query);
+
+    try {
+      const page = await deadLettersFor(req).list(filter, limit, offset);
+      return res.json(page);
+    } catch (error) {
+      return res
+        .status(500)
+        .json({ error: 'Failed to fetch dead letter queue' });
+    }
+  });
+
+  // Requeue every dead letter item matching a filter
+  router.post(
+    '/sync/dead-letter/requeue',
+    async (req: Request, res: Response) => {
+      const filter = validate(deadLetterFilterSchema, req.body ?? {});
+
+      try {
+        const requeued = await deadLettersFor(req).requeueMatching(filter);
+        return res.json({ requeued });
+      } catch (error) {
+        return res
+          .status(500)
+          .json({ error: 'Failed to requeue dead letter items' });
+      }
+    },
+  );
+
+  // Get single dead letter item
+  router.get('/sync/dead-letter/:id', async (req: Request, res: Response) => {
+    try {
+      const item = await deadLettersFor(req).get(req.params.id);
+      if (!item) {
+        return res.status(404).json({ error: 'Dead letter item not found' });
       }
+      return res.json(item);
+    } catch (error) {
+      return res
+        .status(500)
+        .json({ error: 'Failed to fetch dead letter item' });
     }
+  });
 
-    res.json({
-      success: true,
-      results,
-      synced_items: results.filter(r => r.success).length,
-      failed_items: results.filter(r => !r.success).length
-    });
-  } catch (error) {
-    res.status(500).json({ error: 'Internal server error during batch sync' });
-  }
-});
+  // Requeue a single item, optionally with an edited payload
+  router.post(
+    '/sync/dead-letter/:id/requeue',
+    async (req: Request, res: Response) => {
+      const { data } = validate(requeueSchema, req.body ?? {});
+
+      try {
+        const item = await deadLettersFor(req).requeue(req.params.id, data);
+        if (!item) {
+          return res.status(404).json({ error: 'Dead letter item not found' });
+        }
+        return res.json({ message: 'Dead letter item requeued', item });
+      } catch (error) {
+        return res
+          .status(500)
+          .json({ error: 'Failed to requeue dead letter item' });
+      }
+    },
+  );
 
+  // Discard every dead letter item matching a filter
+  router.delete('/sync/dead-letter', async (req: Request, res: Response) => {
+    const filter = validate(deadLetterFilterSchema, req.query);
+    const { reason } = validate(discardSchema, req.body ?? {});
 
-router.get('/health', async (req: Request, res: Response) => {
-  res.status(200).json({
-    status: 'ok',
-    timestamp: new Date().toISOString(),
+    try {
+      const discarded = await deadLettersFor(req).discardMatching(filter, reason);
+      return res.json({ discarded });
+    } catch (error) {
+      return res
+        .status(500)
+        .json({ error: 'Failed to discard dead letter items' });
+    }
   });
-});
 
+  // Discard a single dead letter item
+  router.delete(
+    '/sync/dead-letter/:id',
+    async (req: Request, res: Response) => {
+      const { reason } = validate(discardSchema, req.body ?? {});
+
+      try {
+        const discarded = await deadLettersFor(req).discard(req.params.id, reason);
+        if (!discarded) {
+          return res.status(404).json({ error: 'Dead letter item not found' });
+        }
+        return res.json({ message: 'Dead letter item discarded' });
+      } catch (error) {
+        return res
+          .status(500)
+          .json({ error: 'Failed to discard dead letter item' });
+      }
+    },
+  );
 
   return router;
-}
\ No newline at end of file
+}
+
+const NOT_FOUND = json('Dead letter item not found', errorSchema);
+
+/** The routes above, for the OpenAPI document (see routes/docs) */
+export const SYNC_ROUTES: RouteSpec[] = [
+  {
+    method: 'get',
+    path: '/health',
+    operationId: 'getHealth',
+    summary: 'Check the server is up',
+    public: true,
+    responses: { 200: json('The server is up', healthSchema) },
+  },
+  {
+    method: 'post',
+    path: '/sync',
+    operationId: 'runSync',
+    summary: 'Sync pending changes with the sync server now',
+    body: { [JSON_TYPE]: syncRequestSchema },
+    bodyOptional: true,
+    description:
+      "A signed-in user's tasks sync as the account linked with " +
+      'PUT /sync/account.',
+    responses: {
+      200: json('What was synced', syncResponseSchema),
+      409: json('No sync account linked', errorSchema),
+      503: json('Sync server is not reachable', errorSchema),
+    },
+  },
+  {
+    method: 'put',
+    path: '/sync/account',
+    operationId: 'linkSyncAccount',
+    summary: "Link the caller's tasks to their account on the sync server",
+    description:
+      "The token is one the sync server's POST /auth/login returned. " +
+      'Replaces the account linked before.',
+    body: { [JSON_TYPE]: syncAccountSchema },
+    responses: { 200: json('Linked', messageSchema) },
+  },
+  {
+    method: 'delete',
+    path: '/sync/account',
+    operationId: 'unlinkSyncAccount',
+    summary: "Stop syncing the caller's tasks",
+    responses: {
+      200: json('Unlinked', messageSchema),
+      404: json('No sync account linked', errorSchema),
+    },
+  },
+  {
+    method: 'post',
+    path: '/sync/pause',
+    operationId: 'pauseSync',
+    summary: 'Pause background sync',
+    responses: { 200: json('Background sync state', syncSchedulerStateSchema) },
+  },
+  {
+    method: 'post',
+    path: '/sync/resume',
+    operationId: 'resumeSync',
+    summary: 'Resume background sync',
+    responses: { 200: json('Background sync state', syncSchedulerStateSchema) },
+  },
+  {
+    method: 'get',
+    path: '/status',
+    operationId: 'getSyncStatus',
+    summary: 'Pending changes and connectivity',
+    responses: { 200: json('Sync status', syncStatusSchema) },
+  },
+  {
+    method: 'post',
+    path: '/batch',
+    operationId: 'batchSync',
+    summary: "Apply a client's queued operations",
+    body: { [JSON_TYPE]: batchSyncRequestSchema },
+    description:
+      'Each item is validated on its own: an invalid item is answered ' +
+      "with status 'error' and does not stop the others.",
+    headers: {
+      'Idempotency-Key':
+        'Retries with the same key and items get the first response',
+    },
+    responses: {
+      200: json('Results, one per item', batchSyncResponseSchema),
+      400: json('The checksum or Idempotency-Key is invalid', errorSchema),
+      409: json('A request with this key is still in progress', errorSchema),
+      422: json(
+        'The batch is invalid, or the key was used for another body',
+        errorSchema,
+      ),
+    },
+  },
+  {
+    method: 'get',
+    path: '/sync/changes',
+    operationId: 'getChanges',
+    summary: 'Tasks changed on this server after a change cursor',
+    query: changesQuerySchema,
+    responses: { 200: json('Changed tasks', changesResponseSchema) },
+  },
+  {
+    method: 'get',
+    path: '/sync/conflicts',
+    operationId: 'listConflicts',
+    summary: 'List logged sync conflicts',
+    query: conflictsQuerySchema,
+    responses: { 200: json('A page of conflicts', syncConflictPageSchema) },
+  },
+  {
+    method: 'get',
+    path: '/sync/conflicts/:id',
+    operationId: 'getConflict',
+    summary: 'Get a conflict',
+    responses: {
+      200: json('The conflict', syncConflictSchema),
+      404: json('Conflict not found', errorSchema),
+    },
+  },
+  {
+    method: 'post',
+    path: '/sync/conflicts/:id/resolve',
+    operationId: 'resolveConflict',
+    summary: 'Resolve a conflict with either side or a merged task',
+    body: { [JSON_TYPE]: resolveConflictSchema },
+    responses: {
+      200: json(
+        'The conflict and the task as resolved',
+        conflictResolutionSchema,
+      ),
+      400: json('The parent task is invalid', errorSchema),
+      404: json('Conflict not found', errorSchema),
+    },
+  },
+  {
+    method: 'get',
+    path: '/sync/dead-letter',
+    operationId: 'listDeadLetters',
+    summary: 'List dead letter items',
+    query: deadLetterQuerySchema,
+    responses: {
+      200: json('A page of dead letter items', deadLetterPageSchema),
+    },
+  },
+  {
+    method: 'post',
+    path: '/sync/dead-letter/requeue',
+    operationId: 'requeueDeadLetters',
+    summary: 'Requeue every dead letter item matching a filter',
+    body: { [JSON_TYPE]: deadLetterFilterSchema },
+    bodyOptional: true,
+    responses: {
+      200: json(
+        'How many items were requeued',
+        object({ requeued: integer() }),
+      ),
+    },
+  },
+  {
+    method: 'get',
+    path: '/sync/dead-letter/:id',
+    operationId: 'getDeadLetter',
+    summary: 'Get a dead letter item',
+    responses: {
+      200: json('The dead letter item', deadLetterItemSchema),
+      404: NOT_FOUND,
+    },
+  },
+  {
+    method: 'post',
+    path: '/sync/dead-letter/:id/requeue',
+    operationId: 'requeueDeadLetter',
+    summary: 'Requeue an item, optionally with an edited payload',
+    body: { [JSON_TYPE]: requeueSchema },
+    bodyOptional: true,
+    responses: {
+      200: json(
+        'The item as queued again',
+        object({ message: string(), item: deadLetterItemSchema }),
+      ),
+      404: NOT_FOUND,
+    },
+  },
+  {
+    method: 'delete',
+    path: '/sync/dead-letter',
+    operationId: 'discardDeadLetters',
+    summary: 'Discard every dead letter item matching a filter',
+    query: deadLetterFilterSchema,
+    body: { [JSON_TYPE]: discardSchema },
+    bodyOptional: true,
+    responses: {
+      200: json(
+        'How many items were discarded',
+        object({ discarded: integer() }),
+      ),
+    },
+  },
+  {
+    method: 'delete',
+    path: '/sync/dead-letter/:id',
+    operationId: 'discardDeadLetter',
+    summary: 'Discard a dead letter item',
+    body: { [JSON_TYPE]: discardSchema },
+    bodyOptional: true,
+    responses: {
+      200: json('The item was discarded', messageSchema),
+      404: NOT_FOUND,
+    },
+  },
+];
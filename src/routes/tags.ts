@@ -0,0 +1,35 @@
+import { Router, Request, Response } from 'express';
+import { TaskService } from '../services/taskService';
+import { Database } from '../db/database';
+import { RouteSpec, json } from '../utils/openapi';
+import { tagCountsSchema } from '../schemas/responses';
+
+export function createTagRouter(db: Database): Router {
+  const router = Router();
+  const taskService = new TaskService(db);
+  // Each request sees only the signed-in user's tasks (see requireAuth)
+  const tasksFor = (req: Request) =>
+    req.user ? taskService.forOwner(req.user.id) : taskService;
+
+  // Tags in use, with how many tasks carry each
+  router.get('/', async (req: Request, res: Response) => {
+    try {
+      res.json(await tasksFor(req).getTagCounts());
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch tags' });
+    }
+  });
+
+  return router;
+}
+
+/** The routes above, for the OpenAPI document (see routes/docs) */
+export const TAG_ROUTES: RouteSpec[] = [
+  {
+    method: 'get',
+    path: '/',
+    operationId: 'listTags',
+    summary: 'Tags in use, with how many tasks carry each',
+    responses: { 200: json('Tags, with their task counts', tagCountsSchema) },
+  },
+];
@@ -1,46 +1,286 @@
-import { Router, Request, Response } from 'express';
-import { TaskService } from '../services/taskService';
+import express, { Router, Request, Response } from 'express';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import {
+  InvalidCursorError,
+  InvalidParentError,
+  StaleVersionError,
+  TaskService,
+} from '../services/taskService';
 import { SyncService } from '../services/syncService';
+import { BulkLimitError, BulkService } from '../services/bulkService';
+import { ImportService } from '../services/importService';
+import { IdempotencyService } from '../services/idempotencyService';
+import { idempotent } from '../middleware/idempotency';
 import { Database } from '../db/database';
+import { ImportRecord, Task } from '../types';
+import {
+  ImportFormatError,
+  TaskFormat,
+  exportWriter,
+  parseImport,
+} from '../utils/taskFormats';
+import { anyOf, array, check, string, validate } from '../utils/validation';
+import { JSON_TYPE, RouteSpec, json } from '../utils/openapi';
+import {
+  EDITABLE_TASK_FIELDS,
+  MAX_BULK_OPERATIONS,
+  bulkRequestSchema,
+  exportQuerySchema,
+  historyQuerySchema,
+  importQuerySchema,
+  importRecordSchema,
+  newTaskSchema,
+  revisionParamsSchema,
+  taskQuerySchema,
+  taskUpdateSchema,
+} from '../schemas';
+import {
+  bulkResultSchema,
+  errorSchema,
+  exportedTasksSchema,
+  importReportSchema,
+  messageSchema,
+  taskHistoryPageSchema,
+  taskPageSchema,
+  taskSchema,
+  taskTreeNodeSchema,
+} from '../schemas/responses';
+
+const MAX_IMPORT_TASKS = 5000;
+const MAX_IMPORT_SIZE = '5mb';
+
+/** A task's version, quoted as an entity tag */
+function etagOf(task: Task): string {
+  return `"${task.version}"`;
+}
+
+/**
+ * Versions named in an If-Match header, or undefined when the request has
+ * no precondition (no header, or *). Weak or malformed tags never match.
+ */
+function parseIfMatch(header: string | undefined): number[] | undefined {
+  if (header === undefined || header.trim() === '*') {
+    return undefined;
+  }
+  return header.split(',').flatMap((tag) => {
+    const match = /^"(\d+)"$/.exec(tag.trim());
+    return match ? [Number(match[1])] : [];
+  });
+}
+
+/**
+ * Validates one task from an import file. An invalid task is reported in
+ * the import results rather than failing the whole import.
+ */
+function parseImportRecord(record: unknown): ImportRecord | { error: string } {
+  const result = check(importRecordSchema, record);
+  if ('errors' in result) {
+    return { error: result.errors.map((e) => e.message).join('; ') };
+  }
+  const { id, is_deleted, ...rest } = result.value;
+  // Sync metadata in an export is accepted, but not imported
+  const fields = Object.fromEntries(
+    Object.entries(rest).filter(([field]) =>
+      EDITABLE_TASK_FIELDS.includes(field as keyof Task),
+    ),
+  ) as Partial<Task>;
+  return { id: id || undefined, is_deleted: is_deleted === true, fields };
+}
 
 export function createTaskRouter(db: Database): Router {
   const router = Router();
   const taskService = new TaskService(db);
+  // Each request sees only the signed-in user's tasks (see requireAuth)
+  const tasksFor = (req: Request) =>
+    req.user ? taskService.forOwner(req.user.id) : taskService;
   const syncService = new SyncService(db, taskService);
+  const idempotency = new IdempotencyService(db);
 
-  // Get all tasks
+  // Get tasks, filtered, sorted and paginated
   router.get('/', async (req: Request, res: Response) => {
+    const query = validate(taskQuerySchema, req.query);
+
+    try {
+      const page = await tasksFor(req).queryTasks(query);
+      return res.json(page);
+    } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ error: error.message });
+      }
+      return res.status(500).json({ error: 'Failed to fetch tasks' });
+    }
+  });
+
+  // Open tasks past their due date
+  router.get('/overdue', async (req: Request, res: Response) => {
     try {
-      const tasks = await taskService.getAllTasks();
-      res.json(tasks);
+      res.json(await tasksFor(req).getOverdueTasks());
     } catch (error) {
-      res.status(500).json({ error: 'Failed to fetch tasks' });
+      res.status(500).json({ error: 'Failed to fetch overdue tasks' });
+    }
+  });
+
+  // Deleted tasks that can still be restored
+  router.get('/trash', async (req: Request, res: Response) => {
+    try {
+      res.json(await tasksFor(req).getTrash());
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch trash' });
+    }
+  });
+
+  // Download every task as JSON, CSV or iCalendar, streamed a page at a
+  // time
+  router.get('/export', async (req: Request, res: Response) => {
+    const query = validate(exportQuerySchema, req.query);
+    const format = query.format ?? 'json';
+    const includeDeleted = query.include_deleted ?? false;
+    const writer = exportWriter(format, {
+      includeDeleted,
+      includeSync: query.include_sync,
+    });
+    const tasks = tasksFor(req);
+
+    async function* chunks() {
+      yield writer.start();
+      let index = 0;
+      for await (const task of tasks.exportTasks(includeDeleted)) {
+        yield writer.task(task, index++);
+      }
+      yield writer.end();
+    }
+
+    res.setHeader('Content-Type', `${writer.contentType}; charset=utf-8`);
+    res.attachment(`tasks.${format}`);
+    try {
+      return await pipeline(Readable.from(chunks()), res);
+    } catch (error) {
+      console.error('Error exporting tasks:', error);
+      // Once streaming has started, the connection is closed instead
+      return res.headersSent
+        ? undefined
+        : res.status(500).json({ error: 'Failed to export tasks' });
+    }
+  });
+
+  // Every task as a tree of subtasks
+  router.get('/tree', async (req: Request, res: Response) => {
+    try {
+      res.json(await tasksFor(req).getTaskTree());
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch task tree' });
     }
   });
 
   // Get single task
   router.get('/:id', async (req: Request, res: Response) => {
     try {
-      const task = await taskService.getTask(req.params.id);
+      const task = await tasksFor(req).getTask(req.params.id);
       if (!task) {
         return res.status(404).json({ error: 'Task not found' });
       }
-      res.json(task);
+      res.set('ETag', etagOf(task)).json(task);
     } catch (error) {
       res.status(500).json({ error: 'Failed to fetch task' });
     }
   });
 
-  // Create task
-router.post('/', async (req: Request, res: Response) => {
-  try {
-    const { title, description } = req.body;
+  // Direct subtasks of a task
+  router.get('/:id/children', async (req: Request, res: Response) => {
+    try {
+      const task = await tasksFor(req).getTask(req.params.id);
+      if (!task) {
+        return res.status(404).json({ error: 'Task not found' });
+      }
+      return res.json(await tasksFor(req).getChildren(task.id));
+    } catch (error) {
+      return res.status(500).json({ error: 'Failed to fetch subtasks' });
+    }
+  });
 
-    if (!title || typeof title !== 'string') {
-      return res.status(400).json({ error: 'Title is required and must be a string' });
+  // A task with all of its subtasks, nested
+  router.get('/:id/tree', async (req: Request, res: Response) => {
+    try {
+      const [tree] = await tasksFor(req).getTaskTree(req.params.id);
+      if (!tree) {
+        return res.status(404).json({ error: 'Task not found' });
+      }
+      return res.json(tree);
+    } catch (error) {
+      return res.status(500).json({ error: 'Failed to fetch task tree' });
     }
+  });
 
-    const createdTask = await taskService.createTask({ title, description });
+  // Revisions of a task, newest first, with the fields each one changed
+  router.get('/:id/history', async (req: Request, res: Response) => {
+    const { limit = 50, offset = 0 } = validate(historyQuerySchema, req.query);
+
+    try {
+      const page = await tasksFor(req).getHistory(req.params.id, limit, offset);
+      if (!page) {
+        return res.status(404).json({ error: 'Task not found' });
+      }
+      return res.json(page);
+    } catch (error) {
+      return res.status(500).json({ error: 'Failed to fetch task history' });
+    }
+  });
+
+  // Take a task out of the trash
+  router.post('/:id/restore', async (req: Request, res: Response) => {
+    try {
+      const task = await tasksFor(req).restoreTask(req.params.id);
+      if (!task) {
+        return res.status(404).json({ error: 'Task not found in trash' });
+      }
+      return res.json(task);
+    } catch (error) {
+      console.error('Error restoring task:', error);
+      return res.status(500).json({ error: 'Failed to restore task' });
+    }
+  });
+
+  // Remove a task from the trash for good
+  router.delete('/:id/purge', async (req: Request, res: Response) => {
+    try {
+      const purged = await tasksFor(req).purgeTask(req.params.id);
+      if (!purged) {
+        return res.status(404).json({ error: 'Task not found in trash' });
+      }
+      return res.status(200).json({ message: 'Task purged successfully' });
+    } catch (error) {
+      console.error('Error purging task:', error);
+      return res.status(500).json({ error: 'Failed to purge task' });
+    }
+  });
+
+  // Make an earlier revision the current version
+  router.post('/:id/restore/:revision', async (req: Request, res: Response) => {
+    const { id, revision } = validate(revisionParamsSchema, req.params);
+
+    try {
+      const tasks = tasksFor(req);
+      if (!(await tasks.getTask(id))) {
+        return res.status(404).json({ error: 'Task not found' });
+      }
+      const restored = await tasks.restoreRevision(id, revision);
+      if (!restored) {
+        return res.status(404).json({ error: 'Revision not found' });
+      }
+      return res.json(restored);
+    } catch (error) {
+      console.error('Error restoring task revision:', error);
+      return res.status(500).json({ error: 'Failed to restore revision' });
+    }
+  });
+
+  // Create task; safe to retry with an Idempotency-Key
+router.post('/', idempotent(idempotency, 'POST /tasks'), async (req: Request, res: Response) => {
+  const fields = validate(newTaskSchema, req.body ?? {});
+
+  try {
+    const createdTask = await tasksFor(req).createTask(fields);
 
     res.status(201).json({
       ...createdTask,
@@ -48,40 +288,106 @@ router.post('/', async (req: Request, res: Response) => {
       updated_at: createdTask.updated_at.toISOString(),
     });
   } catch (error) {
+    if (error instanceof InvalidParentError) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('Error creating task:', error);
     res.status(500).json({ error: 'Failed to create task' });
   }
 });
 
+  // Many creates, updates and deletes, or one patch for every matching
+  // task, in a single transaction
+  router.post('/bulk', async (req: Request, res: Response) => {
+    const { mode = 'atomic', operations, filter, patch } = validate(
+      bulkRequestSchema,
+      req.body ?? {},
+    );
+
+    try {
+      const bulk = new BulkService(db, tasksFor(req));
+      const result = operations
+        ? await bulk.apply(operations, mode)
+        : await bulk.applyToMatching(filter!, patch!, mode, MAX_BULK_OPERATIONS);
+      // An atomic request that failed changed nothing
+      const rolledBack = mode === 'atomic' && result.failed > 0;
+      return res.status(rolledBack ? 400 : 200).json(result);
+    } catch (error) {
+      if (error instanceof BulkLimitError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Error applying bulk operations:', error);
+      return res.status(500).json({ error: 'Failed to apply bulk operations' });
+    }
+  });
+
+  // Import tasks from an export. The format defaults to the one named by
+  // the Content-Type
+  router.post(
+    '/import',
+    express.text({
+      type: ['text/csv', 'text/calendar', 'text/plain'],
+      limit: MAX_IMPORT_SIZE,
+    }),
+    async (req: Request, res: Response) => {
+      const format: TaskFormat =
+        validate(importQuerySchema, req.query).format ??
+        (req.is('text/csv') ? 'csv' : req.is('text/calendar') ? 'ics' : 'json');
+
+      try {
+        const records = parseImport(format, req.body);
+        if (records.length > MAX_IMPORT_TASKS) {
+          return res.status(400).json({
+            error: `An import can have at most ${MAX_IMPORT_TASKS} tasks`,
+          });
+        }
+        const report = await new ImportService(db, tasksFor(req)).importTasks(
+          records.map(parseImportRecord),
+        );
+        return res.status(200).json(report);
+      } catch (error) {
+        if (error instanceof ImportFormatError) {
+          return res.status(400).json({ error: error.message });
+        }
+        console.error('Error importing tasks:', error);
+        return res.status(500).json({ error: 'Failed to import tasks' });
+      }
+    },
+  );
+
   // Update task
 router.put('/:id', async (req: Request, res: Response) => {
+  const fields = validate(taskUpdateSchema, req.body ?? {});
+
   try {
     const { id } = req.params;
-    const { title, description, completed } = req.body;
-
-    if (title && typeof title !== 'string') {
-      return res.status(400).json({ error: 'Invalid title' });
-    }
-    if (description && typeof description !== 'string') {
-      return res.status(400).json({ error: 'Invalid description' });
-    }
-    if (completed !== undefined && typeof completed !== 'boolean') {
-      return res.status(400).json({ error: 'Invalid completed value' });
-    }
-
-    const updatedTask = await taskService.updateTask(id, { title, description, completed });
+    const updatedTask = await tasksFor(req).updateTask(
+      id,
+      fields,
+      undefined,
+      parseIfMatch(req.get('If-Match')),
+    );
 
 
     if (!updatedTask) {
       return res.status(404).json({ error: 'Task not found' });
     }
 
-    res.status(200).json({
+    res.status(200).set('ETag', etagOf(updatedTask)).json({
       ...updatedTask,
       created_at: updatedTask.created_at.toISOString(),
       updated_at: updatedTask.updated_at.toISOString(),
     });
   } catch (error) {
+    if (error instanceof InvalidParentError) {
+      return res.status(400).json({ error: error.message });
+    }
+    if (error instanceof StaleVersionError) {
+      return res
+        .status(412)
+        .set('ETag', etagOf(error.current))
+        .json(error.current);
+    }
     console.error('Error updating task:', error);
     res.status(500).json({ error: 'Failed to update task' });
   }
@@ -93,7 +399,11 @@ router.delete('/:id', async (req: Request, res: Response) => {
     const { id } = req.params;
 
     // 1️⃣ Call service
-    const deleted = await taskService.deleteTask(id);
+    const deleted = await tasksFor(req).deleteTask(
+      id,
+      undefined,
+      parseIfMatch(req.get('If-Match')),
+    );
 
     // 2️⃣ Handle not found
     if (!deleted) {
@@ -103,10 +413,233 @@ router.delete('/:id', async (req: Request, res: Response) => {
     // 3️⃣ Return success response
     res.status(200).json({ message: 'Task deleted successfully' });
   } catch (error) {
+    if (error instanceof StaleVersionError) {
+      return res
+        .status(412)
+        .set('ETag', etagOf(error.current))
+        .json(error.current);
+    }
     console.error('Error deleting task:', error);
     res.status(500).json({ error: 'Failed to delete task' });
   }
 });
 
   return router;
-}
\ No newline at end of file
+}
+
+const IF_MATCH =
+  'ETag of the version the change was made on; a stale one gets 412';
+const IDEMPOTENCY_KEY =
+  'Retries with the same key and body get the first response';
+const ETAG = { ETag: 'The task version, quoted' };
+
+/** The routes above, for the OpenAPI document (see routes/docs) */
+export const TASK_ROUTES: RouteSpec[] = [
+  {
+    method: 'get',
+    path: '/',
+    operationId: 'listTasks',
+    summary: 'Get tasks, filtered, sorted and paginated',
+    query: taskQuerySchema,
+    responses: {
+      200: json('A page of tasks', taskPageSchema),
+      400: json('The cursor is invalid', errorSchema),
+    },
+  },
+  {
+    method: 'get',
+    path: '/overdue',
+    operationId: 'listOverdueTasks',
+    summary: 'Open tasks past their due date',
+    responses: { 200: json('Overdue tasks', array(taskSchema)) },
+  },
+  {
+    method: 'get',
+    path: '/trash',
+    operationId: 'listTrash',
+    summary: 'Deleted tasks that can still be restored',
+    responses: { 200: json('Deleted tasks', array(taskSchema)) },
+  },
+  {
+    method: 'get',
+    path: '/export',
+    operationId: 'exportTasks',
+    summary: 'Download every task as JSON, CSV or iCalendar',
+    query: exportQuerySchema,
+    responses: {
+      200: {
+        description: 'The tasks, as an attachment',
+        content: {
+          'application/json': exportedTasksSchema,
+          'text/csv': string(),
+          'text/calendar': string(),
+        },
+        headers: {
+          'Content-Disposition': 'attachment; filename=tasks.<format>',
+        },
+      },
+    },
+  },
+  {
+    method: 'get',
+    path: '/tree',
+    operationId: 'getTaskTree',
+    summary: 'Every task as a tree of subtasks',
+    responses: { 200: json('Top-level tasks', array(taskTreeNodeSchema)) },
+  },
+  {
+    method: 'get',
+    path: '/:id',
+    operationId: 'getTask',
+    summary: 'Get a task',
+    responses: {
+      200: json('The task', taskSchema, ETAG),
+      404: json('Task not found', errorSchema),
+    },
+  },
+  {
+    method: 'get',
+    path: '/:id/children',
+    operationId: 'listSubtasks',
+    summary: 'Direct subtasks of a task',
+    responses: {
+      200: json('The subtasks', array(taskSchema)),
+      404: json('Task not found', errorSchema),
+    },
+  },
+  {
+    method: 'get',
+    path: '/:id/tree',
+    operationId: 'getSubtaskTree',
+    summary: 'A task with all of its subtasks, nested',
+    responses: {
+      200: json('The task and its subtasks', taskTreeNodeSchema),
+      404: json('Task not found', errorSchema),
+    },
+  },
+  {
+    method: 'get',
+    path: '/:id/history',
+    operationId: 'getTaskHistory',
+    summary: 'Revisions of a task, newest first',
+    query: historyQuerySchema,
+    responses: {
+      200: json('A page of revisions', taskHistoryPageSchema),
+      404: json('Task not found', errorSchema),
+    },
+  },
+  {
+    method: 'post',
+    path: '/:id/restore',
+    operationId: 'restoreTask',
+    summary: 'Take a task out of the trash',
+    responses: {
+      200: json('The restored task', taskSchema),
+      404: json('Task not found in trash', errorSchema),
+    },
+  },
+  {
+    method: 'delete',
+    path: '/:id/purge',
+    operationId: 'purgeTask',
+    summary: 'Remove a task from the trash for good',
+    responses: {
+      200: json('The task was purged', messageSchema),
+      404: json('Task not found in trash', errorSchema),
+    },
+  },
+  {
+    method: 'post',
+    path: '/:id/restore/:revision',
+    operationId: 'restoreRevision',
+    summary: 'Make an earlier revision the current version',
+    params: revisionParamsSchema,
+    responses: {
+      200: json('The task as restored', taskSchema),
+      404: json('Task or revision not found', errorSchema),
+    },
+  },
+  {
+    method: 'post',
+    path: '/',
+    operationId: 'createTask',
+    summary: 'Create a task',
+    body: { [JSON_TYPE]: newTaskSchema },
+    headers: { 'Idempotency-Key': IDEMPOTENCY_KEY },
+    responses: {
+      201: json('The created task', taskSchema, {
+        'Idempotent-Replayed': 'true when the response is a replay',
+      }),
+      400: json('The parent task or Idempotency-Key is invalid', errorSchema),
+      409: json('A request with this key is still in progress', errorSchema),
+      422: json(
+        'The request is invalid, or the key was used for another body',
+        errorSchema,
+      ),
+    },
+  },
+  {
+    method: 'post',
+    path: '/bulk',
+    operationId: 'bulkTasks',
+    summary: 'Many creates, updates and deletes, or one patch for a filter',
+    body: { [JSON_TYPE]: bulkRequestSchema },
+    responses: {
+      200: json('Results, one per operation', bulkResultSchema),
+      400: json(
+        'An atomic request failed and changed nothing, or matched too many tasks',
+        anyOf<unknown>(bulkResultSchema, errorSchema),
+      ),
+    },
+  },
+  {
+    method: 'post',
+    path: '/import',
+    operationId: 'importTasks',
+    summary: 'Import tasks from an export',
+    query: importQuerySchema,
+    body: {
+      'application/json': array(importRecordSchema),
+      'text/csv': string(),
+      'text/calendar': string(),
+    },
+    responses: {
+      200: json('What happened to each task', importReportSchema),
+      400: json('The file cannot be read, or has too many tasks', errorSchema),
+    },
+  },
+  {
+    method: 'put',
+    path: '/:id',
+    operationId: 'updateTask',
+    summary: 'Update a task',
+    body: { [JSON_TYPE]: taskUpdateSchema },
+    headers: { 'If-Match': IF_MATCH },
+    responses: {
+      200: json('The updated task', taskSchema, ETAG),
+      400: json('The parent task is invalid', errorSchema),
+      404: json('Task not found', errorSchema),
+      412: json(
+        'The task changed since; its current version',
+        taskSchema,
+        ETAG,
+      ),
+    },
+  },
+  {
+    method: 'delete',
+    path: '/:id',
+    operationId: 'deleteTask',
+    summary: 'Delete a task and its subtasks, to the trash',
+    headers: { 'If-Match': IF_MATCH },
+    responses: {
+      200: json('The task was deleted', messageSchema),
+      404: json('Task not found', errorSchema),
+      412: json(
+        'The task changed since; its current version',
+        taskSchema,
+        ETAG,
+      ),
+    },
+  },
+];
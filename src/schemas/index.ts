@@ -0,0 +1,302 @@
+/**
+ * Request schemas for every route that takes input. Each set of fields is
+ * checked against the type it produces (`satisfies FieldsOf<...>`), so a
+ * field renamed or retyped in types/index.ts has to be changed here too.
+ */
+import {
+  BatchSyncRequest,
+  BulkMode,
+  DeadLetterFilter,
+  SyncOperation,
+  SyncQueueItem,
+  SyncStatus,
+  Task,
+  TaskPriority,
+  TaskQuery,
+  TaskSortField,
+} from '../types';
+import { CHALLENGE_CONSTRAINTS } from '../utils/challenge-constraints';
+import { TASK_FORMATS } from '../utils/taskFormats';
+import {
+  Schema,
+  array,
+  boolean,
+  date,
+  integer,
+  nullable,
+  object,
+  oneOf,
+  optional,
+  refine,
+  string,
+  unknown,
+  variants,
+} from '../utils/validation';
+import { CONFLICT_STRATEGIES } from '../services/syncService';
+import { MIN_PASSWORD_LENGTH, USERNAME_PATTERN } from '../services/authService';
+
+export const MAX_TITLE_LENGTH = 500;
+export const MAX_DESCRIPTION_LENGTH = 10000;
+export const MAX_TAGS = 20;
+export const MAX_TAG_LENGTH = 50;
+export const MAX_PAGE_SIZE = 500;
+export const MAX_BULK_OPERATIONS = 500;
+export const MAX_BATCH_ITEMS = 1000;
+const MAX_ID_LENGTH = 255;
+const MAX_SEARCH_LENGTH = 200;
+const MAX_PASSWORD_LENGTH = 1024;
+
+export const PRIORITIES: TaskPriority[] = ['low', 'normal', 'high', 'urgent'];
+const SORT_FIELDS: TaskSortField[] = ['created_at', 'updated_at', 'title'];
+export const BULK_MODES: BulkMode[] = ['atomic', 'best-effort'];
+export const SYNC_OPERATIONS: SyncOperation[] = ['create', 'update', 'delete'];
+export const SYNC_STATES = CHALLENGE_CONSTRAINTS.SYNC_STATES as SyncStatus[];
+
+/** Schemas for some of T's fields, each producing that field's type */
+type FieldsOf<T> = { [K in keyof T]?: Schema<T[K] | undefined> };
+
+/** As FieldsOf, for JSON written from a stored row, where fields may be null */
+type NullableFieldsOf<T> = { [K in keyof T]?: Schema<T[K] | null | undefined> };
+
+const id = () => string({ min: 1, max: MAX_ID_LENGTH });
+
+function pageFields(maxLimit: number) {
+  return {
+    limit: optional(integer({ min: 1, max: maxLimit, coerce: true })),
+    offset: optional(integer({ min: 0, coerce: true })),
+  };
+}
+
+const title = string({ trim: true, min: 1, max: MAX_TITLE_LENGTH });
+const description = string({ max: MAX_DESCRIPTION_LENGTH });
+// Tags are trimmed, and repeats dropped
+const tags = array(string({ trim: true, min: 1, max: MAX_TAG_LENGTH }), {
+  max: MAX_TAGS,
+  unique: true,
+});
+
+/** Task fields a client can set; due_at and parent_id take null to clear them */
+const editableTaskFields = {
+  title: optional(title),
+  description: optional(description),
+  completed: optional(boolean()),
+  due_at: optional(nullable(date())),
+  priority: optional(oneOf(PRIORITIES)),
+  tags: optional(tags),
+  parent_id: optional(nullable(id())),
+} satisfies FieldsOf<Task>;
+
+export const EDITABLE_TASK_FIELDS = Object.keys(
+  editableTaskFields,
+) as (keyof Task)[];
+
+export const newTaskSchema = object({ ...editableTaskFields, title });
+
+export const taskUpdateSchema = object(editableTaskFields);
+
+// Filters shared by GET /tasks and bulk requests. Booleans and numbers may
+// be strings, as they are in a query string
+const taskFilterFields = {
+  completed: optional(boolean({ coerce: true })),
+  sync_status: optional(oneOf(SYNC_STATES)),
+  priority: optional(oneOf(PRIORITIES)),
+  tag: optional(string({ max: MAX_TAG_LENGTH })),
+  q: optional(string({ max: MAX_SEARCH_LENGTH })),
+  created_after: optional(date()),
+  created_before: optional(date()),
+  updated_after: optional(date()),
+  updated_before: optional(date()),
+  due_after: optional(date()),
+  due_before: optional(date()),
+} satisfies FieldsOf<TaskQuery>;
+
+export const taskQuerySchema = object({
+  ...taskFilterFields,
+  sort: optional(oneOf(SORT_FIELDS)),
+  order: optional(oneOf(['asc', 'desc'] as const)),
+  limit: optional(integer({ min: 1, max: MAX_PAGE_SIZE, coerce: true })),
+  cursor: optional(string({ max: 1000 })),
+} satisfies FieldsOf<TaskQuery>);
+
+/** A list of operations, or a filter with a patch for every matching task */
+export const bulkRequestSchema = refine(
+  object({
+    mode: optional(oneOf(BULK_MODES)),
+    operations: optional(
+      array(
+        variants('operation', {
+          create: object({ data: newTaskSchema }),
+          update: object({ id: id(), data: taskUpdateSchema }),
+          delete: object({ id: id() }),
+        }),
+        { min: 1, max: MAX_BULK_OPERATIONS },
+      ),
+    ),
+    filter: optional(object(taskFilterFields)),
+    patch: optional(taskUpdateSchema),
+  }),
+  (body, report) => {
+    if (
+      body.operations ? body.filter || body.patch : !body.filter || !body.patch
+    ) {
+      report(
+        '',
+        'invalid_value',
+        'must have either operations or a filter and patch',
+      );
+    }
+  },
+);
+
+export const exportQuerySchema = object({
+  format: optional(oneOf(TASK_FORMATS)),
+  include_deleted: optional(boolean({ coerce: true })),
+  include_sync: optional(boolean({ coerce: true })),
+});
+
+export const importQuerySchema = object({
+  format: optional(oneOf(TASK_FORMATS)),
+});
+
+/**
+ * One task in an import file. The other fields an export writes are
+ * accepted, so an export can be imported as it is, but only the editable
+ * fields are imported.
+ */
+export const importRecordSchema = object({
+  ...editableTaskFields,
+  title,
+  id: optional(nullable(string({ max: MAX_ID_LENGTH }))),
+  is_deleted: optional(nullable(boolean())),
+  created_at: optional(nullable(date())),
+  updated_at: optional(nullable(date())),
+  sync_status: optional(nullable(oneOf(SYNC_STATES))),
+  server_id: optional(nullable(string({ max: MAX_ID_LENGTH }))),
+  last_synced_at: optional(nullable(date())),
+  hlc: optional(nullable(string({ max: MAX_ID_LENGTH }))),
+} satisfies NullableFieldsOf<Task>);
+
+export const historyQuerySchema = object(pageFields(200));
+
+export const revisionParamsSchema = object({
+  id: id(),
+  revision: integer({ min: 1, coerce: true }),
+});
+
+/**
+ * A task as queued for sync: the whole task, with dates as strings. Stored
+ * rows hold nulls where Task has optional fields.
+ */
+export const syncTaskData = object({
+  id: optional(nullable(id())),
+  title: optional(nullable(string({ max: MAX_TITLE_LENGTH }))),
+  description: optional(nullable(description)),
+  completed: optional(nullable(boolean())),
+  created_at: optional(nullable(date())),
+  updated_at: optional(nullable(date())),
+  is_deleted: optional(nullable(boolean())),
+  due_at: optional(nullable(date())),
+  priority: optional(nullable(oneOf(PRIORITIES))),
+  tags: optional(nullable(tags)),
+  parent_id: optional(nullable(id())),
+  owner_id: optional(nullable(id())),
+  hlc: optional(nullable(string({ max: MAX_ID_LENGTH }))),
+  version: optional(nullable(integer({ min: 1 }))),
+  purged_at: optional(nullable(date())),
+  sync_status: optional(nullable(oneOf(SYNC_STATES))),
+  server_id: optional(nullable(id())),
+  last_synced_at: optional(nullable(date())),
+} satisfies NullableFieldsOf<Task>) as Schema<Partial<Task>>;
+
+/** One item of a batch, checked on its own (see batchEnvelopeSchema) */
+export const syncQueueItemSchema = object({
+  id: id(),
+  task_id: id(),
+  operation: oneOf(SYNC_OPERATIONS),
+  data: syncTaskData,
+  created_at: date(),
+  hlc: optional(string({ max: MAX_ID_LENGTH })),
+  retry_count: integer({ min: 0 }),
+  error_message: optional(string()),
+  next_attempt_at: optional(date()),
+  idempotency_key: optional(string({ min: 1, max: MAX_ID_LENGTH })),
+} satisfies FieldsOf<SyncQueueItem>);
+
+export const batchSyncRequestSchema = object({
+  items: array(syncQueueItemSchema, { max: MAX_BATCH_ITEMS }),
+  checksum: string({ min: 1, max: MAX_ID_LENGTH }),
+  client_timestamp: optional(date()),
+} satisfies FieldsOf<BatchSyncRequest>);
+
+/**
+ * A batch with its items left unchecked, so an invalid item can fail on
+ * its own rather than rejecting the rest
+ */
+export const batchEnvelopeSchema = object({
+  items: array(unknown(), { max: MAX_BATCH_ITEMS }),
+  checksum: string({ min: 1, max: MAX_ID_LENGTH }),
+  client_timestamp: optional(date()),
+});
+
+export const syncRequestSchema = object({
+  strategy: optional(oneOf(CONFLICT_STRATEGIES)),
+});
+
+// A token from the sync server's /auth/login
+export const syncAccountSchema = object({
+  token: string({ trim: true, min: 1, max: 4096 }),
+});
+
+export const changesQuerySchema = object({
+  since: optional(integer({ min: 0, coerce: true })),
+  limit: optional(integer({ min: 1, max: 500, coerce: true })),
+  device_id: optional(id()),
+});
+
+export const conflictsQuerySchema = object({
+  task_id: optional(id()),
+  ...pageFields(200),
+});
+
+/** Either side of a conflict, or a merged task */
+export const resolveConflictSchema = refine(
+  object({
+    choice: optional(oneOf(['local', 'remote'] as const)),
+    task: optional(object(editableTaskFields)),
+  }),
+  (body, report) => {
+    if ((body.choice === undefined) === (body.task === undefined)) {
+      report('', 'invalid_value', 'must have either choice or task, not both');
+    }
+  },
+);
+
+const deadLetterFilterFields = {
+  task_id: optional(id()),
+  operation: optional(oneOf(SYNC_OPERATIONS)),
+} satisfies FieldsOf<DeadLetterFilter>;
+
+export const deadLetterFilterSchema = object(deadLetterFilterFields);
+
+export const deadLetterQuerySchema = object({
+  ...deadLetterFilterFields,
+  ...pageFields(200),
+});
+
+export const requeueSchema = object({
+  data: optional(syncTaskData),
+});
+
+export const discardSchema = object({
+  reason: optional(string({ max: 1000 })),
+});
+
+export const registerSchema = object({
+  username: string({ pattern: USERNAME_PATTERN }),
+  password: string({ min: MIN_PASSWORD_LENGTH, max: MAX_PASSWORD_LENGTH }),
+});
+
+export const loginSchema = object({
+  username: string({ max: MAX_ID_LENGTH }),
+  password: string({ max: MAX_PASSWORD_LENGTH }),
+});
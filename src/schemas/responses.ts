@@ -0,0 +1,346 @@
+/**
+ * Response bodies, for the OpenAPI document (see utils/openapi). Each
+ * names every field of the type it describes (`component<T>`), so a field
+ * added to types/index.ts has to be described here too. Fields JSON
+ * leaves out when they are undefined are optional; columns that can be
+ * NULL are nullable.
+ */
+import {
+  AuthSession,
+  BatchSyncResponse,
+  BulkItemResult,
+  BulkResult,
+  ChangesResponse,
+  DeadLetterItem,
+  DeadLetterPage,
+  ImportItemResult,
+  ImportReport,
+  SyncConflict,
+  SyncConflictPage,
+  SyncError,
+  SyncResult,
+  TagCount,
+  Task,
+  TaskHistoryEntry,
+  TaskHistoryPage,
+  TaskPage,
+  TaskTreeNode,
+  User,
+} from '../types';
+import { SyncSchedulerState } from '../services/syncScheduler';
+import { CONFLICT_STRATEGIES } from '../services/syncService';
+import {
+  FieldError,
+  Schema,
+  VALIDATION_CODES,
+  array,
+  boolean,
+  date,
+  integer,
+  named,
+  nullable,
+  object,
+  oneOf,
+  optional,
+  record,
+  string,
+  unknown,
+} from '../utils/validation';
+import {
+  BULK_MODES,
+  PRIORITIES,
+  SYNC_OPERATIONS,
+  SYNC_STATES,
+  syncTaskData,
+} from './index';
+
+/** A schema for every field of T, each producing that field's type */
+type AllFieldsOf<T> = {
+  [K in keyof T]-?: Schema<T[K] | null | undefined>;
+};
+
+/**
+ * A schema described once in the document and referenced wherever it is
+ * used. `fields` is called lazily, so a component can contain itself.
+ */
+function component<T>(name: string, fields: () => AllFieldsOf<T>): Schema<T> {
+  return named(
+    name,
+    () => object(fields() as Record<string, Schema<unknown>>) as Schema<never>,
+  );
+}
+
+function page<T>(name: string, item: Schema<T>) {
+  return component<{
+    items: T[];
+    total: number;
+    limit: number;
+    offset: number;
+  }>(name, () => ({
+    items: array(item),
+    total: integer({ min: 0 }),
+    limit: integer({ min: 1 }),
+    offset: integer({ min: 0 }),
+  }));
+}
+
+const taskFields = (): AllFieldsOf<Task> => ({
+  id: string(),
+  title: string(),
+  description: nullable(string()),
+  completed: boolean(),
+  created_at: date(),
+  updated_at: date(),
+  is_deleted: boolean(),
+  due_at: nullable(date()),
+  priority: oneOf(PRIORITIES),
+  tags: array(string()),
+  parent_id: nullable(string()),
+  owner_id: nullable(string()),
+  hlc: nullable(string()),
+  version: integer({ min: 1 }),
+  // Tasks just created are sent without these
+  purged_at: optional(nullable(date())),
+  server_id: optional(nullable(string())),
+  sync_status: oneOf(SYNC_STATES),
+  // Only sent once the task has been synced
+  last_synced_at: optional(date()),
+});
+
+export const taskSchema = component<Task>('Task', taskFields);
+
+/** Task fields as stored in a queue item or a conflict: any may be missing */
+export const taskDataSchema = named('TaskData', () => syncTaskData);
+
+export const taskTreeNodeSchema: Schema<TaskTreeNode> = component<TaskTreeNode>(
+  'TaskTreeNode',
+  () => ({ ...taskFields(), children: array(taskTreeNodeSchema) }),
+);
+
+export const taskPageSchema = component<TaskPage>('TaskPage', () => ({
+  items: array(taskSchema),
+  next_cursor: nullable(string()),
+}));
+
+export const taskHistoryPageSchema = component<TaskHistoryPage>(
+  'TaskHistoryPage',
+  () => ({
+    items: array(
+      component<TaskHistoryEntry>('TaskHistoryEntry', () => ({
+        task_id: string(),
+        revision: integer({ min: 1 }),
+        operation: oneOf(SYNC_OPERATIONS),
+        source: oneOf(['local', 'remote', 'conflict-resolution'] as const),
+        device_id: nullable(string()),
+        hlc: nullable(string()),
+        restored_from: nullable(integer({ min: 1 })),
+        created_at: date(),
+        changes: record(object({ from: unknown(), to: unknown() })),
+      })),
+    ),
+    total: integer({ min: 0 }),
+    limit: integer({ min: 1 }),
+    offset: integer({ min: 0 }),
+  }),
+);
+
+export const tagCountsSchema = array(
+  component<TagCount>('TagCount', () => ({
+    tag: string(),
+    count: integer({ min: 1 }),
+  })),
+);
+
+export const bulkResultSchema = component<BulkResult>('BulkResult', () => ({
+  mode: oneOf(BULK_MODES),
+  succeeded: integer({ min: 0 }),
+  failed: integer({ min: 0 }),
+  results: array(
+    component<BulkItemResult>('BulkItemResult', () => ({
+      index: integer({ min: 0 }),
+      operation: oneOf(SYNC_OPERATIONS),
+      id: optional(string()),
+      status: oneOf(['success', 'error', 'skipped'] as const),
+      task: optional(taskSchema),
+      error: optional(string()),
+    })),
+  ),
+}));
+
+/** A task in a JSON export; fields the export leaves empty are null */
+export const exportedTasksSchema = array(taskDataSchema);
+
+export const importReportSchema = component<ImportReport>(
+  'ImportReport',
+  () => ({
+    created: integer({ min: 0 }),
+    updated: integer({ min: 0 }),
+    skipped: integer({ min: 0 }),
+    failed: integer({ min: 0 }),
+    results: array(
+      component<ImportItemResult>('ImportItemResult', () => ({
+        index: integer({ min: 0 }),
+        id: optional(string()),
+        status: oneOf(['created', 'updated', 'skipped', 'error'] as const),
+        reason: optional(string()),
+      })),
+    ),
+  }),
+);
+
+export const userSchema = component<User>('User', () => ({
+  id: string(),
+  username: string(),
+  created_at: date(),
+}));
+
+export const authSessionSchema = component<AuthSession>('AuthSession', () => ({
+  user: userSchema,
+  token: string(),
+  expires_at: date(),
+}));
+
+const syncResultSchema = component<SyncResult>('SyncResult', () => ({
+  success: boolean(),
+  synced_items: integer({ min: 0 }),
+  failed_items: integer({ min: 0 }),
+  pulled_items: optional(integer({ min: 0 })),
+  errors: array(
+    component<SyncError>('SyncError', () => ({
+      task_id: string(),
+      operation: string(),
+      error: string(),
+      timestamp: date(),
+    })),
+  ),
+}));
+
+export const syncResponseSchema = object({
+  message: string(),
+  result: syncResultSchema,
+});
+
+export const syncSchedulerStateSchema = component<SyncSchedulerState>(
+  'SyncSchedulerState',
+  () => ({
+    running: boolean(),
+    paused: boolean(),
+    online: boolean(),
+    syncing: boolean(),
+    last_sync_at: nullable(date()),
+    last_result: nullable(syncResultSchema),
+  }),
+);
+
+export const syncStatusSchema = object({
+  pending_sync: integer({ min: 0 }),
+  last_sync: nullable(date()),
+  online: boolean(),
+  device_id: string(),
+});
+
+type ProcessedItem = BatchSyncResponse['processed_items'][number];
+
+export const batchSyncResponseSchema = component<BatchSyncResponse>(
+  'BatchSyncResponse',
+  () => ({
+    processed_items: array(
+      component<ProcessedItem>('ProcessedItem', () => ({
+        client_id: string(),
+        // Empty for a failed item whose task the server does not know
+        server_id: string(),
+        status: oneOf(['success', 'conflict', 'error'] as const),
+        resolved_data: optional(taskSchema),
+        error: optional(string()),
+        status_code: optional(integer({ min: 400, max: 599 })),
+      })),
+    ),
+  }),
+);
+
+export const changesResponseSchema = component<ChangesResponse>(
+  'ChangesResponse',
+  () => ({
+    changes: array(taskSchema),
+    cursor: string(),
+    has_more: boolean(),
+  }),
+);
+
+export const syncConflictSchema = component<SyncConflict>(
+  'SyncConflict',
+  () => ({
+    id: string(),
+    task_id: string(),
+    owner_id: nullable(string()),
+    server_id: optional(string()),
+    // Stored as they were when logged, so conflicts logged before a task
+    // field was added lack it
+    local_version: taskDataSchema as Schema<Task>,
+    remote_version: taskDataSchema as Schema<Task>,
+    resolved_version: taskDataSchema as Schema<Task>,
+    strategy: oneOf(CONFLICT_STRATEGIES),
+    outcome: oneOf(['local', 'remote', 'merged'] as const),
+    created_at: date(),
+    manual_resolution: optional(oneOf(['local', 'remote', 'custom'] as const)),
+    manually_resolved_at: optional(date()),
+  }),
+);
+
+export const syncConflictPageSchema: Schema<SyncConflictPage> = page(
+  'SyncConflictPage',
+  syncConflictSchema,
+);
+
+export const conflictResolutionSchema = object({
+  conflict: syncConflictSchema,
+  task: nullable(taskSchema),
+});
+
+export const deadLetterItemSchema = component<DeadLetterItem>(
+  'DeadLetterItem',
+  () => ({
+    id: string(),
+    task_id: string(),
+    owner_id: nullable(string()),
+    operation: oneOf(SYNC_OPERATIONS),
+    data: taskDataSchema,
+    error_message: string(),
+    failed_at: date(),
+  }),
+);
+
+export const deadLetterPageSchema: Schema<DeadLetterPage> = page(
+  'DeadLetterPage',
+  deadLetterItemSchema,
+);
+
+export const messageSchema = object({ message: string() });
+
+export const healthSchema = object({
+  status: oneOf(['ok'] as const),
+  timestamp: date(),
+});
+
+/** What errorHandler and the routes answer with when a request fails */
+export const errorSchema = component<{
+  error: string;
+  errors?: FieldError[];
+  timestamp?: Date;
+  path?: string;
+}>('Error', () => ({
+  error: string(),
+  // Only for 422 Validation failed
+  errors: optional(
+    array(
+      component<FieldError>('FieldError', () => ({
+        field: string(),
+        code: oneOf(VALIDATION_CODES),
+        message: string(),
+      })),
+    ),
+  ),
+  // Left out by errors the routes answer themselves
+  timestamp: optional(date()),
+  path: optional(string()),
+}));
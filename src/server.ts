@@ -5,14 +5,26 @@ import fs from 'fs';
 import { Database } from './db/database';
 import { createTaskRouter } from './routes/tasks';
 import { createSyncRouter } from './routes/sync';
+import { createEventRouter } from './routes/events';
+import { createTagRouter } from './routes/tags';
+import { createAuthRouter } from './routes/auth';
+import { createDocsRouter } from './routes/docs';
+import { AuthService } from './services/authService';
+import { TaskService } from './services/taskService';
+import { SyncService } from './services/syncService';
+import { SyncScheduler } from './services/syncScheduler';
+import { TombstoneService } from './services/tombstoneService';
 import { errorHandler } from './middleware/errorHandler';
+import { requireAuth } from './middleware/auth';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
 
 // Middleware
-app.use(cors());
-app.use(express.json());
+// Browsers only let scripts read the ETag header when it is exposed
+app.use(cors({ exposedHeaders: ['ETag'] }));
+// Large enough for task imports (see POST /api/tasks/import)
+app.use(express.json({ limit: '5mb' }));
 
 // Ensure database directory exists
 const dbPath = path.join(__dirname, 'db', 'data.db');
@@ -23,10 +35,30 @@ if (!fs.existsSync(dbDir)) {
 
 // Initialize database
 const db = new Database(dbPath);
+const syncScheduler = new SyncScheduler(
+  new SyncService(db, new TaskService(db)),
+);
+// Background sync needs a server to sync with. Without API_BASE_URL the
+// transport falls back to this server, which would copy every queued
+// task into itself.
+const syncUpstream = process.env.API_BASE_URL;
+const tombstoneService = new TombstoneService(db);
 
-// Routes
-app.use('/api/tasks', createTaskRouter(db));
-app.use('/api', createSyncRouter(db));
+const authService = new AuthService(db);
+const authenticate = requireAuth(authService);
+// EventSource cannot send an Authorization header
+const authenticateStream = requireAuth(authService, {
+  tokenOutsideHeader: true,
+});
+
+// Routes. The docs come first: the sync router below is mounted at /api
+// too, and requires a token for every request after /health
+app.use('/api', createDocsRouter());
+app.use('/api/auth', createAuthRouter(authService, authenticate));
+app.use('/api/tasks', authenticate, createTaskRouter(db));
+app.use('/api/tags', authenticate, createTagRouter(db));
+app.use('/api/events', authenticateStream, createEventRouter(db));
+app.use('/api', createSyncRouter(db, syncScheduler, authenticate));
 
 // Error handling
 app.use(errorHandler);
@@ -39,6 +71,12 @@ async function start() {
 
     app.listen(PORT, () => {
       console.log(`🚀 Server running on http://localhost:${PORT}`);
+      if (syncUpstream) {
+        syncScheduler.start();
+      } else {
+        console.log('ℹ️  Background sync is off: API_BASE_URL is not set');
+      }
+      tombstoneService.start();
     });
   } catch (error) {
     console.error('❌ Failed to start server:', error);
@@ -51,6 +89,8 @@ start();
 // Graceful shutdown
 process.on('SIGTERM', async () => {
   console.log('SIGTERM received, shutting down gracefully');
+  syncScheduler.stop();
+  tombstoneService.stop();
   await db.close();
   process.exit(0);
 });
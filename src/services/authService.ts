@@ -0,0 +1,202 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+import { v4 as uuidv4 } from 'uuid';
+import { AuthSession, User } from '../types';
+import { Database } from '../db/database';
+import { signToken, verifyToken } from '../utils/authToken';
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number,
+) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+export const MIN_PASSWORD_LENGTH = 8;
+export const USERNAME_PATTERN = /^[A-Za-z0-9_.-]{3,50}$/;
+
+export class InvalidCredentialsError extends Error {
+  statusCode = 401;
+
+  constructor() {
+    super('Invalid username or password');
+    this.name = 'InvalidCredentialsError';
+  }
+}
+
+export class UsernameTakenError extends Error {
+  statusCode = 409;
+
+  constructor() {
+    super('Username is already taken');
+    this.name = 'UsernameTakenError';
+  }
+}
+
+export class InvalidAccountError extends Error {
+  statusCode = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidAccountError';
+  }
+}
+
+export interface AuthServiceOptions {
+  /** HMAC key for tokens; tokens do not survive a restart without one */
+  secret?: string;
+  ttlSeconds?: number;
+}
+
+/**
+ * Local user accounts. Passwords are stored as salted scrypt hashes, and
+ * sessions are stateless bearer tokens signed with the server's secret.
+ */
+export class AuthService {
+  private secret: string;
+  private ttlSeconds: number;
+
+  constructor(
+    private db: Database,
+    options: AuthServiceOptions = {},
+  ) {
+    const secret = options.secret ?? process.env.AUTH_TOKEN_SECRET;
+    if (!secret) {
+      console.warn(
+        'AUTH_TOKEN_SECRET is not set; tokens will be invalid after a restart',
+      );
+    }
+    this.secret = secret || crypto.randomBytes(32).toString('hex');
+    this.ttlSeconds =
+      options.ttlSeconds ??
+      parseInt(process.env.AUTH_TOKEN_TTL_SECONDS || '86400', 10);
+  }
+
+  /**
+   * Creates an account and signs it in. The first account adopts the
+   * tasks created before accounts existed, so upgrading a single-user
+   * install keeps its data.
+   */
+  async register(username: string, password: string): Promise<AuthSession> {
+    if (typeof username !== 'string' || !USERNAME_PATTERN.test(username)) {
+      throw new InvalidAccountError(
+        'Username must be 3 to 50 letters, digits, dots, dashes or underscores',
+      );
+    }
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+      throw new InvalidAccountError(
+        `Password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+      );
+    }
+
+    const user: User = { id: uuidv4(), username, created_at: new Date() };
+    const passwordHash = await this.hashPassword(password);
+
+    await this.db.transaction(async () => {
+      const taken = await this.db.get(
+        'SELECT id FROM users WHERE username = ?',
+        [username],
+      );
+      if (taken) {
+        throw new UsernameTakenError();
+      }
+      const { count } = await this.db.get(
+        'SELECT COUNT(*) as count FROM users',
+      );
+
+      await this.db.run(
+        `INSERT INTO users (id, username, password_hash, created_at)
+         VALUES (?, ?, ?, ?)`,
+        [user.id, user.username, passwordHash, user.created_at.toISOString()],
+      );
+      if (count === 0) {
+        await this.db.run(
+          'UPDATE tasks SET owner_id = ? WHERE owner_id IS NULL',
+          [user.id],
+        );
+      }
+    });
+
+    return this.issue(user);
+  }
+
+  async login(username: string, password: string): Promise<AuthSession> {
+    const row =
+      typeof username === 'string'
+        ? await this.db.get('SELECT * FROM users WHERE username = ?', [
+            username,
+          ])
+        : null;
+    // Hash even for unknown users, so timing does not reveal which exist
+    const matches = await this.verifyPassword(
+      typeof password === 'string' ? password : '',
+      row?.password_hash ?? null,
+    );
+    if (!row || !matches) {
+      throw new InvalidCredentialsError();
+    }
+    return this.issue(this.toUser(row));
+  }
+
+  /** The user a bearer token was issued to, or null if it is not valid */
+  async authenticate(token: string): Promise<User | null> {
+    const claims = verifyToken(token, this.secret);
+    if (!claims) {
+      return null;
+    }
+    return this.getUser(claims.sub);
+  }
+
+  async getUser(id: string): Promise<User | null> {
+    const row = await this.db.get(
+      'SELECT id, username, created_at FROM users WHERE id = ?',
+      [id],
+    );
+    return row ? this.toUser(row) : null;
+  }
+
+  private issue(user: User): AuthSession {
+    const now = Date.now();
+    return {
+      user,
+      token: signToken(user.id, this.secret, this.ttlSeconds, now),
+      expires_at: new Date(now + this.ttlSeconds * 1000),
+    };
+  }
+
+  // Stored as scrypt$<salt>$<hash>, both hex encoded
+  private async hashPassword(password: string): Promise<string> {
+    const salt = crypto.randomBytes(16);
+    const hash = await scrypt(password, salt, KEY_LENGTH);
+    return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+  }
+
+  private async verifyPassword(
+    password: string,
+    stored: string | null,
+  ): Promise<boolean> {
+    const [scheme, salt, hash] = (stored ?? '').split('$');
+    const expected =
+      scheme === 'scrypt' && hash
+        ? Buffer.from(hash, 'hex')
+        : Buffer.alloc(KEY_LENGTH);
+    const actual = await scrypt(
+      password,
+      Buffer.from(salt ?? '', 'hex'),
+      KEY_LENGTH,
+    );
+    return (
+      stored !== null &&
+      expected.length === actual.length &&
+      crypto.timingSafeEqual(expected, actual)
+    );
+  }
+
+  private toUser(row: any): User {
+    return {
+      id: row.id,
+      username: row.username,
+      created_at: new Date(row.created_at),
+    };
+  }
+}
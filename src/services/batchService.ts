@@ -0,0 +1,374 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BatchSyncResponse, SyncQueueItem, Task } from '../types';
+import { Database } from '../db/database';
+import { TaskService } from './taskService';
+import { ClockService } from './clockService';
+import { IdempotencyService } from './idempotencyService';
+import { calculateBatchChecksum } from '../utils/checksum';
+import { compareVersions } from '../utils/hlc';
+
+export class ChecksumMismatchError extends Error {
+  statusCode = 400;
+
+  constructor() {
+    super('Checksum verification failed');
+    this.name = 'ChecksumMismatchError';
+  }
+}
+
+/** An item the server will not apply however often it is sent */
+export class RejectedItemError extends Error {
+  constructor(
+    message: string,
+    public statusCode: 404 | 422,
+  ) {
+    super(message);
+    this.name = 'RejectedItemError';
+  }
+}
+
+type ProcessedItem = BatchSyncResponse['processed_items'][number];
+
+/** An item that failed validation, answered with the problems found */
+export interface InvalidBatchItem {
+  id: string;
+  task_id: string;
+  data: unknown;
+  error: string;
+}
+
+const ITEM_SCOPE = 'batch item';
+
+/**
+ * Server side of the batch sync protocol. Used by the `/batch` route and by
+ * the loopback transport, so both apply client batches the same way. With
+ * an owner, created tasks belong to that user and items touching another
+ * user's tasks are rejected.
+ */
+export class BatchService {
+  private clock: ClockService;
+  private idempotency: IdempotencyService;
+
+  constructor(
+    private db: Database,
+    private taskService: TaskService,
+  ) {
+    this.clock = ClockService.for(db);
+    this.idempotency = new IdempotencyService(db);
+  }
+
+  async processBatch(
+    items: (SyncQueueItem | InvalidBatchItem)[],
+    checksum: string,
+    ownerId?: string,
+  ): Promise<BatchSyncResponse> {
+    if (!Array.isArray(items) || calculateBatchChecksum(items) !== checksum) {
+      throw new ChecksumMismatchError();
+    }
+
+    // Creates earlier in the same batch are not known to the client yet,
+    // so later items for that task arrive without a server_id
+    const serverIds = new Map<string, string>();
+    // Later operations of a task whose earlier one failed are not applied,
+    // as that would reorder them (CHALLENGE_CONSTRAINTS.SYNC_ORDER)
+    const failed = new Set<string>();
+    const processed: ProcessedItem[] = [];
+
+    for (const item of items) {
+      if ('error' in item) {
+        failed.add(item.task_id);
+        processed.push({
+          client_id: item.task_id,
+          server_id: serverIds.get(item.task_id) ?? '',
+          status: 'error',
+          error: item.error,
+          status_code: 422,
+        });
+        continue;
+      }
+      try {
+        if (failed.has(item.task_id)) {
+          throw new Error('Skipped after an earlier operation failed');
+        }
+        const result = await this.db.transaction(() =>
+          this.processOnce(item, serverIds, ownerId),
+        );
+        serverIds.set(item.task_id, result.server_id);
+        processed.push(result);
+      } catch (err) {
+        failed.add(item.task_id);
+        processed.push({
+          client_id: item.task_id,
+          server_id: item.data?.server_id ?? serverIds.get(item.task_id) ?? '',
+          status: 'error',
+          error: (err as Error).message,
+          // Left out for errors a retry may get past
+          ...(err instanceof RejectedItemError && {
+            status_code: err.statusCode,
+          }),
+        });
+      }
+    }
+
+    return { processed_items: processed };
+  }
+
+  /**
+   * Processes an item, or answers with the stored result when an item
+   * with the same idempotency key and content was processed before. The
+   * key is claimed in the item's transaction, so an item that fails
+   * leaves nothing stored.
+   */
+  private async processOnce(
+    item: SyncQueueItem,
+    serverIds: Map<string, string>,
+    ownerId: string | undefined,
+  ): Promise<ProcessedItem> {
+    const key = item.idempotency_key;
+    if (!key) {
+      return this.processItem(item, serverIds, ownerId);
+    }
+
+    const claim = await this.idempotency.claim(ITEM_SCOPE, ownerId, key, {
+      task_id: item.task_id,
+      operation: item.operation,
+      data: item.data,
+    });
+    if (claim.state === 'replay') {
+      return claim.response.body as ProcessedItem;
+    }
+    if (claim.state !== 'new') {
+      throw new RejectedItemError(
+        'Idempotency key was already used for a different item',
+        422,
+      );
+    }
+    const result = await this.processItem(item, serverIds, ownerId);
+    await this.idempotency.complete(ITEM_SCOPE, ownerId, key, {
+      statusCode: 200,
+      body: result,
+    });
+    return result;
+  }
+
+  private async processItem(
+    item: SyncQueueItem,
+    serverIds: Map<string, string>,
+    ownerId: string | undefined,
+  ): Promise<ProcessedItem> {
+    const incoming = item.data ?? {};
+    // Timestamps from a client clock far ahead of ours are replaced, so a
+    // skewed device cannot make its writes win indefinitely
+    const hlc = incoming.hlc ? await this.clock.clamp(incoming.hlc) : null;
+    const updatedAt = this.clock.clampTime(incoming.updated_at);
+
+    // A create sent again after its response was lost is applied to the
+    // task it made the first time, like an update, so edits folded into
+    // it since are kept
+    const known =
+      item.operation === 'create'
+        ? await this.findByClientId(item.task_id, ownerId)
+        : null;
+
+    if (item.operation === 'create' && !known) {
+      const now = new Date();
+      const parent = await this.resolveParent(
+        incoming.parent_id,
+        serverIds,
+        ownerId,
+      );
+      const task: Task = {
+        id: await this.newServerId(item.task_id),
+        title: incoming.title ?? '',
+        description: incoming.description ?? '',
+        completed: !!incoming.completed,
+        is_deleted: !!incoming.is_deleted,
+        due_at: incoming.due_at ?? null,
+        priority: incoming.priority ?? 'normal',
+        tags: incoming.tags ?? [],
+        parent_id: parent?.id ?? null,
+        owner_id: ownerId ?? incoming.owner_id ?? null,
+        hlc,
+        created_at: incoming.created_at ?? now,
+        updated_at: updatedAt,
+      };
+      if (!task.title) {
+        throw new RejectedItemError('Title is required', 422);
+      }
+      await this.db.run(
+        `INSERT INTO task_client_ids (owner_key, client_id, server_id)
+         VALUES (?, ?, ?)`,
+        [ownerId ?? '', item.task_id, task.id],
+      );
+
+      // A subtask added on one device while another deleted its parent:
+      // the delete wins
+      if (parent?.is_deleted) {
+        await this.taskService.applyRemoteTask(
+          { ...task, is_deleted: true },
+          'conflict-resolution',
+        );
+        return {
+          client_id: item.task_id,
+          server_id: task.id,
+          status: 'conflict',
+          resolved_data: await this.load(task.id),
+        };
+      }
+
+      await this.taskService.applyRemoteTask(task);
+      return this.success(item, await this.load(task.id));
+    }
+
+    if (!known && item.operation !== 'update' && item.operation !== 'delete') {
+      throw new RejectedItemError(`Unknown operation: ${item.operation}`, 422);
+    }
+
+    const serverId = incoming.server_id ?? serverIds.get(item.task_id);
+    const existing =
+      known ??
+      (serverId
+        ? await this.taskService.getTask(serverId, true)
+        : await this.findByClientId(item.task_id, ownerId));
+    if (!existing) {
+      throw new RejectedItemError('Task not found', 404);
+    }
+    this.checkOwner(existing, ownerId);
+
+    // A change made on the version the server holds is never stale, and
+    // one made on an earlier version conflicts with what came in between.
+    // Clients that send no version are ordered by HLC instead.
+    const stale =
+      incoming.version != null
+        ? incoming.version !== existing.version
+        : this.isStale(item, { hlc, updated_at: updatedAt }, existing);
+    if (stale) {
+      return {
+        client_id: item.task_id,
+        server_id: existing.id,
+        status: 'conflict',
+        resolved_data: existing,
+      };
+    }
+
+    const updated: Task =
+      item.operation === 'delete'
+        ? { ...existing, is_deleted: true }
+        : {
+            ...existing,
+            title: incoming.title ?? existing.title,
+            description: incoming.description ?? existing.description,
+            completed: incoming.completed ?? existing.completed,
+            // null clears the due date, so only a missing value keeps it
+            due_at:
+              incoming.due_at !== undefined ? incoming.due_at : existing.due_at,
+            priority: incoming.priority ?? existing.priority,
+            tags: incoming.tags ?? existing.tags,
+            // A later update of a deleted task brings it back, as a restore
+            // from the trash does
+            is_deleted: incoming.is_deleted === false ? false : existing.is_deleted,
+            parent_id:
+              incoming.parent_id !== undefined
+                ? ((
+                    await this.resolveParent(
+                      incoming.parent_id,
+                      serverIds,
+                      ownerId,
+                    )
+                  )?.id ?? null)
+                : existing.parent_id,
+          };
+    updated.hlc = hlc;
+    updated.updated_at = updatedAt;
+
+    await this.taskService.applyRemoteTask(updated);
+    return this.success(item, await this.load(existing.id));
+  }
+
+  /**
+   * An incoming change loses when the server copy is a later version (see
+   * compareVersions): a newer HLC, or the same time from a higher priority
+   * operation (a delete beats an update).
+   */
+  private isStale(
+    item: SyncQueueItem,
+    incoming: Pick<Task, 'hlc' | 'updated_at'>,
+    existing: Task,
+  ): boolean {
+    return (
+      compareVersions(
+        { ...incoming, operation: item.operation },
+        { ...existing, operation: existing.is_deleted ? 'delete' : 'update' },
+      ) < 0
+    );
+  }
+
+  /**
+   * Finds the parent a client refers to, by server id or, when the client
+   * has not yet heard back about the parent's create (earlier in this
+   * batch, or in one whose response was lost), by its client id.
+   */
+  private async resolveParent(
+    parentId: string | null | undefined,
+    serverIds: Map<string, string>,
+    ownerId: string | undefined,
+  ): Promise<Task | null> {
+    if (!parentId) {
+      return null;
+    }
+    const parent =
+      (await this.taskService.getTask(
+        serverIds.get(parentId) ?? parentId,
+        true,
+      )) ?? (await this.findByClientId(parentId, ownerId));
+    if (!parent) {
+      throw new RejectedItemError('Parent task not found', 404);
+    }
+    this.checkOwner(parent, ownerId);
+    return parent;
+  }
+
+  /** The task a client's create became on this server, if it was applied */
+  private async findByClientId(
+    clientId: string,
+    ownerId: string | undefined,
+  ): Promise<Task | null> {
+    const row = await this.db.get(
+      `SELECT server_id FROM task_client_ids
+       WHERE owner_key = ? AND client_id = ?`,
+      [ownerId ?? '', clientId],
+    );
+    return row ? this.taskService.getTask(row.server_id, true) : null;
+  }
+
+  // Tasks keep the client's id, unless another task already has it
+  private async newServerId(clientId: string): Promise<string> {
+    const taken = await this.db.get('SELECT 1 FROM tasks WHERE id = ?', [
+      clientId,
+    ]);
+    return taken ? uuidv4() : clientId;
+  }
+
+  private checkOwner(task: Task, ownerId: string | undefined): void {
+    if (ownerId !== undefined && task.owner_id !== ownerId) {
+      throw new RejectedItemError('Task belongs to another user', 404);
+    }
+  }
+
+  private async load(id: string): Promise<Task> {
+    const task = await this.taskService.getTask(id, true);
+    if (!task) {
+      throw new Error('Task not found');
+    }
+    return task;
+  }
+
+  private success(item: SyncQueueItem, task: Task): ProcessedItem {
+    return {
+      client_id: item.task_id,
+      server_id: task.id,
+      status: 'success',
+      resolved_data: task,
+    };
+  }
+}
@@ -0,0 +1,132 @@
+import {
+  BulkItemResult,
+  BulkMode,
+  BulkOperation,
+  BulkResult,
+  Task,
+  TaskQuery,
+} from '../types';
+import { Database } from '../db/database';
+import { InvalidParentError, TaskService } from './taskService';
+
+export class BulkLimitError extends Error {
+  statusCode = 400;
+
+  constructor(limit: number) {
+    super(`A bulk request can change at most ${limit} tasks`);
+    this.name = 'BulkLimitError';
+  }
+}
+
+// Thrown inside the transaction to roll back an atomic request
+class AtomicRollback extends Error {}
+
+/**
+ * Applies many task changes in one transaction. Each operation goes
+ * through TaskService like a single request would, so sync entries are
+ * queued in the order the operations are given.
+ */
+export class BulkService {
+  constructor(
+    private db: Database,
+    private taskService: TaskService,
+  ) {}
+
+  async apply(operations: BulkOperation[], mode: BulkMode): Promise<BulkResult> {
+    const results: BulkItemResult[] = operations.map((op, index) => ({
+      index,
+      operation: op.operation,
+      id: 'id' in op ? op.id : undefined,
+      status: 'skipped',
+    }));
+
+    try {
+      await this.db.transaction(async () => {
+        for (const [index, op] of operations.entries()) {
+          const result = await this.applyOne(op);
+          results[index] = { ...results[index], ...result };
+          if (result.status === 'error' && mode === 'atomic') {
+            throw new AtomicRollback();
+          }
+        }
+      });
+    } catch (error) {
+      if (!(error instanceof AtomicRollback)) {
+        throw error;
+      }
+      for (const result of results) {
+        if (result.status === 'success') {
+          result.status = 'skipped';
+          delete result.task;
+        }
+      }
+    }
+
+    return {
+      mode,
+      succeeded: results.filter((r) => r.status === 'success').length,
+      failed: results.filter((r) => r.status === 'error').length,
+      results,
+    };
+  }
+
+  /**
+   * Updates every task matching the query with the same patch. Matches
+   * are looked up in the same transaction the patch is applied in.
+   */
+  async applyToMatching(
+    query: TaskQuery,
+    patch: Partial<Task>,
+    mode: BulkMode,
+    limit: number,
+  ): Promise<BulkResult> {
+    return this.db.transaction(async () => {
+      const ids: string[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await this.taskService.queryTasks({
+          ...query,
+          limit: limit + 1,
+          cursor,
+        });
+        ids.push(...page.items.map((task) => task.id));
+        cursor = page.next_cursor ?? undefined;
+      } while (cursor && ids.length <= limit);
+
+      if (ids.length > limit) {
+        throw new BulkLimitError(limit);
+      }
+      return this.apply(
+        ids.map((id) => ({ operation: 'update', id, data: patch })),
+        mode,
+      );
+    });
+  }
+
+  // Each operation gets its own savepoint, so a failure undoes only its
+  // own writes
+  private async applyOne(op: BulkOperation): Promise<Partial<BulkItemResult>> {
+    try {
+      const task = await this.db.transaction(async () => {
+        switch (op.operation) {
+          case 'create':
+            return this.taskService.createTask(op.data);
+          case 'update':
+            return this.taskService.updateTask(op.id, op.data);
+          case 'delete':
+            return (await this.taskService.deleteTask(op.id))
+              ? this.taskService.getTask(op.id, true)
+              : null;
+        }
+      });
+      return task
+        ? { status: 'success', id: task.id, task }
+        : { status: 'error', error: 'Task not found' };
+    } catch (error) {
+      if (error instanceof InvalidParentError) {
+        return { status: 'error', error: error.message };
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,128 @@
+import { Database } from '../db/database';
+import { Hlc, formatHlc, mergeHlc, nextHlc, parseHlc } from '../utils/hlc';
+
+const DEVICE_ID_KEY = 'device_id';
+const HLC_KEY = 'hlc';
+
+/**
+ * Hybrid logical clock for one database. Every local write gets a
+ * timestamp later than anything this device has issued or seen, however
+ * its wall clock moves. The last timestamp is stored in sync_state with
+ * the write, so the clock never goes back across restarts.
+ */
+export class ClockService {
+  private static instances = new WeakMap<Database, ClockService>();
+
+  private current: Hlc | null = null;
+  private loading: Promise<Hlc> | null = null;
+  private maxDriftMs: number;
+
+  constructor(
+    private db: Database,
+    private now: () => number = () => Date.now(),
+  ) {
+    this.maxDriftMs = parseInt(
+      process.env.SYNC_MAX_CLOCK_DRIFT_MS || '300000',
+      10,
+    );
+  }
+
+  static for(db: Database): ClockService {
+    let clock = ClockService.instances.get(db);
+    if (!clock) {
+      clock = new ClockService(db);
+      ClockService.instances.set(db, clock);
+    }
+    return clock;
+  }
+
+  /** Persistent id of this device, created with the database */
+  async deviceId(): Promise<string> {
+    return (await this.load()).deviceId;
+  }
+
+  /** Timestamp for a local write */
+  async tick(): Promise<string> {
+    await this.load();
+    return this.advance(nextHlc(this.current!, this.now()));
+  }
+
+  /**
+   * Moves the clock past a timestamp from another device. Timestamps too
+   * far ahead of this device's wall clock are not followed, so one skewed
+   * device cannot drag every other clock into the future.
+   */
+  async observe(remote: string | null | undefined): Promise<void> {
+    const parsed = remote ? parseHlc(remote) : null;
+    if (!parsed || this.isTooFarAhead(parsed.wallTime)) {
+      return;
+    }
+    await this.load();
+    await this.advance(mergeHlc(this.current!, parsed, this.now()));
+  }
+
+  /**
+   * The timestamp to store for a write received from another device: its
+   * own, or a fresh local one when it is missing, malformed or too far in
+   * the future (SYNC_MAX_CLOCK_DRIFT_MS).
+   */
+  async clamp(remote: string | null | undefined): Promise<string> {
+    const parsed = remote ? parseHlc(remote) : null;
+    if (!parsed || this.isTooFarAhead(parsed.wallTime)) {
+      return this.tick();
+    }
+    await this.observe(remote);
+    return remote!;
+  }
+
+  /** Wall-clock times too far in the future are replaced with now */
+  clampTime(time: Date | string | undefined): Date {
+    const date = time ? new Date(time) : new Date(this.now());
+    return Number.isNaN(date.getTime()) || this.isTooFarAhead(date.getTime())
+      ? new Date(this.now())
+      : date;
+  }
+
+  private isTooFarAhead(wallTime: number): boolean {
+    return wallTime > this.now() + this.maxDriftMs;
+  }
+
+  // Sets the new state before anything is awaited, so concurrent callers
+  // always build on the latest timestamp
+  private async advance(next: Hlc): Promise<string> {
+    this.current = next;
+    const value = formatHlc(next);
+    await this.db.run(
+      `INSERT INTO sync_state (key, value) VALUES (?, ?)
+       ON CONFLICT(key) DO UPDATE SET value = excluded.value`,
+      [HLC_KEY, value],
+    );
+    return value;
+  }
+
+  private async load(): Promise<Hlc> {
+    if (!this.current) {
+      this.loading ??= this.restore();
+      const restored = await this.loading;
+      this.current ??= restored;
+    }
+    return this.current;
+  }
+
+  private async restore(): Promise<Hlc> {
+    const device = await this.db.get(
+      'SELECT value FROM sync_state WHERE key = ?',
+      [DEVICE_ID_KEY],
+    );
+    const saved = await this.db.get(
+      'SELECT value FROM sync_state WHERE key = ?',
+      [HLC_KEY],
+    );
+    const last = saved ? parseHlc(saved.value) : null;
+    return {
+      wallTime: last?.wallTime ?? 0,
+      counter: last?.counter ?? 0,
+      deviceId: device.value,
+    };
+  }
+}
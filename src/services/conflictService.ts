@@ -0,0 +1,189 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ConflictResolution,
+  SyncConflict,
+  SyncConflictPage,
+  Task,
+} from '../types';
+import { Database } from '../db/database';
+import { TaskService } from './taskService';
+
+/**
+ * Sync conflicts logged on this database. Scoped to an owner, it only sees
+ * conflicts on that user's tasks and resolves them as that user.
+ */
+export class ConflictService {
+  constructor(
+    private db: Database,
+    private taskService: TaskService,
+    private ownerId?: string,
+  ) {}
+
+  /** The same service, scoped to one user's conflicts */
+  forOwner(ownerId: string): ConflictService {
+    return new ConflictService(
+      this.db,
+      this.taskService.forOwner(ownerId),
+      ownerId,
+    );
+  }
+
+  async record(
+    localTask: Task,
+    remoteTask: Task,
+    serverId: string,
+    resolution: ConflictResolution,
+    outcome: SyncConflict['outcome'],
+  ): Promise<SyncConflict> {
+    const conflict: SyncConflict = {
+      id: uuidv4(),
+      task_id: localTask.id,
+      owner_id: localTask.owner_id ?? null,
+      server_id: serverId,
+      local_version: localTask,
+      remote_version: remoteTask,
+      resolved_version: resolution.resolved_task,
+      strategy: resolution.strategy,
+      outcome,
+      created_at: new Date(),
+    };
+
+    await this.db.run(
+      `INSERT INTO sync_conflicts (
+        id, task_id, owner_id, server_id, local_version, remote_version,
+        resolved_version, strategy, outcome, created_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        conflict.id,
+        conflict.task_id,
+        conflict.owner_id,
+        serverId,
+        JSON.stringify(localTask),
+        JSON.stringify(remoteTask),
+        JSON.stringify(resolution.resolved_task),
+        conflict.strategy,
+        outcome,
+        conflict.created_at.toISOString(),
+      ],
+    );
+
+    return conflict;
+  }
+
+  async list(
+    taskId?: string,
+    limit: number = 50,
+    offset: number = 0,
+  ): Promise<SyncConflictPage> {
+    const [owned, ownerParams] = this.ownerScope();
+    const where = `WHERE ${owned}` + (taskId ? ' AND task_id = ?' : '');
+    const params = taskId ? [...ownerParams, taskId] : ownerParams;
+
+    const rows = await this.db.all(
+      `SELECT * FROM sync_conflicts ${where}
+       ORDER BY created_at DESC, id ASC
+       LIMIT ? OFFSET ?`,
+      [...params, limit, offset],
+    );
+    const count = await this.db.get(
+      `SELECT COUNT(*) as total FROM sync_conflicts ${where}`,
+      params,
+    );
+
+    return {
+      items: rows.map((row) => this.toConflict(row)),
+      total: count.total,
+      limit,
+      offset,
+    };
+  }
+
+  async get(id: string): Promise<SyncConflict | null> {
+    const [owned, ownerParams] = this.ownerScope();
+    const row = await this.db.get(
+      `SELECT * FROM sync_conflicts WHERE id = ? AND ${owned}`,
+      [id, ...ownerParams],
+    );
+    return row ? this.toConflict(row) : null;
+  }
+
+  /**
+   * Overrides an automatic resolution. The chosen version becomes a normal
+   * local edit, so it reaches the server through sync_queue like any other.
+   */
+  async resolve(
+    id: string,
+    choice: 'local' | 'remote' | Partial<Task>,
+  ): Promise<{ conflict: SyncConflict; task: Task | null } | null> {
+    const conflict = await this.get(id);
+    if (!conflict) {
+      return null;
+    }
+
+    let version: Partial<Task>;
+    if (choice === 'local') {
+      version = conflict.local_version;
+    } else if (choice === 'remote') {
+      version = conflict.remote_version;
+    } else {
+      const current = await this.taskService.getTask(conflict.task_id, true);
+      const fields = Object.entries(choice).filter(([, v]) => v !== undefined);
+      version = {
+        ...(current ?? conflict.resolved_version),
+        ...Object.fromEntries(fields),
+      };
+    }
+
+    const manualResolution = typeof choice === 'string' ? choice : 'custom';
+    const resolvedAt = new Date();
+    const task = await this.db.transaction(async () => {
+      const applied = await this.taskService.applyResolvedVersion(
+        conflict.task_id,
+        version,
+      );
+      await this.db.run(
+        `UPDATE sync_conflicts
+         SET manual_resolution = ?, manually_resolved_at = ?
+         WHERE id = ?`,
+        [manualResolution, resolvedAt.toISOString(), id],
+      );
+      return applied;
+    });
+
+    return {
+      conflict: {
+        ...conflict,
+        manual_resolution: manualResolution,
+        manually_resolved_at: resolvedAt,
+      },
+      task,
+    };
+  }
+
+  // SQL condition and parameters limiting a query to the owner's conflicts
+  private ownerScope(): [string, string[]] {
+    return this.ownerId === undefined
+      ? ['1 = 1', []]
+      : ['owner_id = ?', [this.ownerId]];
+  }
+
+  private toConflict(row: any): SyncConflict {
+    return {
+      id: row.id,
+      task_id: row.task_id,
+      owner_id: row.owner_id ?? null,
+      server_id: row.server_id ?? undefined,
+      local_version: JSON.parse(row.local_version),
+      remote_version: JSON.parse(row.remote_version),
+      resolved_version: JSON.parse(row.resolved_version),
+      strategy: row.strategy,
+      outcome: row.outcome,
+      created_at: new Date(row.created_at),
+      manual_resolution: row.manual_resolution ?? undefined,
+      manually_resolved_at: row.manually_resolved_at
+        ? new Date(row.manually_resolved_at)
+        : undefined,
+    };
+  }
+}
@@ -0,0 +1,206 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  DeadLetterFilter,
+  DeadLetterItem,
+  DeadLetterPage,
+  Task,
+} from '../types';
+import { Database } from '../db/database';
+import { ClockService } from './clockService';
+
+/**
+ * Sync operations given up on. Scoped to an owner, it only sees the items
+ * of that user's tasks.
+ */
+export class DeadLetterService {
+  constructor(
+    private db: Database,
+    private ownerId?: string,
+  ) {}
+
+  /** The same service, scoped to one user's items */
+  forOwner(ownerId: string): DeadLetterService {
+    return new DeadLetterService(this.db, ownerId);
+  }
+
+  async list(
+    filter: DeadLetterFilter = {},
+    limit: number = 50,
+    offset: number = 0,
+  ): Promise<DeadLetterPage> {
+    const { where, params } = this.buildWhere(filter);
+
+    const rows = await this.db.all(
+      `SELECT * FROM dead_letter_queue ${where}
+       ORDER BY failed_at DESC, id ASC
+       LIMIT ? OFFSET ?`,
+      [...params, limit, offset],
+    );
+    const count = await this.db.get(
+      `SELECT COUNT(*) as total FROM dead_letter_queue ${where}`,
+      params,
+    );
+
+    return {
+      items: rows.map((row) => this.toItem(row)),
+      total: count.total,
+      limit,
+      offset,
+    };
+  }
+
+  async get(id: string): Promise<DeadLetterItem | null> {
+    const [owned, ownerParams] = this.ownerScope();
+    const row = await this.db.get(
+      `SELECT * FROM dead_letter_queue WHERE id = ? AND ${owned}`,
+      [id, ...ownerParams],
+    );
+    return row ? this.toItem(row) : null;
+  }
+
+  /**
+   * Moves a dead letter item back into sync_queue with its attempts reset.
+   * When `data` is given it is merged over the stored payload first, so a
+   * payload the server rejected can be corrected before the next attempt.
+   */
+  async requeue(
+    id: string,
+    data?: Partial<Task>,
+  ): Promise<DeadLetterItem | null> {
+    const item = await this.get(id);
+    if (!item) {
+      return null;
+    }
+
+    const payload = data ? { ...item.data, ...data } : item.data;
+
+    await this.db.transaction(async () => {
+      await this.db.run(
+        `INSERT INTO sync_queue (id, task_id, operation, data, created_at, hlc, retry_count)
+         VALUES (?, ?, ?, ?, ?, ?, 0)`,
+        [
+          uuidv4(),
+          item.task_id,
+          item.operation,
+          JSON.stringify(payload),
+          new Date().toISOString(),
+          payload.hlc ?? (await ClockService.for(this.db).tick()),
+        ],
+      );
+      await this.db.run(
+        `UPDATE tasks SET sync_status = 'pending' WHERE id = ?`,
+        [item.task_id],
+      );
+      await this.remove(item, 'requeued');
+    });
+
+    return { ...item, data: payload };
+  }
+
+  async requeueMatching(filter: DeadLetterFilter = {}): Promise<number> {
+    const items = await this.findAll(filter);
+    for (const item of items) {
+      await this.requeue(item.id);
+    }
+    return items.length;
+  }
+
+  async discard(id: string, reason?: string): Promise<boolean> {
+    const item = await this.get(id);
+    if (!item) {
+      return false;
+    }
+
+    await this.remove(item, 'discarded', reason);
+    return true;
+  }
+
+  async discardMatching(
+    filter: DeadLetterFilter = {},
+    reason?: string,
+  ): Promise<number> {
+    const items = await this.findAll(filter);
+    for (const item of items) {
+      await this.remove(item, 'discarded', reason);
+    }
+    return items.length;
+  }
+
+  private async findAll(filter: DeadLetterFilter): Promise<DeadLetterItem[]> {
+    const { where, params } = this.buildWhere(filter);
+    const rows = await this.db.all(
+      `SELECT * FROM dead_letter_queue ${where} ORDER BY failed_at ASC, id ASC`,
+      params,
+    );
+    return rows.map((row) => this.toItem(row));
+  }
+
+  private async remove(
+    item: DeadLetterItem,
+    action: 'requeued' | 'discarded',
+    reason?: string,
+  ): Promise<void> {
+    await this.db.transaction(async () => {
+      await this.db.run(
+        `INSERT INTO dead_letter_audit (
+          dead_letter_id, task_id, operation, data, error_message, action, reason
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [
+          item.id,
+          item.task_id,
+          item.operation,
+          JSON.stringify(item.data),
+          item.error_message,
+          action,
+          reason ?? null,
+        ],
+      );
+      await this.db.run('DELETE FROM dead_letter_queue WHERE id = ?', [
+        item.id,
+      ]);
+    });
+  }
+
+  private buildWhere(filter: DeadLetterFilter): {
+    where: string;
+    params: any[];
+  } {
+    const [owned, ownerParams] = this.ownerScope();
+    const clauses: string[] = [owned];
+    const params: any[] = [...ownerParams];
+
+    if (filter.task_id) {
+      clauses.push('task_id = ?');
+      params.push(filter.task_id);
+    }
+    if (filter.operation) {
+      clauses.push('operation = ?');
+      params.push(filter.operation);
+    }
+
+    return {
+      where: `WHERE ${clauses.join(' AND ')}`,
+      params,
+    };
+  }
+
+  // SQL condition and parameters limiting a query to the owner's items
+  private ownerScope(): [string, string[]] {
+    return this.ownerId === undefined
+      ? ['1 = 1', []]
+      : ['owner_id = ?', [this.ownerId]];
+  }
+
+  private toItem(row: any): DeadLetterItem {
+    return {
+      id: String(row.id),
+      task_id: row.task_id,
+      owner_id: row.owner_id ?? null,
+      operation: row.operation,
+      data: row.data ? JSON.parse(row.data) : {},
+      error_message: row.error_message,
+      failed_at: new Date(row.failed_at),
+    };
+  }
+}
@@ -0,0 +1,73 @@
+import { EventEmitter } from 'events';
+import { ServerEvent, ServerEventPayloads, ServerEventType } from '../types';
+import { Database } from '../db/database';
+
+const REPLAY_BUFFER_SIZE = 1000;
+
+type Listener = (event: ServerEvent) => void;
+
+/**
+ * In-process feed of task and sync events for one database. Recent events
+ * are kept so a client reconnecting with Last-Event-ID can replay what it
+ * missed. Ids start from the boot time, so ids handed out before a restart
+ * are always older than anything still buffered.
+ */
+export class EventService {
+  private static instances = new WeakMap<Database, EventService>();
+
+  private emitter = new EventEmitter();
+  private buffer: ServerEvent[] = [];
+  private nextId = Date.now();
+
+  constructor() {
+    // One listener per open stream
+    this.emitter.setMaxListeners(0);
+  }
+
+  static for(db: Database): EventService {
+    let events = EventService.instances.get(db);
+    if (!events) {
+      events = new EventService();
+      EventService.instances.set(db, events);
+    }
+    return events;
+  }
+
+  publish<K extends ServerEventType>(
+    type: K,
+    data: ServerEventPayloads[K],
+  ): ServerEvent<K> {
+    const event: ServerEvent<K> = {
+      id: this.nextId++,
+      type,
+      data,
+      created_at: new Date(),
+    };
+
+    this.buffer.push(event);
+    if (this.buffer.length > REPLAY_BUFFER_SIZE) {
+      this.buffer.shift();
+    }
+    this.emitter.emit('event', event);
+    return event;
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.emitter.on('event', listener);
+    return () => {
+      this.emitter.off('event', listener);
+    };
+  }
+
+  /**
+   * Buffered events after lastId, or null when some of them have already
+   * been dropped and the replay would be incomplete.
+   */
+  since(lastId: number): ServerEvent[] | null {
+    const oldest = this.buffer[0]?.id ?? this.nextId;
+    if (lastId < oldest - 1) {
+      return null;
+    }
+    return this.buffer.filter((event) => event.id > lastId);
+  }
+}
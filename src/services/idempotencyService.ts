@@ -0,0 +1,134 @@
+import crypto from 'crypto';
+import { Database } from '../db/database';
+
+export interface IdempotencyServiceOptions {
+  /** How long a key and its response are kept */
+  ttlMs?: number;
+  now?: () => number;
+}
+
+export interface StoredResponse {
+  statusCode: number;
+  body: unknown;
+}
+
+/**
+ * Outcome of claiming a key: 'new' for a first request, which must be
+ * completed or released; 'replay' with what the first request got;
+ * 'in-progress' while that request is still running; 'mismatch' when the
+ * key was used for a different request.
+ */
+export type IdempotencyClaim =
+  | { state: 'new' }
+  | { state: 'replay'; response: StoredResponse }
+  | { state: 'in-progress' }
+  | { state: 'mismatch' };
+
+/**
+ * Stores responses under client-chosen idempotency keys, so a request
+ * retried after a timeout gets the original answer instead of being
+ * applied twice. Keys belong to one owner and one scope (the endpoint or
+ * kind of item), and expire after the TTL.
+ */
+export class IdempotencyService {
+  private ttlMs: number;
+  private now: () => number;
+
+  constructor(
+    private db: Database,
+    options: IdempotencyServiceOptions = {},
+  ) {
+    this.ttlMs =
+      options.ttlMs ??
+      parseInt(process.env.IDEMPOTENCY_TTL_MS || '86400000', 10);
+    this.now = options.now ?? (() => Date.now());
+  }
+
+  /**
+   * Claims a key for a request, unless an earlier request with the same
+   * key has it. The request is compared by a hash of its content.
+   */
+  async claim(
+    scope: string,
+    ownerId: string | null | undefined,
+    key: string,
+    request: unknown,
+  ): Promise<IdempotencyClaim> {
+    const requestHash = crypto
+      .createHash('sha256')
+      .update(JSON.stringify(request ?? null))
+      .digest('hex');
+
+    return this.db.transaction(async () => {
+      await this.db.run('DELETE FROM idempotency_keys WHERE created_at < ?', [
+        new Date(this.now() - this.ttlMs).toISOString(),
+      ]);
+      const row = await this.db.get(
+        `SELECT request_hash, status_code, response FROM idempotency_keys
+         WHERE owner_key = ? AND scope = ? AND key = ?`,
+        [ownerId ?? '', scope, key],
+      );
+
+      if (!row) {
+        await this.db.run(
+          `INSERT INTO idempotency_keys (owner_key, scope, key, request_hash, created_at)
+           VALUES (?, ?, ?, ?, ?)`,
+          [
+            ownerId ?? '',
+            scope,
+            key,
+            requestHash,
+            new Date(this.now()).toISOString(),
+          ],
+        );
+        return { state: 'new' };
+      }
+      if (row.request_hash !== requestHash) {
+        return { state: 'mismatch' };
+      }
+      if (row.status_code === null) {
+        return { state: 'in-progress' };
+      }
+      return {
+        state: 'replay',
+        response: {
+          statusCode: row.status_code,
+          body: JSON.parse(row.response),
+        },
+      };
+    });
+  }
+
+  /** Stores the response to a claimed key, for replays */
+  async complete(
+    scope: string,
+    ownerId: string | null | undefined,
+    key: string,
+    response: StoredResponse,
+  ): Promise<void> {
+    await this.db.run(
+      `UPDATE idempotency_keys SET status_code = ?, response = ?
+       WHERE owner_key = ? AND scope = ? AND key = ?`,
+      [
+        response.statusCode,
+        JSON.stringify(response.body ?? null),
+        ownerId ?? '',
+        scope,
+        key,
+      ],
+    );
+  }
+
+  /** Gives up a claim whose request failed, so a retry is applied afresh */
+  async release(
+    scope: string,
+    ownerId: string | null | undefined,
+    key: string,
+  ): Promise<void> {
+    await this.db.run(
+      `DELETE FROM idempotency_keys
+       WHERE owner_key = ? AND scope = ? AND key = ? AND status_code IS NULL`,
+      [ownerId ?? '', scope, key],
+    );
+  }
+}
@@ -0,0 +1,168 @@
+import { createHash } from 'crypto';
+import { ImportItemResult, ImportRecord, ImportReport, Task } from '../types';
+import { Database } from '../db/database';
+import { InvalidParentError, TaskService } from './taskService';
+import { diffSnapshots, snapshotOf } from './revisionService';
+
+/** A record that failed validation, reported with its position */
+export type InvalidImportRecord = { error: string };
+
+// Tasks with the same title, description and due date count as the same
+// task when an import has no id to match them by
+function contentHash(task: Partial<Task>): string {
+  return createHash('sha256')
+    .update(
+      JSON.stringify([
+        task.title?.trim() ?? '',
+        task.description?.trim() ?? '',
+        task.due_at ? new Date(task.due_at).toISOString() : null,
+      ]),
+    )
+    .digest('hex');
+}
+
+/**
+ * Brings tasks from an export file into the store. Every task is written
+ * through TaskService, so imports are queued for sync like local edits.
+ * Tasks are matched by id first, then by content, so importing the same
+ * file twice changes nothing.
+ */
+export class ImportService {
+  constructor(
+    private db: Database,
+    private taskService: TaskService,
+  ) {}
+
+  async importTasks(
+    records: (ImportRecord | InvalidImportRecord)[],
+  ): Promise<ImportReport> {
+    const results: ImportItemResult[] = [];
+
+    await this.db.transaction(async () => {
+      const known = new Map<string, string>();
+      for await (const task of this.taskService.exportTasks()) {
+        known.set(contentHash(task), task.id);
+      }
+      // Ids in the file mapped to the tasks they became, for parent links
+      const imported = new Map<string, string>();
+
+      for (const index of parentsFirst(records)) {
+        const record = records[index];
+        results[index] =
+          'error' in record
+            ? { index, status: 'error', reason: record.error }
+            : { index, ...(await this.importOne(record, known, imported)) };
+      }
+    });
+
+    const count = (status: ImportItemResult['status']) =>
+      results.filter((r) => r.status === status).length;
+    return {
+      created: count('created'),
+      updated: count('updated'),
+      skipped: count('skipped'),
+      failed: count('error'),
+      results,
+    };
+  }
+
+  // Each task gets its own savepoint, so a failure undoes only its writes
+  private async importOne(
+    record: ImportRecord,
+    known: Map<string, string>,
+    imported: Map<string, string>,
+  ): Promise<Omit<ImportItemResult, 'index'>> {
+    if (record.is_deleted) {
+      return { id: record.id, status: 'skipped', reason: 'Task is deleted' };
+    }
+
+    const fields = Object.fromEntries(
+      Object.entries(record.fields).filter(([, value]) => value !== undefined),
+    ) as Partial<Task>;
+    if (fields.parent_id) {
+      fields.parent_id = imported.get(fields.parent_id) ?? fields.parent_id;
+    }
+
+    try {
+      return await this.db.transaction(async () => {
+        const existing = record.id
+          ? await this.taskService.getTask(
+              imported.get(record.id) ?? record.id,
+              true,
+            )
+          : null;
+
+        if (existing) {
+          imported.set(record.id!, existing.id);
+          if (existing.is_deleted) {
+            return {
+              id: existing.id,
+              status: 'skipped',
+              reason: 'Task is in the trash',
+            };
+          }
+          const changes = diffSnapshots(
+            snapshotOf(existing),
+            snapshotOf({ ...existing, ...fields }),
+          );
+          if (Object.keys(changes).length === 0) {
+            return { id: existing.id, status: 'skipped', reason: 'Unchanged' };
+          }
+          await this.taskService.updateTask(existing.id, fields);
+          return { id: existing.id, status: 'updated' };
+        }
+
+        const hash = contentHash(fields);
+        const duplicate = known.get(hash);
+        if (duplicate) {
+          if (record.id) {
+            imported.set(record.id, duplicate);
+          }
+          return { id: duplicate, status: 'skipped', reason: 'Duplicate' };
+        }
+
+        const task = await this.taskService.createTask(fields);
+        known.set(hash, task.id);
+        if (record.id) {
+          imported.set(record.id, task.id);
+        }
+        return { id: task.id, status: 'created' };
+      });
+    } catch (error) {
+      if (error instanceof InvalidParentError) {
+        return { id: record.id, status: 'error', reason: error.message };
+      }
+      throw error;
+    }
+  }
+}
+
+// Import order where a parent in the same file comes before its subtasks
+function parentsFirst(records: (ImportRecord | InvalidImportRecord)[]): number[] {
+  const byId = new Map<string, number>();
+  records.forEach((record, index) => {
+    if ('fields' in record && record.id && !byId.has(record.id)) {
+      byId.set(record.id, index);
+    }
+  });
+
+  const order: number[] = [];
+  const visited = new Set<number>();
+  const visit = (index: number) => {
+    if (visited.has(index)) {
+      return;
+    }
+    visited.add(index);
+    const record = records[index];
+    const parent =
+      'fields' in record && record.fields.parent_id
+        ? byId.get(record.fields.parent_id)
+        : undefined;
+    if (parent !== undefined) {
+      visit(parent);
+    }
+    order.push(index);
+  };
+  records.forEach((_, index) => visit(index));
+  return order;
+}
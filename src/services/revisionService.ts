@@ -0,0 +1,162 @@
+import {
+  RevisionSource,
+  SyncOperation,
+  Task,
+  TaskHistoryEntry,
+  TaskHistoryPage,
+  TaskRevision,
+} from '../types';
+import { Database } from '../db/database';
+import { ClockService } from './clockService';
+import { parseHlc } from '../utils/hlc';
+
+export interface RevisionContext {
+  source: RevisionSource;
+  /** Set when the change brings back an earlier revision */
+  restored_from?: number;
+}
+
+// The fields a revision keeps; sync bookkeeping is left out
+const HISTORY_FIELDS = [
+  'title',
+  'description',
+  'completed',
+  'is_deleted',
+  'due_at',
+  'priority',
+  'tags',
+  'parent_id',
+] as const;
+
+/** The tracked fields of a task */
+export function snapshotOf(task: Partial<Task>): Partial<Task> {
+  return {
+    title: task.title ?? '',
+    description: task.description ?? '',
+    completed: !!task.completed,
+    is_deleted: !!task.is_deleted,
+    due_at: task.due_at ? new Date(task.due_at) : null,
+    priority: task.priority ?? 'normal',
+    tags: task.tags ?? [],
+    parent_id: task.parent_id ?? null,
+  };
+}
+
+/** Fields whose value differs between two snapshots */
+export function diffSnapshots(
+  before: Partial<Task>,
+  after: Partial<Task>,
+): TaskHistoryEntry['changes'] {
+  const changes: TaskHistoryEntry['changes'] = {};
+  for (const field of HISTORY_FIELDS) {
+    const from = before[field] ?? null;
+    const to = after[field] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from, to };
+    }
+  }
+  return changes;
+}
+
+/**
+ * Per-task revision history. Every write to a task, local or synced, is
+ * stored as a numbered snapshot with where it came from.
+ */
+export class RevisionService {
+  private clock: ClockService;
+
+  constructor(private db: Database) {
+    this.clock = ClockService.for(db);
+  }
+
+  /**
+   * Appends a revision. Local changes are credited to this device, remote
+   * ones to the device in their HLC.
+   */
+  async record(
+    task: Task,
+    operation: SyncOperation,
+    context: RevisionContext,
+  ): Promise<void> {
+    const deviceId =
+      context.source === 'remote'
+        ? (task.hlc && parseHlc(task.hlc)?.deviceId) || null
+        : await this.clock.deviceId();
+
+    await this.db.run(
+      `INSERT INTO task_revisions (
+        task_id, revision, operation, source, device_id, hlc,
+        restored_from, snapshot, created_at
+      )
+      SELECT ?, COALESCE(MAX(revision), 0) + 1, ?, ?, ?, ?, ?, ?, ?
+      FROM task_revisions WHERE task_id = ?`,
+      [
+        task.id,
+        operation,
+        context.source,
+        deviceId,
+        task.hlc ?? null,
+        context.restored_from ?? null,
+        JSON.stringify(snapshotOf(task)),
+        new Date().toISOString(),
+        task.id,
+      ],
+    );
+  }
+
+  /**
+   * Revisions of a task, newest first, each with the fields it changed
+   * from the one before it.
+   */
+  async list(
+    taskId: string,
+    limit: number = 50,
+    offset: number = 0,
+  ): Promise<TaskHistoryPage> {
+    // One extra row, so the oldest revision on the page has a predecessor
+    const rows = await this.db.all(
+      `SELECT * FROM task_revisions WHERE task_id = ?
+       ORDER BY revision DESC
+       LIMIT ? OFFSET ?`,
+      [taskId, limit + 1, offset],
+    );
+    const count = await this.db.get(
+      'SELECT COUNT(*) as total FROM task_revisions WHERE task_id = ?',
+      [taskId],
+    );
+
+    const revisions = rows.map((row) => this.toRevision(row));
+    const items = revisions.slice(0, limit).map((revision, i) => {
+      const { snapshot, ...entry } = revision;
+      const previous = revisions[i + 1];
+      return {
+        ...entry,
+        changes: diffSnapshots(previous?.snapshot ?? {}, snapshot),
+      };
+    });
+
+    return { items, total: count.total, limit, offset };
+  }
+
+  async get(taskId: string, revision: number): Promise<TaskRevision | null> {
+    const row = await this.db.get(
+      'SELECT * FROM task_revisions WHERE task_id = ? AND revision = ?',
+      [taskId, revision],
+    );
+    return row ? this.toRevision(row) : null;
+  }
+
+  private toRevision(row: any): TaskRevision {
+    return {
+      task_id: row.task_id,
+      revision: row.revision,
+      operation: row.operation,
+      source: row.source,
+      device_id: row.device_id,
+      hlc: row.hlc,
+      restored_from: row.restored_from,
+      snapshot: JSON.parse(row.snapshot),
+      created_at: new Date(row.created_at),
+    };
+  }
+}
@@ -0,0 +1,52 @@
+import { Database } from '../db/database';
+
+export interface SyncAccount {
+  owner_id: string;
+  /** Bearer token of the account on the sync server */
+  token: string;
+}
+
+/**
+ * The account on the sync server each user's tasks sync as. A user is
+ * only synced once they have linked one; tasks without an owner sync as
+ * the account SYNC_AUTH_TOKEN belongs to.
+ */
+export class SyncAccountService {
+  constructor(private db: Database) {}
+
+  /** Links the user to the account, replacing any linked before */
+  async link(ownerId: string, token: string): Promise<void> {
+    await this.db.run(
+      `INSERT INTO sync_accounts (owner_id, token, linked_at) VALUES (?, ?, ?)
+       ON CONFLICT(owner_id) DO UPDATE SET
+         token = excluded.token,
+         linked_at = excluded.linked_at`,
+      [ownerId, token, new Date().toISOString()],
+    );
+  }
+
+  /** False when the user had no account linked */
+  async unlink(ownerId: string): Promise<boolean> {
+    if (!(await this.get(ownerId))) {
+      return false;
+    }
+    await this.db.run('DELETE FROM sync_accounts WHERE owner_id = ?', [
+      ownerId,
+    ]);
+    return true;
+  }
+
+  async get(ownerId: string): Promise<SyncAccount | null> {
+    const row = await this.db.get(
+      'SELECT owner_id, token FROM sync_accounts WHERE owner_id = ?',
+      [ownerId],
+    );
+    return row ?? null;
+  }
+
+  async list(): Promise<SyncAccount[]> {
+    return this.db.all(
+      'SELECT owner_id, token FROM sync_accounts ORDER BY linked_at, owner_id',
+    );
+  }
+}
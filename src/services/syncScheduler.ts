@@ -0,0 +1,118 @@
+import { SyncResult } from '../types';
+import { SyncService } from './syncService';
+
+export interface SyncSchedulerOptions {
+  /** Time between background syncs while online */
+  intervalMs?: number;
+  /** How often connectivity is checked, so reconnects sync promptly */
+  connectivityCheckMs?: number;
+}
+
+export interface SyncSchedulerState {
+  running: boolean;
+  paused: boolean;
+  online: boolean;
+  syncing: boolean;
+  last_sync_at: Date | null;
+  last_result: SyncResult | null;
+}
+
+/**
+ * Runs sync in the background: every `intervalMs` while the server is
+ * reachable, and straight away when it becomes reachable again.
+ * Pausing stops background syncs only; explicit syncs still run.
+ */
+export class SyncScheduler {
+  private intervalMs: number;
+  private connectivityCheckMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+  private paused = false;
+  private online = false;
+  private lastSyncAt: Date | null = null;
+  private lastResult: SyncResult | null = null;
+
+  constructor(
+    private syncService: SyncService,
+    options: SyncSchedulerOptions = {},
+  ) {
+    this.intervalMs =
+      options.intervalMs ??
+      parseInt(process.env.SYNC_INTERVAL_MS || '60000', 10);
+    this.connectivityCheckMs =
+      options.connectivityCheckMs ??
+      parseInt(process.env.SYNC_CONNECTIVITY_CHECK_MS || '10000', 10);
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      void this.tick();
+    }, this.connectivityCheckMs);
+    // Never keep the process alive just to sync
+    this.timer.unref();
+    void this.tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  pause(): void {
+    this.paused = true;
+  }
+
+  resume(): void {
+    this.paused = false;
+    void this.tick();
+  }
+
+  getState(): SyncSchedulerState {
+    return {
+      running: this.timer !== null,
+      paused: this.paused,
+      online: this.online,
+      syncing: this.syncService.isSyncing(),
+      last_sync_at: this.lastSyncAt,
+      last_result: this.lastResult,
+    };
+  }
+
+  /**
+   * Checks connectivity and syncs when the server just came back or the
+   * interval has passed. Ticks never overlap.
+   */
+  async tick(): Promise<void> {
+    if (this.ticking || this.paused) {
+      return;
+    }
+    this.ticking = true;
+
+    try {
+      const wasOnline = this.online;
+      this.online = await this.syncService.checkConnectivity();
+      if (!this.online) {
+        return;
+      }
+
+      const due =
+        !this.lastSyncAt ||
+        Date.now() - this.lastSyncAt.getTime() >= this.intervalMs;
+      if (wasOnline && !due) {
+        return;
+      }
+
+      this.lastResult = await this.syncService.sync();
+      this.lastSyncAt = new Date();
+    } catch (error) {
+      console.error('Background sync failed:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+}
@@ -1,40 +1,261 @@
-import axios from 'axios';
-import { Task, SyncQueueItem, SyncResult, SyncError, BatchSyncRequest, BatchSyncResponse } from '../types';
+import {
+  Task,
+  SyncQueueItem,
+  SyncResult,
+  SyncError,
+  SyncOptions,
+  SyncOperation,
+  BatchSyncResponse,
+  ConflictResolution,
+  ConflictStrategy,
+} from '../types';
+import { v4 as uuidv4 } from 'uuid';
 import { Database } from '../db/database';
 import { TaskService } from './taskService';
-import crypto from 'crypto';
+import { HttpSyncTransport, SyncTransport } from './syncTransport';
+import { ConflictService } from './conflictService';
+import { SyncAccount, SyncAccountService } from './syncAccountService';
+import { EventService } from './eventService';
+import { ClockService } from './clockService';
+import { calculateBatchChecksum } from '../utils/checksum';
+import { compareVersions } from '../utils/hlc';
+import { batchByTask, coalesceQueue } from '../utils/queueCompaction';
+import {
+  backoffDelay,
+  classifySyncError,
+  retryPolicyFromEnv,
+} from '../utils/retryPolicy';
+
+export const CONFLICT_STRATEGIES: ConflictStrategy[] = [
+  'last-write-wins',
+  'client-wins',
+  'server-wins',
+  'merge',
+];
+
+// Fields compared and merged independently by the 'merge' strategy
+const MERGE_FIELDS = [
+  'title',
+  'description',
+  'completed',
+  'is_deleted',
+  'due_at',
+  'priority',
+  'tags',
+  'parent_id',
+] as const;
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
 
+type MergeField = (typeof MERGE_FIELDS)[number];
 
+// The merge fields of a task, or those of them `include` picks
+function mergeFieldsOf(
+  task: Task,
+  include: (field: MergeField) => boolean = () => true
+): Partial<Pick<Task, MergeField>> {
+  return Object.fromEntries(
+    MERGE_FIELDS.filter(include).map((field) => [field, task[field]])
+  );
+}
 
-export class SyncService {
-  private apiUrl: string;
+// The syncs currently running against each database, by owner ('' for
+// none). Shared by every SyncService on that database, so overlapping
+// calls never send the same queue rows twice.
+const inFlight = new WeakMap<Database, Map<string, Promise<SyncResult>>>();
+
+function runningSyncs(db: Database): Map<string, Promise<SyncResult>> {
+  let running = inFlight.get(db);
+  if (!running) {
+    running = new Map();
+    inFlight.set(db, running);
+  }
+  return running;
+}
 
-  private calculateChecksum(items: SyncQueueItem[]): string {
-  const dataString = items
-    .map(item => item.id + JSON.stringify(item.data))
-    .join('');
+// One result for the syncs of several accounts
+function combineResults(results: SyncResult[]): SyncResult {
+  const total = (count: (result: SyncResult) => number | undefined) =>
+    results.reduce((sum, result) => sum + (count(result) ?? 0), 0);
+  return {
+    success: results.every((result) => result.success),
+    synced_items: total((result) => result.synced_items),
+    failed_items: total((result) => result.failed_items),
+    pulled_items: total((result) => result.pulled_items),
+    errors: results.flatMap((result) => result.errors),
+  };
+}
 
-  return crypto.createHash('sha256').update(dataString).digest('hex');
+function defaultConflictStrategy(): ConflictStrategy {
+  const configured = process.env.SYNC_CONFLICT_STRATEGY as ConflictStrategy;
+  return CONFLICT_STRATEGIES.includes(configured) ? configured : 'last-write-wins';
 }
 
-  
+/**
+ * Syncs local tasks with the sync server. Each user's tasks sync as their
+ * own account there (see SyncAccountService): a service on an owner's
+ * TaskService syncs only that owner's tasks, and one without an owner
+ * syncs every account in turn.
+ */
+export class SyncService {
+  private conflictService: ConflictService;
+  private events: EventService;
+  private accounts: SyncAccountService;
+  private transport: SyncTransport;
+  private accountTransport: (token: string) => SyncTransport;
+  // Tasks without an owner only sync with an account to sync as
+  private syncsUnowned: boolean;
+
   constructor(
     private db: Database,
     private taskService: TaskService,
-    apiUrl: string = process.env.API_BASE_URL || 'http://localhost:3000/api'
+    transport?: SyncTransport,
+    private conflictStrategy: ConflictStrategy = defaultConflictStrategy(),
+    accountTransport?: (token: string) => SyncTransport
   ) {
-    this.apiUrl = apiUrl;
+    const http = HttpSyncTransport.fromEnv();
+    this.transport = transport ?? http;
+    // Linked accounts are on the server SYNC_AUTH_TOKEN's account is on
+    this.accountTransport = accountTransport ?? ((token) => http.withToken(token));
+    this.syncsUnowned = transport !== undefined || !!process.env.SYNC_AUTH_TOKEN;
+    this.conflictService = new ConflictService(db, taskService);
+    this.events = EventService.for(db);
+    this.accounts = new SyncAccountService(db);
+  }
+
+  /** The same sync for one user's tasks, as their account on the server */
+  forAccount(account: SyncAccount): SyncService {
+    return new SyncService(
+      this.db,
+      this.taskService.forOwner(account.owner_id),
+      this.accountTransport(account.token),
+      this.conflictStrategy,
+      this.accountTransport
+    );
+  }
+
+  /**
+   * Pushes the local sync_queue to the server, then pulls the changes other
+   * devices made since the last stored cursor. Without an owner, the tasks
+   * without one sync as SYNC_AUTH_TOKEN's account, then each user with a
+   * linked account as that account. Only one sync runs per owner at a
+   * time; a call made while one is running gets its result.
+   */
+  async sync(options: SyncOptions = {}): Promise<SyncResult> {
+    const running = runningSyncs(this.db);
+    const key = this.ownerId ?? '';
+    const current = running.get(key);
+    if (current) {
+      return current;
+    }
+
+    const run = (
+      this.ownerId === undefined ? this.syncAll(options) : this.runSync(options)
+    ).finally(() => {
+      running.delete(key);
+    });
+    running.set(key, run);
+    return run;
   }
 
+  isSyncing(): boolean {
+    return runningSyncs(this.db).size > 0;
+  }
+
+  private get ownerId(): string | undefined {
+    return this.taskService.ownerId;
+  }
 
-  async sync(): Promise<SyncResult> {
+  private async syncAll(options: SyncOptions): Promise<SyncResult> {
+    const results: SyncResult[] = [];
+    if (this.syncsUnowned) {
+      results.push(await this.runSync(options));
+    }
+    for (const account of await this.accounts.list()) {
+      results.push(await this.forAccount(account).sync(options));
+    }
+    return combineResults(results);
+  }
+
+  private async runSync(options: SyncOptions): Promise<SyncResult> {
+    const strategy = options.strategy ?? this.conflictStrategy;
+    await this.releaseStaleClaims();
+
+    const [ownQueue, queueParams] = this.queueScope();
+    const queued = await this.db.get(
+      `SELECT COUNT(*) as count FROM sync_queue WHERE ${ownQueue}`,
+      queueParams
+    );
+    this.events.publish('sync.started', {
+      owner_id: this.ownerId ?? null,
+      queue_size: queued.count
+    });
+
+    const { refused, ...result } = await this.push(strategy);
+
+    // A pull would be refused the same way
+    if (!refused) {
+      try {
+        result.pulled_items = await this.pull({ strategy });
+      } catch (err) {
+        result.success = false;
+        result.errors.push({
+          task_id: '',
+          operation: 'pull',
+          error: (err as Error).message || 'Unknown pull error',
+          timestamp: new Date(),
+        });
+      }
+    }
+
+    this.events.publish('sync.completed', {
+      ...result,
+      owner_id: this.ownerId ?? null
+    });
+    return result;
+  }
+
+  async pull(options: SyncOptions = {}): Promise<number> {
+    const strategy = options.strategy ?? this.conflictStrategy;
     const SYNC_BATCH_SIZE = parseInt(process.env.SYNC_BATCH_SIZE || '50', 10);
 
-    const queueItems: SyncQueueItem[] = await this.db.all(`
-      SELECT * FROM sync_queue
-      WHERE attempts < 3
-      ORDER BY created_at ASC
-    `);
+    let cursor = await this.getSyncState(this.cursorKey());
+    let pulled = 0;
+    let hasMore = true;
+    const deviceId = await ClockService.for(this.db).deviceId();
+
+    while (hasMore) {
+      const page = await this.transport.fetchChanges(
+        cursor,
+        SYNC_BATCH_SIZE,
+        deviceId
+      );
+      for (const remote of page.changes) {
+        await this.applyRemoteChange(remote, strategy);
+        pulled++;
+      }
+
+      // Stored per page so an interrupted pull resumes where it stopped
+      cursor = page.cursor;
+      await this.setSyncState(this.cursorKey(), cursor);
+      hasMore = page.has_more;
+    }
+
+    return pulled;
+  }
+
+  /**
+   * Sends the due queue items. `refused` means the server turned down the
+   * credentials, which stops the sync with the remaining items queued.
+   */
+  private async push(
+    strategy: ConflictStrategy
+  ): Promise<SyncResult & { refused?: boolean }> {
+    const SYNC_BATCH_SIZE = parseInt(process.env.SYNC_BATCH_SIZE || '50', 10);
+
+    const queueItems = this.dueItems(await this.compactQueue());
 
     if (queueItems.length === 0) {
       return {
@@ -49,41 +270,111 @@ export class SyncService {
     let failedCount = 0;
     const errors: SyncError[] = [];
 
-    for (let i = 0; i < queueItems.length; i += SYNC_BATCH_SIZE) {
-      const batch = queueItems.slice(i, i + SYNC_BATCH_SIZE);
+    // A task whose operation failed keeps its later operations queued, so
+    // they are never applied ahead of it
+    const blocked = new Set<string>();
+
+    const recordFailure = async (item: SyncQueueItem, error: Error) => {
+      failedCount++;
+      blocked.add(item.task_id);
+      await this.handleSyncError(item, error);
+      this.events.publish('sync.item', {
+        task_id: item.task_id,
+        owner_id: await this.ownerOf(item.task_id),
+        operation: item.operation,
+        status: 'error',
+        error: error.message,
+      });
+      errors.push({
+        task_id: item.task_id,
+        operation: item.operation,
+        error: error.message || 'Unknown sync error',
+        timestamp: new Date(),
+      });
+    };
 
-      for (const item of batch) {
+    for (const planned of batchByTask(queueItems, SYNC_BATCH_SIZE)) {
+      const unblocked: SyncQueueItem[] = [];
+      for (const item of planned) {
+        // A subtask cannot be created on the server before its parent
+        if (item.data.parent_id && blocked.has(item.data.parent_id)) {
+          blocked.add(item.task_id);
+        }
+        if (!blocked.has(item.task_id)) {
+          unblocked.push(item);
+        }
+      }
+      if (unblocked.length === 0) {
+        continue;
+      }
+      const batch = await this.withServerState(unblocked);
+      await this.markInProgress(batch);
+
+      let response: BatchSyncResponse;
+      try {
+        response = await this.processBatch(batch);
+      } catch (err) {
+        // Not the items' fault: they stay queued as they were, with no
+        // attempt counted, until the token is fixed
+        if (classifySyncError(err).unauthorized) {
+          await this.releaseStaleClaims();
+          errors.push({
+            task_id: '',
+            operation: 'push',
+            error: (err as Error).message,
+            timestamp: new Date(),
+          });
+          return {
+            success: false,
+            synced_items: syncedCount,
+            failed_items: failedCount,
+            errors,
+            refused: true,
+          };
+        }
+        for (const item of batch) {
+          await recordFailure(item, err as Error);
+        }
+        continue;
+      }
+
+      // The server answers in request order, one entry per queue item
+      for (const [index, item] of batch.entries()) {
+        const processed = response.processed_items?.[index];
         try {
-          if (item.operation === 'create') {
-            await axios.post('https://yourserver.com/api/tasks', item.data);
-          } else if (item.operation === 'update') {
-            await axios.put(`https://yourserver.com/api/tasks/${item.task_id}`, item.data);
-          } else if (item.operation === 'delete') {
-            await axios.delete(`https://yourserver.com/api/tasks/${item.task_id}`);
+          if (!processed || processed.client_id !== item.task_id) {
+            throw new Error('Missing batch result for queue item');
+          }
+          if (processed.status === 'error') {
+            // Classified by the item's status, as a failed request would be
+            throw Object.assign(new Error(processed.error || 'Server rejected item'), {
+              statusCode: processed.status_code,
+            });
           }
-          await this.db.run(`DELETE FROM sync_queue WHERE id = ?`, [item.id]);
-          await this.taskService.markTaskAsSynced(item.task_id);
-          syncedCount++;
-
-        } catch (err: any) {
-
-          failedCount++;
-          const errorMessage = err.message || 'Unknown sync error';
-
-          await this.db.run(
-            `UPDATE sync_queue
-             SET attempts = attempts + 1,
-                 error_message = ?
-             WHERE id = ?`,
-            [errorMessage, item.id]
-          );
 
-          errors.push({
+          if (processed.status === 'conflict' && processed.resolved_data) {
+            await this.applyConflict(
+              item,
+              processed.server_id,
+              processed.resolved_data,
+              strategy
+            );
+          } else {
+            await this.applySuccess(
+              item,
+              processed.server_id,
+              processed.resolved_data && (await this.toLocalTask(processed.resolved_data))
+            );
+          }
+          syncedCount++;
+          this.events.publish('sync.item', {
             task_id: item.task_id,
+            owner_id: await this.ownerOf(item.task_id),
             operation: item.operation,
-            error: errorMessage,
-            timestamp: new Date(),
+            status: processed.status === 'conflict' ? 'conflict' : 'success',
           });
+        } catch (err) {
+          await recordFailure(item, err as Error);
         }
       }
     }
@@ -97,123 +388,572 @@ export class SyncService {
     };
   }
 
+/**
+ * Coalesces each task's pending operations (see coalesceQueue) and writes
+ * the result back, so a crash mid-sync never resends folded operations.
+ * Tasks whose operations cancelled out have nothing left to sync.
+ */
+private async compactQueue(): Promise<SyncQueueItem[]> {
+  const [ownQueue, queueParams] = this.queueScope();
+  const rows = await this.db.all(`
+    SELECT * FROM sync_queue
+    WHERE retry_count < ? AND ${ownQueue}
+    ORDER BY hlc ASC, rowid ASC
+  `, [retryPolicyFromEnv().maxAttempts, ...queueParams]);
+  const queued = rows.map((row) => this.toQueueItem(row));
+  const { items, removed } = coalesceQueue(queued);
+  if (removed.length === 0) {
+    return items;
+  }
+
+  const removedIds = new Set(removed);
+  const touched = new Set(
+    queued.filter((item) => removedIds.has(item.id)).map((item) => item.task_id)
+  );
+
+  await this.db.transaction(async () => {
+    for (const id of removed) {
+      await this.db.run(`DELETE FROM sync_queue WHERE id = ?`, [id]);
+    }
+    for (const item of items.filter((i) => touched.has(i.task_id))) {
+      await this.db.run(
+        `UPDATE sync_queue SET operation = ?, data = ? WHERE id = ?`,
+        [item.operation, JSON.stringify(item.data), item.id]
+      );
+    }
+    for (const taskId of touched) {
+      const remaining = await this.db.get(
+        `SELECT COUNT(*) as count FROM sync_queue WHERE task_id = ?`,
+        [taskId]
+      );
+      if (remaining.count === 0) {
+        await this.updateSyncStatus(taskId, 'synced');
+      }
+    }
+  });
+
+  return items;
+}
+
+/**
+ * Drops items still waiting out their backoff. Once an item is held back,
+ * the rest of its task's operations wait with it so they stay in order.
+ */
+private dueItems(items: SyncQueueItem[]): SyncQueueItem[] {
+  const now = Date.now();
+  const held = new Set<string>();
+
+  return items.filter((item) => {
+    const waiting = item.next_attempt_at && item.next_attempt_at.getTime() > now;
+    const parentHeld = item.data.parent_id && held.has(item.data.parent_id);
+    if (waiting || parentHeld) {
+      held.add(item.task_id);
+    }
+    return !held.has(item.task_id);
+  });
+}
+
+private async markInProgress(items: SyncQueueItem[]): Promise<void> {
+  await this.db.transaction(async () => {
+    for (const item of items) {
+      await this.db.run(
+        `UPDATE sync_queue SET status = 'in-progress' WHERE id = ?`,
+        [item.id]
+      );
+      await this.updateSyncStatus(item.task_id, 'in-progress');
+    }
+  });
+}
+
+/**
+ * Items still marked in-progress when a sync starts were being sent when
+ * the process stopped, so they go back to pending and are sent again.
+ * A sync the server refused puts its items back the same way.
+ */
+private async releaseStaleClaims(): Promise<void> {
+  const [ownQueue, queueParams] = this.queueScope();
+  const [ownTasks, taskParams] = this.taskScope();
+  await this.db.transaction(async () => {
+    await this.db.run(
+      `UPDATE sync_queue SET status = 'pending' WHERE status = 'in-progress' AND ${ownQueue}`,
+      queueParams
+    );
+    await this.db.run(
+      `UPDATE tasks SET sync_status = 'pending' WHERE sync_status = 'in-progress' AND ${ownTasks}`,
+      taskParams
+    );
+  });
+}
+
 async addToSyncQueue(taskId: string, operation: 'create' | 'update' | 'delete', data: Partial<Task>): Promise<void> {
   const query = `
-    INSERT INTO sync_queue (id, task_id, operation, data, created_at, retry_count)
-    VALUES (?, ?, ?, ?, ?, 0)
+    INSERT INTO sync_queue (id, task_id, operation, data, created_at, hlc, retry_count)
+    VALUES (?, ?, ?, ?, ?, ?, 0)
   `;
-  const id = crypto.randomUUID();
+  const id = uuidv4();
   const created_at = new Date().toISOString();
+  const hlc = await ClockService.for(this.db).tick();
 
-  await this.db.run(query, [id, taskId, operation, JSON.stringify(data), created_at]);
+  await this.db.run(query, [id, taskId, operation, JSON.stringify(data), created_at, hlc]);
 }
 
 private async processBatch(items: SyncQueueItem[]): Promise<BatchSyncResponse> {
   try {
 
-    const checksum = this.calculateChecksum(items);
+    const checksum = calculateBatchChecksum(items);
 
-    const payload = {
+    // Keys follow each item's content: resending an unchanged item gets
+    // the result it had the first time, while one that has had edits
+    // folded into it since is applied afresh
+    return await this.transport.sendBatch({
       checksum,
-      items
-    };
+      items: items.map((item) => ({
+        ...item,
+        idempotency_key: calculateBatchChecksum([item]),
+      })),
+      client_timestamp: new Date(),
+    });
+  } catch (error) {
+    throw new Error('Batch processing failed: ' + (error as Error).message, {
+      cause: error,
+    });
+  }
+}
 
 
-    const response = await axios.post(`${this.apiUrl}/batch`, payload);
 
+/**
+ * Picks the version of a task that should survive a conflict. Operation
+ * priority (CHALLENGE_CONSTRAINTS.CONFLICT_PRIORITY) breaks timestamp ties,
+ * and 'merge' compares both sides with the last synced base snapshot.
+ */
+private async resolveConflict(
+  localTask: Task,
+  serverTask: Task,
+  localOperation: SyncOperation,
+  strategy: ConflictStrategy
+): Promise<ConflictResolution> {
+  if (strategy === 'client-wins') {
+    return { strategy, resolved_task: localTask };
+  }
+  if (strategy === 'server-wins') {
+    return { strategy, resolved_task: serverTask };
+  }
 
-    return response.data;
-  } catch (error) {
-    throw new Error('Batch processing failed: ' + (error as Error).message);
+  if (strategy === 'merge') {
+    const base = await this.getBaseSnapshot(localTask.id);
+    if (base) {
+      return { strategy, resolved_task: this.mergeTasks(base, localTask, serverTask, localOperation) };
+    }
   }
+
+  // Without a base snapshot a merge degrades to last-write-wins
+  return {
+    strategy,
+    resolved_task: this.compareVersions(localTask, serverTask, localOperation) >= 0
+      ? localTask
+      : serverTask,
+  };
 }
 
+/**
+ * Positive when the local version should win, negative when the server
+ * version should, zero when they are the same write (local is kept).
+ * Ordered by HLC rather than updated_at, so a skewed clock cannot win.
+ */
+private compareVersions(localTask: Task, serverTask: Task, localOperation: SyncOperation): number {
+  return compareVersions(
+    { ...localTask, operation: localOperation },
+    { ...serverTask, operation: serverTask.is_deleted ? 'delete' : 'update' }
+  );
+}
+
+private mergeTasks(
+  base: Partial<Task>,
+  localTask: Task,
+  serverTask: Task,
+  localOperation: SyncOperation
+): Task {
+  const localWinsTies = this.compareVersions(localTask, serverTask, localOperation) >= 0;
+
+  const fromServer = mergeFieldsOf(serverTask, (field) => {
+    const localChanged = !sameValue(localTask[field], base[field]);
+    const serverChanged = !sameValue(serverTask[field], base[field]);
+    return serverChanged && (!localChanged || !localWinsTies);
+  });
+
+  return { ...localTask, ...fromServer };
+}
+
+private async applySuccess(item: SyncQueueItem, serverId: string, serverTask?: Task): Promise<void> {
+  await this.db.transaction(async () => {
+    await this.db.run(`DELETE FROM sync_queue WHERE id = ?`, [item.id]);
+
+    // Later operations for the same task may still be waiting in the queue
+    const remaining = await this.db.get(
+      `SELECT COUNT(*) as count FROM sync_queue WHERE task_id = ?`,
+      [item.task_id]
+    );
+    await this.updateSyncStatus(
+      item.task_id,
+      remaining.count > 0 ? 'pending' : 'synced',
+      { server_id: serverId }
+    );
+    if (serverTask) {
+      await this.saveBaseSnapshot(item.task_id, serverTask);
+    }
+  });
+}
 
+private async applyConflict(
+  item: SyncQueueItem,
+  serverId: string,
+  resolvedData: Task,
+  strategy: ConflictStrategy
+): Promise<void> {
+  await this.db.transaction(async () => {
+    const localTask = await this.taskService.getTask(item.task_id, true);
+    if (!localTask) {
+      await this.applySuccess(item, serverId);
+      return;
+    }
 
-private async resolveConflict(localTask: Task, serverTask: Task): Promise<Task> {
-  const localTime = new Date(localTask.updated_at).getTime();
-  const serverTime = new Date(serverTask.updated_at).getTime();
+    const serverTask = await this.toLocalTask(resolvedData);
+    const resolution = await this.resolveConflict(
+      localTask,
+      serverTask,
+      item.operation,
+      strategy
+    );
+    await this.applyResolution(localTask, serverTask, serverId, resolution);
+  });
+}
 
-  if (localTime > serverTime) return localTask;
-  if (serverTime > localTime) return serverTask;
+private async applyRemoteChange(remoteData: Task, strategy: ConflictStrategy): Promise<void> {
+  await this.db.transaction(async () => {
+    const remote = await this.toLocalTask(remoteData);
+
+    const [ownTasks, taskParams] = this.taskScope();
+    const row = await this.db.get(
+      `SELECT id FROM tasks WHERE server_id = ? AND ${ownTasks}`,
+      [remote.id, ...taskParams]
+    );
+    const localTask = row ? await this.taskService.getTask(row.id, true) : null;
+
+    if (!localTask) {
+      // A tombstone for a task this device never had, or has already
+      // collected, has nothing to delete
+      if (remote.is_deleted) {
+        return;
+      }
+      // Another user may have a task by that id, synced as another account
+      const taken = await this.db.get(`SELECT id FROM tasks WHERE id = ?`, [remote.id]);
+      const id = taken ? uuidv4() : remote.id;
+      await this.taskService.applyRemoteTask({ ...remote, id, server_id: remote.id });
+      await this.saveBaseSnapshot(id, remote);
+      return;
+    }
+
+    // Only a task with unsent local edits can conflict with a remote change
+    const pending = await this.db.get(
+      `SELECT operation FROM sync_queue WHERE task_id = ? ORDER BY hlc DESC, rowid DESC LIMIT 1`,
+      [localTask.id]
+    );
+    if (!pending) {
+      await this.taskService.applyRemoteTask({
+        ...remote,
+        id: localTask.id,
+        server_id: remote.id,
+      });
+      await this.saveBaseSnapshot(localTask.id, remote);
+      return;
+    }
+
+    const resolution = await this.resolveConflict(
+      localTask,
+      remote,
+      pending.operation,
+      strategy
+    );
+    await this.applyResolution(localTask, remote, remote.id, resolution);
+  });
+}
+
+/**
+ * Makes the resolved version the local state. When it differs from what
+ * the server holds, pending queue items for the task are replaced by a
+ * single fresh operation carrying the resolved version.
+ */
+private async applyResolution(
+  localTask: Task,
+  serverTask: Task,
+  serverId: string,
+  resolution: ConflictResolution
+): Promise<void> {
+  const resolved = resolution.resolved_task;
+  const keepsServer = MERGE_FIELDS.every((field) =>
+    sameValue(resolved[field], serverTask[field])
+  );
+
+  await this.db.run(`DELETE FROM sync_queue WHERE task_id = ?`, [localTask.id]);
+  await this.saveBaseSnapshot(localTask.id, serverTask);
+
+  if (keepsServer) {
+    await this.taskService.applyRemoteTask(
+      { ...serverTask, id: localTask.id, server_id: serverId },
+      'conflict-resolution'
+    );
+  } else {
+    await this.db.run(`UPDATE tasks SET server_id = ? WHERE id = ?`, [serverId, localTask.id]);
+    await this.taskService.applyResolvedVersion(localTask.id, resolved);
+  }
+
+  const keepsLocal = MERGE_FIELDS.every((field) =>
+    sameValue(resolved[field], localTask[field])
+  );
+  const outcome = keepsServer ? 'remote' : keepsLocal ? 'local' : 'merged';
+  await this.conflictService.record(localTask, serverTask, serverId, resolution, outcome);
+}
+
+private async getBaseSnapshot(taskId: string): Promise<Partial<Task> | null> {
+  const row = await this.db.get(
+    `SELECT snapshot FROM task_base_snapshots WHERE task_id = ?`,
+    [taskId]
+  );
+  return row ? JSON.parse(row.snapshot) : null;
+}
 
-  const priority: Record<'create' | 'update' | 'delete', number> = {
-    create: 1,
-    update: 2,
-    delete: 3,
+private async saveBaseSnapshot(taskId: string, task: Task): Promise<void> {
+  const snapshot = mergeFieldsOf(task);
+
+  await this.db.run(
+    `INSERT INTO task_base_snapshots (task_id, snapshot, version) VALUES (?, ?, ?)
+     ON CONFLICT(task_id) DO UPDATE SET
+       snapshot = excluded.snapshot,
+       version = excluded.version`,
+    [taskId, JSON.stringify(snapshot), task.version ?? null]
+  );
+}
+
+/**
+ * A task as sent by the server, with its parent's server id swapped for
+ * the local id when this device knows the parent under another id. The
+ * server's owner is the account the task was synced as, which stands for
+ * the local user being synced, so the task is theirs.
+ */
+private async toLocalTask(data: Task): Promise<Task> {
+  const task: Task = { ...this.toServerTask(data), owner_id: this.ownerId ?? null };
+  if (task.parent_id) {
+    const [ownTasks, taskParams] = this.taskScope();
+    const parent = await this.db.get(
+      `SELECT id FROM tasks WHERE server_id = ? AND ${ownTasks}`,
+      [task.parent_id, ...taskParams]
+    );
+    task.parent_id = parent?.id ?? task.parent_id;
+  }
+  return task;
+}
+
+private toServerTask(data: Task): Task {
+  return {
+    ...data,
+    completed: !!data.completed,
+    is_deleted: !!data.is_deleted,
+    created_at: new Date(data.created_at),
+    updated_at: new Date(data.updated_at),
+    due_at: data.due_at ? new Date(data.due_at) : null,
   };
+}
 
-  const localPriority = priority['update'];
-  const serverPriority = priority['update'];
+// Each account has its own place in the server's change feed
+private cursorKey(): string {
+  return this.ownerId === undefined ? 'pull_cursor' : `pull_cursor:${this.ownerId}`;
+}
 
-  if (localTask.is_deleted && !serverTask.is_deleted) return localTask;
-  if (serverTask.is_deleted && !localTask.is_deleted) return serverTask;
+// SQL condition and parameters limiting tasks to the ones this sync is for
+private taskScope(): [string, string[]] {
+  return this.ownerId === undefined
+    ? ['owner_id IS NULL', []]
+    : ['owner_id = ?', [this.ownerId]];
+}
 
-  return localTask;
+// The same for sync_queue. Items of tasks no longer stored go with the
+// tasks without an owner
+private queueScope(): [string, string[]] {
+  return this.ownerId === undefined
+    ? ['task_id NOT IN (SELECT id FROM tasks WHERE owner_id IS NOT NULL)', []]
+    : ['task_id IN (SELECT id FROM tasks WHERE owner_id = ?)', [this.ownerId]];
 }
 
+private async getSyncState(key: string): Promise<string | null> {
+  const row = await this.db.get(`SELECT value FROM sync_state WHERE key = ?`, [key]);
+  return row ? row.value : null;
+}
 
+// Who sees the task's sync events and dead letters
+private async ownerOf(taskId: string): Promise<string | null> {
+  const row = await this.db.get(`SELECT owner_id FROM tasks WHERE id = ?`, [taskId]);
+  return row?.owner_id ?? null;
+}
 
+private async setSyncState(key: string, value: string): Promise<void> {
+  await this.db.run(
+    `INSERT INTO sync_state (key, value) VALUES (?, ?)
+     ON CONFLICT(key) DO UPDATE SET value = excluded.value`,
+    [key, value]
+  );
+}
 
+/**
+ * Sets the task's sync state. Passing serverData means the server has
+ * acknowledged the task, so its server_id and last_synced_at are stored.
+ */
 private async updateSyncStatus(
   taskId: string,
   status: 'pending' | 'in-progress' | 'synced' | 'error' | 'failed',
   serverData?: Partial<Task>
 ): Promise<void> {
-  const now = new Date().toISOString();
-
   await this.db.run(
     `
       UPDATE tasks
-      SET 
+      SET
         sync_status = ?,
         server_id = COALESCE(?, server_id),
-        last_synced_at = ?
+        last_synced_at = COALESCE(?, last_synced_at)
       WHERE id = ?
     `,
-    [status, serverData?.server_id ?? null, now, taskId]
+    [
+      status,
+      serverData?.server_id ?? null,
+      serverData ? new Date().toISOString() : null,
+      taskId,
+    ]
   );
-
-  if (status === 'synced' || status === 'failed') {
-    await this.db.run(`DELETE FROM sync_queue WHERE task_id = ?`, [taskId]);
-  }
 }
 
+/**
+ * Adds the server ids the client knows to each item, for the task and for
+ * its parent. A parent without one yet keeps its local id, which the
+ * server resolves when the parent's create is earlier in the same batch.
+ *
+ * A task's first item also carries the server version it was made on, so
+ * the server can tell whether anything came in between. Later items for
+ * the task follow on from the first, and go without one.
+ */
+private async withServerState(items: SyncQueueItem[]): Promise<SyncQueueItem[]> {
+  const serverIds = new Map<string, string | undefined>();
+  const lookup = async (taskId: string) => {
+    if (!serverIds.has(taskId)) {
+      const task = await this.taskService.getTask(taskId, true);
+      serverIds.set(taskId, task?.server_id ?? undefined);
+    }
+    return serverIds.get(taskId);
+  };
 
+  const versioned = new Set<string>();
+  const baseVersion = async (taskId: string) => {
+    if (versioned.has(taskId)) {
+      return null;
+    }
+    versioned.add(taskId);
+    const row = await this.db.get(
+      `SELECT version FROM task_base_snapshots WHERE task_id = ?`,
+      [taskId]
+    );
+    return row?.version ?? null;
+  };
 
-private async handleSyncError(item: SyncQueueItem, error: Error): Promise<void> {
-  const newCount = item.retry_count + 1;
-  const errorMsg = error.message;
-
-  if (newCount >= 3) {
-    await this.db.run(`
-      INSERT INTO dead_letter_queue (id, task_id, operation, data, error_message)
-      VALUES (?, ?, ?, ?, ?)
-    `, [item.id, item.task_id, item.operation, JSON.stringify(item.data), errorMsg]);
+  const result: SyncQueueItem[] = [];
+  for (const item of items) {
+    const data = { ...item.data };
+    // The local version counts this device's writes, not the server's
+    const version = await baseVersion(item.task_id);
+    if (version === null) {
+      delete data.version;
+    } else {
+      data.version = version;
+    }
+    data.server_id = data.server_id ?? (await lookup(item.task_id));
+    if (data.parent_id) {
+      data.parent_id = (await lookup(data.parent_id)) ?? data.parent_id;
+    }
+    if (!data.server_id) {
+      delete data.server_id;
+    }
+    result.push({ ...item, data });
+  }
+  return result;
+}
 
-    await this.updateSyncStatus(item.task_id, 'failed');
-  } else {
 
-    await this.db.run(`
-      UPDATE sync_queue
-      SET retry_count = ?, error_message = ?
-      WHERE id = ?
-    `, [newCount, errorMsg, item.id]);
 
-    await this.updateSyncStatus(item.task_id, 'error');
-  }
+private async handleSyncError(item: SyncQueueItem, error: Error): Promise<void> {
+  const policy = retryPolicyFromEnv();
+  const { transient, retryAfterMs } = classifySyncError(error);
+
+  await this.db.transaction(async () => {
+    const newCount = item.retry_count + 1;
+    const errorMsg = error.message;
+
+    // Permanent rejections would fail the same way on every retry
+    if (!transient || newCount >= policy.maxAttempts) {
+      const ownerId = await this.ownerOf(item.task_id);
+      await this.db.run(`
+        INSERT INTO dead_letter_queue (id, task_id, owner_id, operation, data, error_message)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `, [item.id, item.task_id, ownerId, item.operation, JSON.stringify(item.data), errorMsg]);
+
+      await this.db.run(`DELETE FROM sync_queue WHERE id = ?`, [item.id]);
+      await this.updateSyncStatus(item.task_id, 'failed');
+      this.db.afterCommit(() =>
+        this.events.publish('dlq.added', {
+          id: item.id,
+          task_id: item.task_id,
+          owner_id: ownerId,
+          operation: item.operation,
+          data: item.data,
+          error_message: errorMsg,
+          failed_at: new Date(),
+        })
+      );
+    } else {
+      const delay = Math.max(backoffDelay(policy, newCount), retryAfterMs ?? 0);
+      const nextAttemptAt = new Date(Date.now() + delay);
+
+      await this.db.run(`
+        UPDATE sync_queue
+        SET retry_count = ?, error_message = ?, next_attempt_at = ?, status = 'pending'
+        WHERE id = ?
+      `, [newCount, errorMsg, nextAttemptAt.toISOString(), item.id]);
+
+      await this.updateSyncStatus(item.task_id, 'error');
+    }
+  });
 }
 
 
 
 async checkConnectivity(): Promise<boolean> {
   try {
-    const response = await axios.get(`${this.apiUrl}/health`, { timeout: 5000 });
-    return response.status === 200;
+    return await this.transport.checkHealth();
   } catch (error) {
     console.warn('Server not reachable:', (error as Error).message);
     return false;
   }
 }
 
+private toQueueItem(row: any): SyncQueueItem {
+  return {
+    id: row.id,
+    task_id: row.task_id,
+    operation: row.operation,
+    data: JSON.parse(row.data),
+    created_at: new Date(row.created_at),
+    hlc: row.hlc ?? undefined,
+    retry_count: row.retry_count,
+    error_message: row.error_message ?? undefined,
+    next_attempt_at: row.next_attempt_at ? new Date(row.next_attempt_at) : undefined,
+  };
+}
+
 }
\ No newline at end of file
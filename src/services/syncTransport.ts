@@ -0,0 +1,157 @@
+import axios from 'axios';
+import {
+  BatchSyncRequest,
+  BatchSyncResponse,
+  ChangesResponse,
+} from '../types';
+import { Database } from '../db/database';
+import { TaskService } from './taskService';
+import { BatchService } from './batchService';
+import { TombstoneService } from './tombstoneService';
+
+/**
+ * How SyncService reaches the sync server. Implementations throw on any
+ * failure so the caller can count the attempt against the queue item.
+ */
+export interface SyncTransport {
+  sendBatch(payload: BatchSyncRequest): Promise<BatchSyncResponse>;
+  /**
+   * Changes after `since`. Passing the device id tells the server this
+   * device has everything up to `since`, so it may drop tombstones.
+   */
+  fetchChanges(
+    since: string | null,
+    limit: number,
+    deviceId?: string,
+  ): Promise<ChangesResponse>;
+  checkHealth(): Promise<boolean>;
+}
+
+export interface HttpSyncTransportOptions {
+  baseUrl: string;
+  timeout?: number;
+  headers?: Record<string, string>;
+}
+
+export class HttpSyncTransport implements SyncTransport {
+  private baseUrl: string;
+  private timeout: number;
+  private headers: Record<string, string>;
+
+  constructor(options: HttpSyncTransportOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.timeout = options.timeout ?? 5000;
+    this.headers = options.headers ?? {};
+  }
+
+  /**
+   * Syncs as the account SYNC_AUTH_TOKEN belongs to, which tasks without
+   * an owner are pushed to and pulled from (see SyncAccountService).
+   */
+  static fromEnv(): HttpSyncTransport {
+    const transport = new HttpSyncTransport({
+      baseUrl: process.env.API_BASE_URL || 'http://localhost:3000/api',
+      timeout: parseInt(process.env.SYNC_TIMEOUT_MS || '5000', 10),
+    });
+    const token = process.env.SYNC_AUTH_TOKEN;
+    return token ? transport.withToken(token) : transport;
+  }
+
+  /** The same server, as the account the token belongs to */
+  withToken(token: string): HttpSyncTransport {
+    return new HttpSyncTransport({
+      baseUrl: this.baseUrl,
+      timeout: this.timeout,
+      headers: { ...this.headers, Authorization: `Bearer ${token}` },
+    });
+  }
+
+  async sendBatch(payload: BatchSyncRequest): Promise<BatchSyncResponse> {
+    // The same batch sent again after a timeout is answered from the
+    // server's stored response. The checksum only covers the items' ids
+    // and data, which is all the server compares a resend by
+    const config = this.config();
+    const response = await axios.post(`${this.baseUrl}/batch`, payload, {
+      ...config,
+      headers: { ...config.headers, 'Idempotency-Key': payload.checksum },
+    });
+    return response.data;
+  }
+
+  async fetchChanges(
+    since: string | null,
+    limit: number,
+    deviceId?: string,
+  ): Promise<ChangesResponse> {
+    const response = await axios.get(`${this.baseUrl}/sync/changes`, {
+      ...this.config(),
+      params: { since: since ?? undefined, limit, device_id: deviceId },
+    });
+    return response.data;
+  }
+
+  async checkHealth(): Promise<boolean> {
+    // axios rejects on non-2xx responses, so reaching here means healthy
+    await axios.get(`${this.baseUrl}/health`, this.config());
+    return true;
+  }
+
+  private config() {
+    return { timeout: this.timeout, headers: this.headers };
+  }
+}
+
+/**
+ * In-process transport that applies operations directly to a second
+ * Database, e.g. an embedded peer or the "server" side of a test. With an
+ * owner it acts as that user, as an authenticated HTTP client would.
+ */
+export class LoopbackSyncTransport implements SyncTransport {
+  private taskService: TaskService;
+  private batchService: BatchService;
+  private tombstones: TombstoneService;
+
+  constructor(
+    serverDb: Database,
+    taskService?: TaskService,
+    private ownerId?: string,
+  ) {
+    this.taskService = taskService ?? new TaskService(serverDb);
+    this.batchService = new BatchService(serverDb, this.taskService);
+    this.tombstones = new TombstoneService(serverDb);
+  }
+
+  async sendBatch(payload: BatchSyncRequest): Promise<BatchSyncResponse> {
+    // Round-trip through JSON so the server sees what HTTP would deliver
+    const request = JSON.parse(JSON.stringify(payload));
+    const response = await this.batchService.processBatch(
+      request.items,
+      request.checksum,
+      this.ownerId,
+    );
+    return JSON.parse(JSON.stringify(response));
+  }
+
+  async fetchChanges(
+    since: string | null,
+    limit: number,
+    deviceId?: string,
+  ): Promise<ChangesResponse> {
+    if (deviceId) {
+      await this.tombstones.acknowledge(
+        deviceId,
+        this.ownerId ?? null,
+        Number(since ?? 0),
+      );
+    }
+    const tasks = this.ownerId
+      ? this.taskService.forOwner(this.ownerId)
+      : this.taskService;
+    const response = await tasks.getChangesSince(Number(since ?? 0), limit);
+    return JSON.parse(JSON.stringify(response));
+  }
+
+  async checkHealth(): Promise<boolean> {
+    return true;
+  }
+}
@@ -1,9 +1,95 @@
 import { v4 as uuidv4 } from 'uuid';
-import { Task } from '../types';
+import {
+  ChangesResponse,
+  RevisionSource,
+  SyncOperation,
+  TagCount,
+  Task,
+  TaskHistoryPage,
+  TaskPage,
+  TaskTreeNode,
+  TaskQuery,
+} from '../types';
 import { Database } from '../db/database';
+import { EventService } from './eventService';
+import { ClockService } from './clockService';
+import { TombstoneService } from './tombstoneService';
+import {
+  RevisionContext,
+  RevisionService,
+  diffSnapshots,
+  snapshotOf,
+} from './revisionService';
+
+const LOCAL: RevisionContext = { source: 'local' };
+const RESOLUTION: RevisionContext = { source: 'conflict-resolution' };
+const EXPORT_PAGE_SIZE = 500;
+
+export class InvalidParentError extends Error {
+  statusCode = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidParentError';
+  }
+}
+
+/** An If-Match precondition named a version other than the current one */
+export class StaleVersionError extends Error {
+  statusCode = 412;
+
+  constructor(public current: Task) {
+    super('Task has been changed since it was read');
+    this.name = 'StaleVersionError';
+  }
+}
+
+export class InvalidCursorError extends Error {
+  statusCode = 400;
+
+  constructor() {
+    super('Invalid or mismatched cursor');
+    this.name = 'InvalidCursorError';
+  }
+}
+
+/**
+ * Turns free text into an FTS5 query: every word must match, as a prefix,
+ * and FTS5 operators in the input are treated as plain text.
+ */
+function toMatchQuery(text: string): string | null {
+  const terms = text
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((term) => `"${term.replace(/"/g, '""')}"*`);
+  return terms.length ? terms.join(' ') : null;
+}
 
+/**
+ * Task storage. A service created with an owner only sees that user's
+ * tasks and stamps new ones with it; without one it sees every task, as
+ * the sync engine and batch processing need.
+ */
 export class TaskService {
-  constructor(private db: Database) {}
+  private events: EventService;
+  private clock: ClockService;
+  private revisions: RevisionService;
+  private tombstones: TombstoneService;
+
+  constructor(
+    private db: Database,
+    readonly ownerId?: string,
+  ) {
+    this.events = EventService.for(db);
+    this.clock = ClockService.for(db);
+    this.revisions = new RevisionService(db);
+    this.tombstones = new TombstoneService(db);
+  }
+
+  /** The same service, scoped to one user's tasks */
+  forOwner(ownerId: string): TaskService {
+    return new TaskService(this.db, ownerId);
+  }
 
 
 async createTask(taskData: Partial<Task>): Promise<Task> {
@@ -14,8 +100,15 @@ async createTask(taskData: Partial<Task>): Promise<Task> {
     id,
     title: taskData.title ?? '',
     description: taskData.description ?? '',
-    completed: false,
+    completed: taskData.completed ?? false,
     is_deleted: false,
+    due_at: taskData.due_at ?? null,
+    priority: taskData.priority ?? 'normal',
+    tags: taskData.tags ?? [],
+    parent_id: taskData.parent_id ?? null,
+    owner_id: this.ownerId ?? null,
+    hlc: await this.clock.tick(),
+    version: 1,
     created_at: now,
     updated_at: now,
     sync_status: 'pending',
@@ -25,10 +118,11 @@ async createTask(taskData: Partial<Task>): Promise<Task> {
 
   const insertQuery = `
     INSERT INTO tasks (
-      id, title, description, completed, is_deleted,
-      created_at, updated_at, sync_status, server_id, last_synced_at
+      id, title, description, completed, is_deleted, due_at, priority, tags,
+      parent_id, owner_id, hlc, created_at, updated_at, sync_status,
+      server_id, last_synced_at
     )
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `;
 
   const params = [
@@ -37,6 +131,12 @@ async createTask(taskData: Partial<Task>): Promise<Task> {
     newTask.description,
     newTask.completed ? 1 : 0,
     newTask.is_deleted ? 1 : 0,
+    newTask.due_at ? newTask.due_at.toISOString() : null,
+    newTask.priority,
+    JSON.stringify(newTask.tags),
+    newTask.parent_id,
+    newTask.owner_id,
+    newTask.hlc,
     newTask.created_at.toISOString(),
     newTask.updated_at.toISOString(),
     newTask.sync_status,
@@ -44,162 +144,410 @@ async createTask(taskData: Partial<Task>): Promise<Task> {
     newTask.last_synced_at ? newTask.last_synced_at.toISOString() : null,
   ];
 
-  await this.db.run(insertQuery, params);
-
-
-  const queueInsert = `
-    INSERT INTO sync_queue (
-      task_id, operation_type, task_snapshot, attempts, status
-    )
-    VALUES (?, ?, ?, ?, ?)
-  `;
-
-  await this.db.run(queueInsert, [
-    newTask.id,
-    'create',
-    JSON.stringify(newTask),
-    0,
-    'pending',
-  ]);
+  await this.db.transaction(async () => {
+    await this.checkParent(newTask.id, newTask.parent_id);
+    await this.db.run(insertQuery, params);
+    await this.recordChange(newTask.id);
+    await this.enqueue(newTask.id, 'create', newTask);
+    await this.revisions.record(newTask, 'create', LOCAL);
+    await this.notify('task.created', newTask.id);
+  });
 
   return newTask;
 }
 
 
 
-  async updateTask(id: string, updates: Partial<Task>): Promise<Task | null> {
-    const existing = await this.db.get('SELECT * FROM tasks WHERE id = ? AND is_deleted = 0', [id]);
-    if (!existing) {
-      return null;
-    }
-
-    const now = new Date();
-    const updatedTask: Task = {
-      ...existing,
-      ...updates,
-      updated_at: now,
-      sync_status: 'pending',
-    };
-
-    const updateQuery = `
-      UPDATE tasks
-      SET title = ?, description = ?, completed = ?, updated_at = ?, sync_status = ?
-      WHERE id = ?
-    `;
-
-    const params = [
-      updatedTask.title,
-      updatedTask.description,
-      updatedTask.completed ? 1 : 0,
-      updatedTask.updated_at.toISOString(),
-      updatedTask.sync_status,
-      id,
-    ];
-
-    await this.db.run(updateQuery, params);
-
-    const queueInsert = `
-      INSERT INTO sync_queue (operation_type, task_snapshot, attempts, status)
-      VALUES (?, ?, ?, ?)
-    `;
-    await this.db.run(queueInsert, [
-      'update',
-      JSON.stringify({
-        ...updatedTask,
-        created_at: updatedTask.created_at instanceof Date
-          ? updatedTask.created_at.toISOString()
-          : updatedTask.created_at,
-        updated_at: updatedTask.updated_at.toISOString(),
-      }),
-      0,
-      'pending',
-    ]);
-
-    return {
-      ...updatedTask,
-      created_at: new Date(existing.created_at),
-      updated_at: now,
-    };
+  /**
+   * Applies the given fields. With expectedVersions (from If-Match), the
+   * update only goes ahead while the task is at one of those versions.
+   */
+  async updateTask(
+    id: string,
+    updates: Partial<Task>,
+    context: RevisionContext = LOCAL,
+    expectedVersions?: number[],
+  ): Promise<Task | null> {
+    return this.db.transaction(async () => {
+      const existing = await this.db.get('SELECT * FROM tasks WHERE id = ? AND is_deleted = 0', [id]);
+      if (!existing || !this.owns(existing)) {
+        return null;
+      }
+      this.checkVersion(existing, expectedVersions);
+
+      // Fields left undefined keep their current value
+      const changes = Object.fromEntries(
+        Object.entries(updates).filter(([, value]) => value !== undefined),
+      );
+      const now = new Date();
+      const updatedTask: Task = {
+        ...this.toTask(existing),
+        ...changes,
+        hlc: await this.clock.tick(),
+        version: existing.version + 1,
+        updated_at: now,
+        sync_status: 'pending',
+      };
+      if (updatedTask.parent_id !== existing.parent_id) {
+        await this.checkParent(id, updatedTask.parent_id);
+      }
+
+      const updateQuery = `
+        UPDATE tasks
+        SET title = ?, description = ?, completed = ?, due_at = ?, priority = ?,
+          tags = ?, parent_id = ?, hlc = ?, version = version + 1, updated_at = ?,
+          sync_status = ?
+        WHERE id = ?
+      `;
+
+      const params = [
+        updatedTask.title,
+        updatedTask.description,
+        updatedTask.completed ? 1 : 0,
+        updatedTask.due_at ? new Date(updatedTask.due_at).toISOString() : null,
+        updatedTask.priority ?? 'normal',
+        JSON.stringify(updatedTask.tags ?? []),
+        updatedTask.parent_id ?? null,
+        updatedTask.hlc,
+        updatedTask.updated_at.toISOString(),
+        updatedTask.sync_status,
+        id,
+      ];
+
+      await this.db.run(updateQuery, params);
+      await this.recordChange(id);
+
+      await this.enqueue(id, 'update', updatedTask);
+      await this.revisions.record(updatedTask, 'update', context);
+      await this.notify('task.updated', id);
+
+      // Completing a task completes its subtasks, each as its own change
+      if (updatedTask.completed && !existing.completed) {
+        for (const child of await this.getChildren(id)) {
+          if (!child.completed) {
+            await this.updateTask(child.id, { completed: true }, context);
+          }
+        }
+      }
+
+      return updatedTask;
+    });
   }
 
-async deleteTask(id: string): Promise<boolean> {
-    const existing = await this.db.get('SELECT * FROM tasks WHERE id = ?', [id]);
-    if (!existing) {
-      return false;
-    }
-
-    const now = new Date();
-    const updateQuery = `
-      UPDATE tasks
-      SET is_deleted = 1, updated_at = ?, sync_status = 'pending'
-      WHERE id = ?
-    `;
-    await this.db.run(updateQuery, [now.toISOString(), id]);
+async deleteTask(
+    id: string,
+    context: RevisionContext = LOCAL,
+    expectedVersions?: number[],
+  ): Promise<boolean> {
+    return this.db.transaction(async () => {
+      const existing = await this.db.get('SELECT * FROM tasks WHERE id = ?', [id]);
+      // A task in the trash, or purged from it, is already deleted
+      if (!existing || existing.is_deleted || !this.owns(existing)) {
+        return false;
+      }
+      this.checkVersion(existing, expectedVersions);
+
+      const now = new Date();
+      const hlc = await this.clock.tick();
+      const updateQuery = `
+        UPDATE tasks
+        SET is_deleted = 1, hlc = ?, version = version + 1, updated_at = ?,
+          sync_status = 'pending'
+        WHERE id = ?
+      `;
+      await this.db.run(updateQuery, [hlc, now.toISOString(), id]);
+      await this.recordChange(id);
+
+      const deletedSnapshot: Task = {
+        ...this.toTask(existing),
+        is_deleted: true,
+        hlc,
+        version: existing.version + 1,
+        updated_at: now,
+        sync_status: 'pending',
+      };
+
+      await this.enqueue(id, 'delete', deletedSnapshot);
+      await this.revisions.record(deletedSnapshot, 'delete', context);
+      await this.notify('task.deleted', id);
+
+      // Subtasks go with their parent, each queued after it
+      for (const child of await this.getChildren(id)) {
+        await this.deleteTask(child.id, context);
+      }
+
+      return true;
+    });
+  }
 
-    const deletedSnapshot: Task = {
-      ...existing,
-      is_deleted: true,
-      updated_at: now,
-      sync_status: 'pending',
-    };
+  /** Deleted tasks that can still be restored, the latest deleted first */
+  async getTrash(): Promise<Task[]> {
+    const [owned, ownerParams] = this.ownerScope();
+    const rows = await this.db.all(
+      `SELECT * FROM tasks
+       WHERE is_deleted = 1 AND purged_at IS NULL AND ${owned}
+       ORDER BY updated_at DESC, id ASC`,
+      ownerParams,
+    );
+    return rows.map((row) => this.toTask(row));
+  }
 
-    const queueInsert = `
-      INSERT INTO sync_queue (operation_type, task_snapshot, attempts, status)
-      VALUES (?, ?, ?, ?)
-    `;
-    await this.db.run(queueInsert, [
-      'delete',
-      JSON.stringify({
-        ...deletedSnapshot,
-        created_at: new Date(existing.created_at).toISOString(),
-        updated_at: now.toISOString(),
-      }),
-      0,
-      'pending',
-    ]);
+  /**
+   * Takes a task out of the trash. The un-delete is queued as an update
+   * with is_deleted false, and like any write it only beats a delete from
+   * another device when it is the later version. Subtasks deleted with
+   * the task stay in the trash.
+   */
+  async restoreTask(id: string): Promise<Task | null> {
+    return this.db.transaction(async () => {
+      const existing = await this.getTrashed(id);
+      if (!existing) {
+        return null;
+      }
+
+      const now = new Date();
+      const restored: Task = {
+        ...this.toTask(existing),
+        is_deleted: false,
+        hlc: await this.clock.tick(),
+        version: existing.version + 1,
+        updated_at: now,
+        sync_status: 'pending',
+      };
+      await this.db.run(
+        `UPDATE tasks
+         SET is_deleted = 0, hlc = ?, version = version + 1, updated_at = ?,
+           sync_status = 'pending'
+         WHERE id = ?`,
+        [restored.hlc, now.toISOString(), id],
+      );
+      await this.recordChange(id);
+
+      await this.enqueue(id, 'update', restored);
+      await this.revisions.record(restored, 'update', LOCAL);
+      await this.notify('task.updated', id);
+      return restored;
+    });
+  }
 
-    return true;
+  /**
+   * Removes a task from the trash for good. Its tombstone is kept until
+   * every device has seen the delete (see TombstoneService), so the
+   * task cannot come back from a device that missed it.
+   */
+  async purgeTask(id: string): Promise<boolean> {
+    return this.db.transaction(async () => {
+      if (!(await this.getTrashed(id))) {
+        return false;
+      }
+      await this.db.run('UPDATE tasks SET purged_at = ? WHERE id = ?', [
+        new Date().toISOString(),
+        id,
+      ]);
+      await this.tombstones.collect(id);
+      return true;
+    });
   }
 
-async getTask(id: string): Promise<Task | null> {
+async getTask(id: string, includeDeleted: boolean = false): Promise<Task | null> {
 
   const query = `SELECT * FROM tasks WHERE id = ?`;
   const row = await this.db.get(query, [id]);
 
-  if (!row || row.is_deleted) {
+  if (!row || (row.is_deleted && !includeDeleted) || !this.owns(row)) {
     return null;
   }
 
-  const task: Task = {
-    ...row,
-    created_at: new Date(row.created_at),
-    updated_at: new Date(row.updated_at),
-    last_synced_at: row.last_synced_at ? new Date(row.last_synced_at) : undefined,
-    completed: !!row.completed,
-    is_deleted: !!row.is_deleted,
-  };
-
-  return task;
+  return this.toTask(row);
 }
 
 async getAllTasks(): Promise<Task[]> {
+    const [owned, ownerParams] = this.ownerScope();
     const query = `
       SELECT * FROM tasks
-      WHERE is_deleted = 0
+      WHERE is_deleted = 0 AND ${owned}
       ORDER BY updated_at DESC
     `;
-    const rows = await this.db.all(query);
+    const rows = await this.db.all(query, ownerParams);
 
-    const tasks: Task[] = rows.map((row: any) => ({
-      ...row,
-      created_at: new Date(row.created_at),
-      updated_at: new Date(row.updated_at),
-      last_synced_at: row.last_synced_at ? new Date(row.last_synced_at) : undefined,
-      completed: !!row.completed,
-      is_deleted: !!row.is_deleted,
-    }));
+    return rows.map((row: any) => this.toTask(row));
+  }
 
-    return tasks;
+  /**
+   * Every task, oldest first, read a page at a time so an export does not
+   * hold them all in memory. Purged tasks are never included.
+   */
+  async *exportTasks(includeDeleted = false): AsyncGenerator<Task> {
+    const [owned, ownerParams] = this.ownerScope();
+    const deleted = includeDeleted ? '1 = 1' : 'is_deleted = 0';
+    let after: [string, string] = ['', ''];
+    for (;;) {
+      const rows = await this.db.all(
+        `SELECT * FROM tasks
+         WHERE ${deleted} AND purged_at IS NULL AND ${owned}
+           AND (created_at > ? OR (created_at = ? AND id > ?))
+         ORDER BY created_at ASC, id ASC
+         LIMIT ${EXPORT_PAGE_SIZE}`,
+        [...ownerParams, after[0], after[0], after[1]],
+      );
+      for (const row of rows) {
+        yield this.toTask(row);
+      }
+      if (rows.length < EXPORT_PAGE_SIZE) {
+        return;
+      }
+      const last = rows[rows.length - 1];
+      after = [last.created_at, last.id];
+    }
+  }
+
+  /**
+   * Filtered, sorted page of non-deleted tasks. Pages are keyed on the sort
+   * value and id of the last task returned, so tasks written between two
+   * requests do not shift later pages.
+   */
+  async queryTasks(query: TaskQuery = {}): Promise<TaskPage> {
+    const sort = query.sort ?? 'updated_at';
+    const order = query.order ?? 'desc';
+    const limit = query.limit ?? 50;
+
+    const [owned, ownerParams] = this.ownerScope();
+    const clauses = ['is_deleted = 0', owned];
+    const params: any[] = [...ownerParams];
+
+    if (query.completed !== undefined) {
+      clauses.push('completed = ?');
+      params.push(query.completed ? 1 : 0);
+    }
+    if (query.sync_status) {
+      clauses.push('sync_status = ?');
+      params.push(query.sync_status);
+    }
+    if (query.priority) {
+      clauses.push('priority = ?');
+      params.push(query.priority);
+    }
+    if (query.tag) {
+      clauses.push('EXISTS (SELECT 1 FROM json_each(tasks.tags) WHERE value = ?)');
+      params.push(query.tag);
+    }
+    const ranges: [keyof TaskQuery, string][] = [
+      ['created_after', 'created_at >= ?'],
+      ['created_before', 'created_at < ?'],
+      ['updated_after', 'updated_at >= ?'],
+      ['updated_before', 'updated_at < ?'],
+      ['due_after', 'due_at >= ?'],
+      ['due_before', 'due_at < ?'],
+    ];
+    for (const [key, clause] of ranges) {
+      const value = query[key];
+      if (value instanceof Date) {
+        clauses.push(clause);
+        params.push(value.toISOString());
+      }
+    }
+    const match = query.q ? toMatchQuery(query.q) : null;
+    if (match) {
+      clauses.push(
+        'id IN (SELECT task_id FROM tasks_fts WHERE tasks_fts MATCH ?)',
+      );
+      params.push(match);
+    }
+    if (query.cursor) {
+      const [value, id] = this.decodeCursor(query.cursor, sort, order);
+      const op = order === 'asc' ? '>' : '<';
+      clauses.push(`(${sort} ${op} ? OR (${sort} = ? AND id ${op} ?))`);
+      params.push(value, value, id);
+    }
+
+    const rows = await this.db.all(
+      `SELECT * FROM tasks
+       WHERE ${clauses.join(' AND ')}
+       ORDER BY ${sort} ${order.toUpperCase()}, id ${order.toUpperCase()}
+       LIMIT ?`,
+      [...params, limit + 1],
+    );
+
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+    return {
+      items: page.map((row) => this.toTask(row)),
+      next_cursor:
+        rows.length > limit
+          ? this.encodeCursor(last[sort], last.id, sort, order)
+          : null,
+    };
+  }
+
+  /** Direct subtasks of a task, oldest first */
+  async getChildren(parentId: string): Promise<Task[]> {
+    const [owned, ownerParams] = this.ownerScope();
+    const rows = await this.db.all(
+      `SELECT * FROM tasks
+       WHERE parent_id = ? AND is_deleted = 0 AND ${owned}
+       ORDER BY created_at ASC, id ASC`,
+      [parentId, ...ownerParams],
+    );
+    return rows.map((row) => this.toTask(row));
+  }
+
+  /**
+   * Non-deleted tasks as a tree: the subtree under rootId, or every top
+   * level task when no root is given. A task whose parent is deleted or
+   * unknown is shown at the top level rather than hidden.
+   */
+  async getTaskTree(rootId?: string): Promise<TaskTreeNode[]> {
+    const [owned, ownerParams] = this.ownerScope();
+    const rows = await this.db.all(
+      `SELECT * FROM tasks
+       WHERE is_deleted = 0 AND ${owned}
+       ORDER BY created_at ASC, id ASC`,
+      ownerParams,
+    );
+    const nodes = new Map<string, TaskTreeNode>(
+      rows.map((row) => [row.id, { ...this.toTask(row), children: [] }]),
+    );
+
+    const roots: TaskTreeNode[] = [];
+    for (const node of nodes.values()) {
+      const parent = node.parent_id ? nodes.get(node.parent_id) : undefined;
+      if (parent) {
+        parent.children.push(node);
+      } else {
+        roots.push(node);
+      }
+    }
+
+    if (rootId === undefined) {
+      return roots;
+    }
+    const root = nodes.get(rootId);
+    return root ? [root] : [];
+  }
+
+  /** Open tasks whose due date has passed, the most overdue first */
+  async getOverdueTasks(now: Date = new Date()): Promise<Task[]> {
+    const [owned, ownerParams] = this.ownerScope();
+    const rows = await this.db.all(
+      `SELECT * FROM tasks
+       WHERE is_deleted = 0 AND completed = 0 AND due_at < ? AND ${owned}
+       ORDER BY due_at ASC, id ASC`,
+      [now.toISOString(), ...ownerParams],
+    );
+    return rows.map((row) => this.toTask(row));
+  }
+
+  /** Every tag on a non-deleted task, with how many tasks carry it */
+  async getTagCounts(): Promise<TagCount[]> {
+    const [owned, ownerParams] = this.ownerScope();
+    return this.db.all(
+      `SELECT tag.value AS tag, COUNT(*) AS count
+       FROM tasks, json_each(tasks.tags) AS tag
+       WHERE tasks.is_deleted = 0 AND ${owned}
+       GROUP BY tag.value
+       ORDER BY count DESC, tag ASC`,
+      ownerParams,
+    );
   }
 
   async getTasksNeedingSync(): Promise<Task[]> {
@@ -212,16 +560,7 @@ async getAllTasks(): Promise<Task[]> {
   `;
   const rows = await this.db.all(query);
 
-  const tasks: Task[] = rows.map((row: any) => ({
-    ...row,
-    created_at: new Date(row.created_at),
-    updated_at: new Date(row.updated_at),
-    last_synced_at: row.last_synced_at ? new Date(row.last_synced_at) : undefined,
-    completed: !!row.completed,
-    is_deleted: !!row.is_deleted,
-  }));
-
-  return tasks;
+  return rows.map((row: any) => this.toTask(row));
 }
 
 async markTaskAsSynced(taskId: string): Promise<void> {
@@ -238,5 +577,334 @@ async markTaskAsSynced(taskId: string): Promise<void> {
   await this.db.run(query, [now, now, taskId]);
 }
 
+  /**
+   * Stores a version of a task that came from the other side of a sync,
+   * keeping its timestamps as-is. Unlike the CRUD methods this does not
+   * enqueue anything, otherwise applied changes would be echoed back. A
+   * revision is recorded only when the content changed, so a device's own
+   * change coming back does not appear twice in the history.
+   */
+  async applyRemoteTask(
+    task: Task,
+    source: RevisionSource = 'remote',
+  ): Promise<void> {
+    const now = new Date().toISOString();
+
+    await this.db.transaction(async () => {
+      const existing = await this.db.get('SELECT * FROM tasks WHERE id = ?', [
+        task.id,
+      ]);
+      // The version counts this database's writes, including ones that
+      // only move the HLC, so the remote copy's version is not taken over.
+      // Neither is the owner: the other side may know the task under
+      // another account
+      await this.db.run(
+        `
+        INSERT INTO tasks (
+          id, title, description, completed, is_deleted, due_at, priority, tags,
+          parent_id, owner_id, hlc, created_at, updated_at, sync_status,
+          server_id, last_synced_at
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'synced', ?, ?)
+        ON CONFLICT(id) DO UPDATE SET
+          title = excluded.title,
+          description = excluded.description,
+          completed = excluded.completed,
+          is_deleted = excluded.is_deleted,
+          due_at = excluded.due_at,
+          priority = excluded.priority,
+          tags = excluded.tags,
+          parent_id = excluded.parent_id,
+          hlc = excluded.hlc,
+          version = tasks.version + 1,
+          purged_at = CASE WHEN excluded.is_deleted THEN tasks.purged_at END,
+          updated_at = excluded.updated_at,
+          sync_status = excluded.sync_status,
+          server_id = COALESCE(excluded.server_id, tasks.server_id),
+          last_synced_at = excluded.last_synced_at
+      `,
+        [
+          task.id,
+          task.title,
+          task.description ?? '',
+          task.completed ? 1 : 0,
+          task.is_deleted ? 1 : 0,
+          task.due_at ? new Date(task.due_at).toISOString() : null,
+          task.priority ?? 'normal',
+          JSON.stringify(task.tags ?? []),
+          task.parent_id ?? null,
+          task.owner_id ?? this.ownerId ?? null,
+          task.hlc ?? null,
+          new Date(task.created_at).toISOString(),
+          new Date(task.updated_at).toISOString(),
+          task.server_id ?? null,
+          now,
+        ],
+      );
+      await this.recordChange(task.id);
+      await this.clock.observe(task.hlc);
+
+      const operation: SyncOperation = !existing
+        ? 'create'
+        : task.is_deleted && !existing.is_deleted
+          ? 'delete'
+          : 'update';
+      const changed =
+        !existing ||
+        Object.keys(
+          diffSnapshots(snapshotOf(this.toTask(existing)), snapshotOf(task)),
+        ).length > 0;
+      if (changed) {
+        await this.revisions.record(task, operation, { source });
+      }
+      await this.notify(`task.${operation}d`, task.id);
+    });
+  }
+
+  /**
+   * Makes a version chosen during conflict resolution the local state and
+   * enqueues it like a normal edit, so it is pushed on the next sync.
+   */
+  async applyResolvedVersion(
+    id: string,
+    version: Partial<Task>,
+  ): Promise<Task | null> {
+    return this.db.transaction(async () => {
+      if (version.is_deleted) {
+        // Nothing to do when the task is deleted already
+        await this.deleteTask(id, RESOLUTION);
+        return this.getTask(id, true);
+      }
+
+      // Only the owner's task comes back, so another user's stays deleted
+      const [owned, ownerParams] = this.ownerScope();
+      await this.db.run(
+        `UPDATE tasks SET is_deleted = 0 WHERE id = ? AND ${owned}`,
+        [id, ...ownerParams],
+      );
+      return this.updateTask(
+        id,
+        {
+          title: version.title,
+          description: version.description,
+          completed: version.completed,
+          due_at: version.due_at,
+          priority: version.priority,
+          tags: version.tags,
+          parent_id: version.parent_id,
+        },
+        RESOLUTION,
+      );
+    });
+  }
+
+  /** Revisions of a task, newest first, with what each one changed */
+  async getHistory(
+    id: string,
+    limit?: number,
+    offset?: number,
+  ): Promise<TaskHistoryPage | null> {
+    const task = await this.getTask(id, true);
+    return task ? this.revisions.list(id, limit, offset) : null;
+  }
+
+  /**
+   * Brings back the content of an earlier revision as a new edit, synced
+   * like any other. The task keeps its current parent. Returns null when
+   * the task is missing or deleted, or has no such revision.
+   */
+  async restoreRevision(id: string, revision: number): Promise<Task | null> {
+    return this.db.transaction(async () => {
+      const task = await this.getTask(id);
+      const target = task && (await this.revisions.get(id, revision));
+      if (!target) {
+        return null;
+      }
+
+      const { snapshot } = target;
+      return this.updateTask(
+        id,
+        {
+          title: snapshot.title,
+          description: snapshot.description,
+          completed: snapshot.completed,
+          due_at: snapshot.due_at ? new Date(snapshot.due_at) : null,
+          priority: snapshot.priority,
+          tags: snapshot.tags,
+        },
+        { source: 'local', restored_from: revision },
+      );
+    });
+  }
+
+  /**
+   * Tasks changed after the given change sequence number, oldest first.
+   * The returned cursor is the sequence number of the last change included.
+   */
+  async getChangesSince(
+    since: number,
+    limit: number = 100,
+  ): Promise<ChangesResponse> {
+    const [owned, ownerParams] = this.ownerScope();
+    const changed = await this.db.all(
+      `SELECT task_id, MAX(seq) as seq FROM task_changes
+       WHERE seq > ?
+         AND task_id IN (SELECT id FROM tasks WHERE ${owned})
+       GROUP BY task_id
+       ORDER BY seq ASC
+       LIMIT ?`,
+      [since, ...ownerParams, limit + 1],
+    );
+
+    const page = changed.slice(0, limit);
+    const changes: Task[] = [];
+    for (const { task_id } of page) {
+      const task = await this.getTask(task_id, true);
+      if (task) {
+        changes.push(task);
+      }
+    }
+
+    return {
+      changes,
+      cursor: page.length ? String(page[page.length - 1].seq) : String(since),
+      has_more: changed.length > limit,
+    };
+  }
+
+  private async enqueue(
+    taskId: string,
+    operation: SyncOperation,
+    snapshot: Task,
+  ): Promise<void> {
+    await this.db.run(
+      `INSERT INTO sync_queue (id, task_id, operation, data, created_at, hlc, retry_count)
+       VALUES (?, ?, ?, ?, ?, ?, 0)`,
+      [
+        uuidv4(),
+        taskId,
+        operation,
+        JSON.stringify({
+          ...snapshot,
+          created_at: new Date(snapshot.created_at).toISOString(),
+          updated_at: new Date(snapshot.updated_at).toISOString(),
+        }),
+        new Date().toISOString(),
+        snapshot.hlc,
+      ],
+    );
+  }
 
+  private encodeCursor(
+    value: unknown,
+    id: string,
+    sort: string,
+    order: string,
+  ): string {
+    return Buffer.from(JSON.stringify([value, id, sort, order])).toString(
+      'base64url',
+    );
+  }
+
+  // A cursor is only valid for the sort it was issued for
+  private decodeCursor(
+    cursor: string,
+    sort: string,
+    order: string,
+  ): [unknown, string] {
+    try {
+      const [value, id, cursorSort, cursorOrder] = JSON.parse(
+        Buffer.from(cursor, 'base64url').toString(),
+      );
+      if (cursorSort === sort && cursorOrder === order && typeof id === 'string') {
+        return [value, id];
+      }
+    } catch {
+      // fall through to the error below
+    }
+    throw new InvalidCursorError();
+  }
+
+  // The parent must be a live task, and not the task itself or one of
+  // its own subtasks
+  private async checkParent(
+    id: string,
+    parentId: string | null | undefined,
+  ): Promise<void> {
+    let current = parentId;
+    while (current) {
+      if (current === id) {
+        throw new InvalidParentError('A task cannot be nested under itself');
+      }
+      const parent = await this.db.get(
+        'SELECT parent_id, is_deleted, owner_id FROM tasks WHERE id = ?',
+        [current],
+      );
+      if (
+        !parent ||
+        !this.owns(parent) ||
+        (current === parentId && parent.is_deleted)
+      ) {
+        throw new InvalidParentError('Parent task not found');
+      }
+      current = parent.parent_id;
+    }
+  }
+
+  private checkVersion(row: any, expectedVersions?: number[]): void {
+    if (expectedVersions && !expectedVersions.includes(row.version)) {
+      throw new StaleVersionError(this.toTask(row));
+    }
+  }
+
+  private async getTrashed(id: string): Promise<any> {
+    const row = await this.db.get(
+      'SELECT * FROM tasks WHERE id = ? AND is_deleted = 1 AND purged_at IS NULL',
+      [id],
+    );
+    return row && this.owns(row) ? row : null;
+  }
+
+  // SQL condition and parameters limiting a query to the owner's tasks
+  private ownerScope(): [string, string[]] {
+    return this.ownerId === undefined
+      ? ['1 = 1', []]
+      : ['owner_id = ?', [this.ownerId]];
+  }
+
+  private owns(row: { owner_id?: string | null }): boolean {
+    return this.ownerId === undefined || row.owner_id === this.ownerId;
+  }
+
+  // Published only once the surrounding transaction commits
+  private async notify(
+    type: 'task.created' | 'task.updated' | 'task.deleted',
+    id: string,
+  ): Promise<void> {
+    const task = await this.getTask(id, true);
+    if (task) {
+      this.db.afterCommit(() => this.events.publish(type, task));
+    }
+  }
+
+  private async recordChange(taskId: string): Promise<void> {
+    await this.db.run('INSERT INTO task_changes (task_id) VALUES (?)', [
+      taskId,
+    ]);
+  }
+
+  private toTask(row: any): Task {
+    return {
+      ...row,
+      created_at: new Date(row.created_at),
+      updated_at: new Date(row.updated_at),
+      last_synced_at: row.last_synced_at ? new Date(row.last_synced_at) : undefined,
+      purged_at: row.purged_at ? new Date(row.purged_at) : null,
+      completed: !!row.completed,
+      is_deleted: !!row.is_deleted,
+      due_at: row.due_at ? new Date(row.due_at) : null,
+      priority: row.priority ?? 'normal',
+      tags: typeof row.tags === 'string' ? JSON.parse(row.tags) : (row.tags ?? []),
+    };
+  }
 }
\ No newline at end of file
@@ -0,0 +1,130 @@
+import { Database } from '../db/database';
+
+export interface TombstoneServiceOptions {
+  /** How long a deleted task stays in the trash before it may be removed */
+  retentionMs?: number;
+  /** Time between background collections */
+  intervalMs?: number;
+  now?: () => number;
+}
+
+/**
+ * Removes tombstones, the rows soft-deleted tasks leave behind, once no
+ * device can still need them. A tombstone is only removed when
+ *
+ * - it has been in the trash longer than the retention period, or was
+ *   purged from it,
+ * - its delete has been pushed upstream (nothing queued for the task), and
+ * - every device known to pull from this database has pulled past it,
+ *
+ * so a device that has not seen the delete cannot bring the task back.
+ */
+export class TombstoneService {
+  private retentionMs: number;
+  private intervalMs: number;
+  private now: () => number;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private db: Database,
+    options: TombstoneServiceOptions = {},
+  ) {
+    this.retentionMs =
+      options.retentionMs ??
+      parseInt(process.env.TOMBSTONE_RETENTION_MS || '2592000000', 10);
+    this.intervalMs =
+      options.intervalMs ??
+      parseInt(process.env.TOMBSTONE_GC_INTERVAL_MS || '3600000', 10);
+    this.now = options.now ?? (() => Date.now());
+  }
+
+  /**
+   * Records that a device has pulled every change up to `seq`. A device
+   * becomes known on its first pull and holds back collection from then on.
+   */
+  async acknowledge(
+    deviceId: string,
+    ownerId: string | null,
+    seq: number,
+  ): Promise<void> {
+    await this.db.run(
+      `INSERT INTO sync_devices (device_id, owner_id, acked_seq, last_seen_at)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT(device_id) DO UPDATE SET
+         owner_id = excluded.owner_id,
+         acked_seq = MAX(acked_seq, excluded.acked_seq),
+         last_seen_at = excluded.last_seen_at`,
+      [deviceId, ownerId, seq, new Date(this.now()).toISOString()],
+    );
+  }
+
+  /**
+   * Hard-deletes every tombstone that is safe to remove, or only the given
+   * task's. Returns how many tasks were removed.
+   */
+  async collect(taskId?: string): Promise<number> {
+    const cutoff = new Date(this.now() - this.retentionMs).toISOString();
+
+    return this.db.transaction(async () => {
+      const rows = await this.db.all(
+        `SELECT id FROM tasks
+         WHERE is_deleted = 1
+           AND (purged_at IS NOT NULL OR updated_at < ?)
+           ${taskId ? 'AND id = ?' : ''}
+           AND NOT EXISTS (SELECT 1 FROM sync_queue WHERE task_id = tasks.id)
+           AND NOT EXISTS (
+             SELECT 1 FROM sync_devices
+             WHERE owner_id IS tasks.owner_id
+               AND acked_seq < (
+                 SELECT COALESCE(MAX(seq), 0) FROM task_changes
+                 WHERE task_id = tasks.id
+               )
+           )`,
+        taskId ? [cutoff, taskId] : [cutoff],
+      );
+
+      for (const { id } of rows) {
+        for (const table of [
+          'task_changes',
+          'task_revisions',
+          'task_base_snapshots',
+          'sync_conflicts',
+        ]) {
+          await this.db.run(`DELETE FROM ${table} WHERE task_id = ?`, [id]);
+        }
+        await this.db.run('DELETE FROM task_client_ids WHERE server_id = ?', [
+          id,
+        ]);
+        await this.db.run('DELETE FROM tasks WHERE id = ?', [id]);
+      }
+      return rows.length;
+    });
+  }
+
+  /** Collects in the background every `intervalMs` */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      void this.run();
+    }, this.intervalMs);
+    // Never keep the process alive just to collect
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async run(): Promise<void> {
+    try {
+      await this.collect();
+    } catch (error) {
+      console.error('Tombstone collection failed:', error);
+    }
+  }
+}
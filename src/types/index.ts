@@ -6,25 +6,140 @@ export interface Task {
   created_at: Date;
   updated_at: Date;
   is_deleted: boolean;
-  sync_status?: 'pending' | 'synced' | 'error';
+  due_at?: Date | null;
+  priority?: TaskPriority;
+  tags?: string[];
+  /** The task this is a subtask of */
+  parent_id?: string | null;
+  /** The user the task belongs to; null for tasks from before accounts */
+  owner_id?: string | null;
+  /** Hybrid logical clock timestamp of the last write (see utils/hlc) */
+  hlc?: string | null;
+  /**
+   * Incremented on every write, and sent as the ETag. In a sync item it is
+   * the server version the change was made on (see BatchService).
+   */
+  version?: number;
+  /** When a deleted task was removed from the trash for good */
+  purged_at?: Date | null;
+  sync_status?: SyncStatus;
   server_id?: string;
   last_synced_at?: Date;
 }
 
+export type TaskPriority = 'low' | 'normal' | 'high' | 'urgent';
+
+export type SyncStatus = 'pending' | 'in-progress' | 'synced' | 'error' | 'failed';
+
+export type SyncOperation = 'create' | 'update' | 'delete';
+
+export type TaskSortField = 'created_at' | 'updated_at' | 'title';
+
+export interface TaskQuery {
+  completed?: boolean;
+  sync_status?: SyncStatus;
+  created_after?: Date;
+  created_before?: Date;
+  updated_after?: Date;
+  updated_before?: Date;
+  due_after?: Date;
+  due_before?: Date;
+  priority?: TaskPriority;
+  /** Tasks carrying this tag */
+  tag?: string;
+  /** Full-text search over title and description */
+  q?: string;
+  sort?: TaskSortField;
+  order?: 'asc' | 'desc';
+  limit?: number;
+  cursor?: string;
+}
+
+export interface TaskPage {
+  items: Task[];
+  /** Pass as `cursor` to get the next page; null on the last page */
+  next_cursor: string | null;
+}
+
+/**
+ * How a bulk request handles a failing item: 'atomic' applies nothing,
+ * 'best-effort' applies every other item.
+ */
+export type BulkMode = 'atomic' | 'best-effort';
+
+export type BulkOperation =
+  | { operation: 'create'; data: Partial<Task> }
+  | { operation: 'update'; id: string; data: Partial<Task> }
+  | { operation: 'delete'; id: string };
+
+export interface BulkItemResult {
+  /** Position of the operation in the request */
+  index: number;
+  operation: SyncOperation;
+  id?: string;
+  /** 'skipped' when an atomic request failed on another item */
+  status: 'success' | 'error' | 'skipped';
+  task?: Task;
+  error?: string;
+}
+
+export interface BulkResult {
+  mode: BulkMode;
+  succeeded: number;
+  failed: number;
+  results: BulkItemResult[];
+}
+
+/** A validated task from an import file */
+export interface ImportRecord {
+  /** Id in the file; an existing task with this id is updated */
+  id?: string;
+  /** Deleted tasks in an export are not imported */
+  is_deleted?: boolean;
+  fields: Partial<Task>;
+}
+
+export interface ImportItemResult {
+  /** Position of the task in the file */
+  index: number;
+  /** The task created, updated or matched */
+  id?: string;
+  status: 'created' | 'updated' | 'skipped' | 'error';
+  /** Why the task was skipped, or what was wrong with it */
+  reason?: string;
+}
+
+export interface ImportReport {
+  created: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+  results: ImportItemResult[];
+}
+
 export interface SyncQueueItem {
   id: string;
   task_id: string;
-  operation: 'create' | 'update' | 'delete';
+  operation: SyncOperation;
   data: Partial<Task>;
   created_at: Date;
+  /** When the operation happened; the queue is sent in this order */
+  hlc?: string;
   retry_count: number;
   error_message?: string;
+  next_attempt_at?: Date;
+  /**
+   * Sent with batch items; the same key and content get the result of
+   * the first attempt (see BatchService)
+   */
+  idempotency_key?: string;
 }
 
 export interface SyncResult {
   success: boolean;
   synced_items: number;
   failed_items: number;
+  pulled_items?: number;
   errors: SyncError[];
 }
 
@@ -35,13 +150,47 @@ export interface SyncError {
   timestamp: Date;
 }
 
+export type ConflictStrategy =
+  | 'last-write-wins'
+  | 'client-wins'
+  | 'server-wins'
+  | 'merge';
+
 export interface ConflictResolution {
-  strategy: 'last-write-wins' | 'client-wins' | 'server-wins';
+  strategy: ConflictStrategy;
   resolved_task: Task;
 }
 
+export interface SyncConflict {
+  id: string;
+  task_id: string;
+  // The owner of the task, who alone can see and resolve the conflict
+  owner_id: string | null;
+  server_id?: string;
+  local_version: Task;
+  remote_version: Task;
+  resolved_version: Task;
+  strategy: ConflictStrategy;
+  outcome: 'local' | 'remote' | 'merged';
+  created_at: Date;
+  manual_resolution?: 'local' | 'remote' | 'custom';
+  manually_resolved_at?: Date;
+}
+
+export interface SyncConflictPage {
+  items: SyncConflict[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export interface SyncOptions {
+  strategy?: ConflictStrategy;
+}
+
 export interface BatchSyncRequest {
   items: SyncQueueItem[];
+  checksum: string;
   client_timestamp: Date;
 }
 
@@ -52,5 +201,131 @@ export interface BatchSyncResponse {
     status: 'success' | 'conflict' | 'error';
     resolved_data?: Task;
     error?: string;
+    /**
+     * Set on errors the server will answer the same way however often the
+     * item is sent: 404 for a task it cannot find, 422 for an invalid item
+     */
+    status_code?: number;
   }[];
-}
\ No newline at end of file
+}
+
+export interface ChangesResponse {
+  changes: Task[];
+  cursor: string;
+  has_more: boolean;
+}
+
+export interface DeadLetterItem {
+  id: string;
+  task_id: string;
+  owner_id: string | null;
+  operation: 'create' | 'update' | 'delete';
+  data: Partial<Task>;
+  error_message: string;
+  failed_at: Date;
+}
+
+export interface DeadLetterFilter {
+  task_id?: string;
+  operation?: 'create' | 'update' | 'delete';
+}
+
+export interface DeadLetterPage {
+  items: DeadLetterItem[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export interface SyncItemEvent {
+  task_id: string;
+  owner_id: string | null;
+  operation: SyncOperation;
+  status: 'success' | 'conflict' | 'error';
+  error?: string;
+}
+
+/** A sync run over one owner's tasks, or over tasks without an owner */
+export interface SyncStartedEvent {
+  owner_id: string | null;
+  queue_size: number;
+}
+
+export interface SyncCompletedEvent extends SyncResult {
+  owner_id: string | null;
+}
+
+/** Payload carried by each event type on the live change feed */
+export interface ServerEventPayloads {
+  'task.created': Task;
+  'task.updated': Task;
+  'task.deleted': Task;
+  'sync.started': SyncStartedEvent;
+  'sync.item': SyncItemEvent;
+  'sync.completed': SyncCompletedEvent;
+  'dlq.added': DeadLetterItem;
+  // The requested Last-Event-ID is no longer buffered, so clients must
+  // refetch their state instead of relying on the replay
+  'stream.reset': { last_event_id: number };
+}
+
+export type ServerEventType = keyof ServerEventPayloads;
+
+export interface ServerEvent<K extends ServerEventType = ServerEventType> {
+  id: number;
+  type: K;
+  data: ServerEventPayloads[K];
+  created_at: Date;
+}
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+export interface TaskTreeNode extends Task {
+  children: TaskTreeNode[];
+}
+
+export interface User {
+  id: string;
+  username: string;
+  created_at: Date;
+}
+
+export interface AuthSession {
+  user: User;
+  /** Bearer token for the Authorization header */
+  token: string;
+  expires_at: Date;
+}
+
+/** Where a change came from: this device, sync, or a conflict resolution */
+export type RevisionSource = 'local' | 'remote' | 'conflict-resolution';
+
+export interface TaskRevision {
+  task_id: string;
+  /** Numbered from 1 per task */
+  revision: number;
+  operation: SyncOperation;
+  source: RevisionSource;
+  /** Device that made the change, when known */
+  device_id: string | null;
+  hlc: string | null;
+  /** The revision this one brought back, for restores */
+  restored_from: number | null;
+  snapshot: Partial<Task>;
+  created_at: Date;
+}
+
+export interface TaskHistoryEntry extends Omit<TaskRevision, 'snapshot'> {
+  /** Fields that differ from the previous revision */
+  changes: Record<string, { from: unknown; to: unknown }>;
+}
+
+export interface TaskHistoryPage {
+  items: TaskHistoryEntry[];
+  total: number;
+  limit: number;
+  offset: number;
+}
@@ -0,0 +1,70 @@
+import crypto from 'crypto';
+
+export interface TokenClaims {
+  /** Id of the user the token was issued to */
+  sub: string;
+  /** Issue and expiry times, in seconds since the epoch */
+  iat: number;
+  exp: number;
+}
+
+const HEADER = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+
+/** Issues a JWT signed with HMAC-SHA256 */
+export function signToken(
+  userId: string,
+  secret: string,
+  ttlSeconds: number,
+  now: number = Date.now(),
+): string {
+  const iat = Math.floor(now / 1000);
+  const claims: TokenClaims = { sub: userId, iat, exp: iat + ttlSeconds };
+  const unsigned = `${HEADER}.${base64url(JSON.stringify(claims))}`;
+  return `${unsigned}.${sign(unsigned, secret)}`;
+}
+
+/**
+ * Claims of a token signed with `secret`, or null when the token is
+ * malformed, was signed with another key or algorithm, or has expired.
+ */
+export function verifyToken(
+  token: string,
+  secret: string,
+  now: number = Date.now(),
+): TokenClaims | null {
+  const [header, payload, signature, ...rest] = token.split('.');
+  if (header !== HEADER || !payload || !signature || rest.length) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(`${header}.${payload}`, secret));
+  const actual = Buffer.from(signature);
+  if (
+    expected.length !== actual.length ||
+    !crypto.timingSafeEqual(expected, actual)
+  ) {
+    return null;
+  }
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    if (
+      typeof claims.sub !== 'string' ||
+      typeof claims.exp !== 'number' ||
+      claims.exp <= Math.floor(now / 1000)
+    ) {
+      return null;
+    }
+    return claims;
+  } catch {
+    return null;
+  }
+}
+
+function sign(data: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(data).digest('base64url');
+}
+
+function base64url(text: string): string {
+  return Buffer.from(text).toString('base64url');
+}
@@ -0,0 +1,16 @@
+import crypto from 'crypto';
+
+/**
+ * Checksum over the ids and payloads of a sync batch. The client sends it
+ * with every batch and the server recomputes it before processing
+ * (CHALLENGE_CONSTRAINTS.BATCH_INTEGRITY).
+ */
+export function calculateBatchChecksum(
+  items: { id: string; data: unknown }[],
+): string {
+  const dataString = items
+    .map((item) => item.id + JSON.stringify(item.data))
+    .join('');
+
+  return crypto.createHash('sha256').update(dataString).digest('hex');
+}
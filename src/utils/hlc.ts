@@ -0,0 +1,129 @@
+import { SyncOperation } from '../types';
+import { CHALLENGE_CONSTRAINTS } from './challenge-constraints';
+
+/**
+ * Hybrid logical clock timestamp: wall time in milliseconds, a counter
+ * that orders events within the same millisecond, and the device that
+ * produced it.
+ */
+export interface Hlc {
+  wallTime: number;
+  counter: number;
+  deviceId: string;
+}
+
+const MAX_COUNTER = 0xffff;
+const HLC_PATTERN =
+  /^(\d{4}-\d\d-\d\dT\d\d:\d\d:\d\d\.\d{3}Z)-([0-9a-f]{4})-(.*)$/;
+
+/**
+ * Formats as `<ISO wall time>-<counter, 4 hex digits>-<device id>`, so
+ * timestamps from the same device sort correctly as plain strings.
+ */
+export function formatHlc(hlc: Hlc): string {
+  const counter = hlc.counter.toString(16).padStart(4, '0');
+  return `${new Date(hlc.wallTime).toISOString()}-${counter}-${hlc.deviceId}`;
+}
+
+export function parseHlc(value: string): Hlc | null {
+  const match = HLC_PATTERN.exec(value);
+  if (!match) {
+    return null;
+  }
+  return {
+    wallTime: Date.parse(match[1]),
+    counter: parseInt(match[2], 16),
+    deviceId: match[3],
+  };
+}
+
+/**
+ * Stand-in for versions written before HLCs existed: their wall-clock time,
+ * from no device, so any real timestamp at the same time orders after it.
+ */
+export function legacyHlc(time: Date | string | number | undefined): Hlc {
+  const wallTime = new Date(time ?? 0).getTime();
+  return {
+    wallTime: Number.isNaN(wallTime) ? 0 : wallTime,
+    counter: 0,
+    deviceId: '',
+  };
+}
+
+/** The timestamp for a local event, given the last one issued */
+export function nextHlc(last: Hlc, now: number): Hlc {
+  if (now > last.wallTime) {
+    return { wallTime: now, counter: 0, deviceId: last.deviceId };
+  }
+  return bump(last.wallTime, last.counter + 1, last.deviceId);
+}
+
+/** The clock state after receiving a remote timestamp */
+export function mergeHlc(last: Hlc, remote: Hlc, now: number): Hlc {
+  const wallTime = Math.max(last.wallTime, remote.wallTime, now);
+  if (wallTime === last.wallTime && wallTime === remote.wallTime) {
+    return bump(
+      wallTime,
+      Math.max(last.counter, remote.counter) + 1,
+      last.deviceId,
+    );
+  }
+  if (wallTime === last.wallTime) {
+    return bump(wallTime, last.counter + 1, last.deviceId);
+  }
+  if (wallTime === remote.wallTime) {
+    return bump(wallTime, remote.counter + 1, last.deviceId);
+  }
+  return { wallTime, counter: 0, deviceId: last.deviceId };
+}
+
+/** Orders by time only; timestamps from different devices may tie */
+export function compareHlcTime(a: Hlc, b: Hlc): number {
+  return a.wallTime - b.wallTime || a.counter - b.counter;
+}
+
+/** Total order: by time, then by device id */
+export function compareHlc(a: Hlc, b: Hlc): number {
+  return (
+    compareHlcTime(a, b) ||
+    (a.deviceId < b.deviceId ? -1 : a.deviceId > b.deviceId ? 1 : 0)
+  );
+}
+
+export interface VersionStamp {
+  /** HLC of the write; versions without one fall back to updated_at */
+  hlc?: string | null;
+  updated_at?: Date | string;
+  operation: SyncOperation;
+}
+
+/**
+ * Positive when `a` is the later version. Versions are ordered by HLC
+ * time; at the same time the higher priority operation wins
+ * (CHALLENGE_CONSTRAINTS.CONFLICT_PRIORITY), and the device id settles
+ * whatever is left, so every device picks the same winner.
+ */
+export function compareVersions(a: VersionStamp, b: VersionStamp): number {
+  const aHlc = stampOf(a);
+  const bHlc = stampOf(b);
+  const priority = CHALLENGE_CONSTRAINTS.CONFLICT_PRIORITY;
+
+  return (
+    compareHlcTime(aHlc, bHlc) ||
+    priority[a.operation] - priority[b.operation] ||
+    compareHlc(aHlc, bHlc)
+  );
+}
+
+function stampOf(version: VersionStamp): Hlc {
+  return (
+    (version.hlc && parseHlc(version.hlc)) || legacyHlc(version.updated_at)
+  );
+}
+
+// A counter past its 4 digits moves into the next millisecond instead
+function bump(wallTime: number, counter: number, deviceId: string): Hlc {
+  return counter > MAX_COUNTER
+    ? { wallTime: wallTime + 1, counter: 0, deviceId }
+    : { wallTime, counter, deviceId };
+}
@@ -0,0 +1,226 @@
+/**
+ * Builds the OpenAPI 3.1 document from the route specs each router exports
+ * next to its handlers. Parameters and bodies are described by the same
+ * schemas that validate them (see utils/validation), so the document
+ * cannot drift from what the routes accept.
+ */
+import { JsonSchema, Schema } from './validation';
+
+export type HttpMethod = 'get' | 'post' | 'put' | 'delete';
+
+export interface ResponseSpec {
+  description: string;
+  /** Body schema for each content type the response can have */
+  content?: Record<string, Schema<unknown>>;
+  /** Headers sent with the response, with what each holds */
+  headers?: Record<string, string>;
+}
+
+export interface RouteSpec {
+  method: HttpMethod;
+  /** Express path, relative to where the router is mounted */
+  path: string;
+  /** Method name in generated clients */
+  operationId: string;
+  summary: string;
+  description?: string;
+  /** Reachable without a bearer token */
+  public?: boolean;
+  params?: Schema<unknown>;
+  query?: Schema<unknown>;
+  /** Request body schema for each content type accepted */
+  body?: Record<string, Schema<unknown>>;
+  /** A missing body is read as an empty one */
+  bodyOptional?: boolean;
+  /** Request headers the route reads, with what each does */
+  headers?: Record<string, string>;
+  responses: Record<number, ResponseSpec>;
+}
+
+export interface RouteGroup {
+  /** Where the router is mounted, below the server URL */
+  prefix: string;
+  tag: string;
+  routes: RouteSpec[];
+}
+
+export interface OpenApiOptions {
+  title: string;
+  version: string;
+  /** Server URL the group prefixes are relative to */
+  serverUrl: string;
+  /** Body of every error response the routes do not describe themselves */
+  errorSchema: Schema<unknown>;
+}
+
+export const JSON_TYPE = 'application/json';
+
+/** A JSON response */
+export function json(
+  description: string,
+  schema: Schema<unknown>,
+  headers?: Record<string, string>,
+): ResponseSpec {
+  return { description, content: { [JSON_TYPE]: schema }, headers };
+}
+
+/** `/tasks/:id` as OpenAPI writes it, `/tasks/{id}` */
+export function openApiPath(prefix: string, path: string): string {
+  const full = (prefix + path).replace(/\/$/, '') || '/';
+  return full.replace(/:(\w+)/g, '{$1}');
+}
+
+export function buildOpenApiDocument(
+  groups: RouteGroup[],
+  options: OpenApiOptions,
+): JsonSchema {
+  const components: Record<string, JsonSchema> = {};
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+  const error = (description: string) =>
+    response(json(description, options.errorSchema), components);
+
+  for (const group of groups) {
+    for (const route of group.routes) {
+      const responses: Record<string, JsonSchema> = {};
+      for (const [status, spec] of Object.entries(route.responses)) {
+        responses[status] = response(spec, components);
+      }
+      // Responses every route can give, from the middleware around it
+      if ((route.params || route.query || route.body) && !responses[422]) {
+        responses[422] = error('The request is invalid');
+      }
+      if (!route.public) {
+        responses[401] = error('No valid bearer token was sent');
+      }
+      responses[500] ??= error('The server failed');
+
+      const operation: JsonSchema = {
+        operationId: route.operationId,
+        summary: route.summary,
+        description: route.description,
+        tags: [group.tag],
+        security: route.public ? [] : undefined,
+        parameters: parameters(route, components),
+        requestBody: route.body && {
+          required: !route.bodyOptional,
+          content: content(route.body, components),
+        },
+        responses,
+      };
+      const path = openApiPath(group.prefix, route.path);
+      paths[path] = {
+        ...paths[path],
+        [route.method]: withoutUndefined(operation),
+      };
+    }
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: { title: options.title, version: options.version },
+    servers: [{ url: options.serverUrl }],
+    security: [{ bearerAuth: [] }],
+    paths,
+    components: {
+      schemas: withoutUndefined(components),
+      securitySchemes: { bearerAuth: { type: 'http', scheme: 'bearer' } },
+    },
+  };
+}
+
+function parameters(
+  route: RouteSpec,
+  components: Record<string, JsonSchema>,
+): JsonSchema[] | undefined {
+  const result: JsonSchema[] = [];
+  const params = route.params ? fieldsOf(route.params, components) : {};
+  for (const [, name] of route.path.matchAll(/:(\w+)/g)) {
+    result.push({
+      name,
+      in: 'path',
+      required: true,
+      schema: params[name]?.schema ?? { type: 'string' },
+    });
+  }
+  if (route.query) {
+    for (const [name, field] of Object.entries(
+      fieldsOf(route.query, components),
+    )) {
+      result.push({ name, in: 'query', ...field });
+    }
+  }
+  for (const [name, description] of Object.entries(route.headers ?? {})) {
+    result.push({
+      name,
+      in: 'header',
+      description,
+      schema: { type: 'string' },
+    });
+  }
+  return result.length > 0 ? result : undefined;
+}
+
+/** The fields of an object schema, as parameters describe them */
+function fieldsOf(
+  schema: Schema<unknown>,
+  components: Record<string, JsonSchema>,
+): Record<string, { required: boolean; schema: JsonSchema }> {
+  const { properties = {}, required = [] } = schema.jsonSchema(components) as {
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+  };
+  return Object.fromEntries(
+    Object.entries(properties).map(([name, property]) => [
+      name,
+      { required: required.includes(name), schema: withoutUndefined(property) },
+    ]),
+  );
+}
+
+function response(
+  spec: ResponseSpec,
+  components: Record<string, JsonSchema>,
+): JsonSchema {
+  return withoutUndefined({
+    description: spec.description,
+    headers:
+      spec.headers &&
+      Object.fromEntries(
+        Object.entries(spec.headers).map(([name, description]) => [
+          name,
+          { description, schema: { type: 'string' } },
+        ]),
+      ),
+    content: spec.content && content(spec.content, components),
+  });
+}
+
+function content(
+  bodies: Record<string, Schema<unknown>>,
+  components: Record<string, JsonSchema>,
+): JsonSchema {
+  return Object.fromEntries(
+    Object.entries(bodies).map(([type, schema]) => [
+      type,
+      { schema: withoutUndefined(schema.jsonSchema(components)) },
+    ]),
+  );
+}
+
+/**
+ * Schemas leave out keywords that do not apply as undefined; they are
+ * dropped so the document reads the same in memory as it does as JSON.
+ */
+function withoutUndefined<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(withoutUndefined) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, entry]) => entry !== undefined)
+        .map(([key, entry]) => [key, withoutUndefined(entry)]),
+    ) as T;
+  }
+  return value;
+}
@@ -0,0 +1,144 @@
+import { SyncQueueItem, Task } from '../types';
+
+export interface CoalescedQueue {
+  /** Surviving items, in chronological order */
+  items: SyncQueueItem[];
+  /** Ids of queue rows folded into another item or dropped outright */
+  removed: string[];
+}
+
+/**
+ * Collapses each task's queued operations before they are sent. Items keep
+ * the id, created_at, hlc and retry state of the earliest operation they
+ * absorb, so the queue order (CHALLENGE_CONSTRAINTS.SYNC_ORDER) is unchanged:
+ *
+ * - create + updates becomes one create with the latest snapshot
+ * - consecutive updates become the latest update
+ * - updates + delete becomes one delete
+ * - create ... delete drops out when the create was never sent, and a
+ *   restore after it is sent as the create. A create already attempted
+ *   may have reached the server with only its response lost, so it is
+ *   sent again and followed by the delete
+ *
+ * Anything after a delete starts a new item, since it cannot be folded
+ * into the delete without changing what the server applies.
+ */
+export function coalesceQueue(items: SyncQueueItem[]): CoalescedQueue {
+  const sorted = [...items].sort(compareQueueItems);
+  const open = new Map<string, SyncQueueItem>();
+  const kept: SyncQueueItem[] = [];
+  const removed: string[] = [];
+  // Tasks whose create and delete cancelled out
+  const dropped = new Set<string>();
+
+  for (const item of sorted) {
+    const current = open.get(item.task_id);
+    const merged = current && fold(current, item);
+
+    if (!current || merged === undefined) {
+      const copy = { ...item };
+      if (dropped.delete(item.task_id) && copy.operation === 'update') {
+        copy.operation = 'create';
+      }
+      open.set(item.task_id, copy);
+      kept.push(copy);
+      continue;
+    }
+
+    removed.push(item.id);
+    if (merged === null) {
+      kept.splice(kept.indexOf(current), 1);
+      removed.push(current.id);
+      open.delete(item.task_id);
+      dropped.add(item.task_id);
+    } else {
+      current.operation = merged.operation;
+      current.data = merged.data;
+    }
+  }
+
+  return { items: kept, removed };
+}
+
+/**
+ * Splits the queue into batches of at most `size` items without separating
+ * a task's operations, unless a single task has more than `size` of them.
+ * Tasks are placed by their earliest operation, so batches stay in
+ * chronological order.
+ */
+export function batchByTask(
+  items: SyncQueueItem[],
+  size: number,
+): SyncQueueItem[][] {
+  const groups = new Map<string, SyncQueueItem[]>();
+  for (const item of [...items].sort(compareQueueItems)) {
+    const group = groups.get(item.task_id);
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(item.task_id, [item]);
+    }
+  }
+
+  const batches: SyncQueueItem[][] = [];
+  let batch: SyncQueueItem[] = [];
+  for (const group of groups.values()) {
+    if (batch.length > 0 && batch.length + group.length > size) {
+      batches.push(batch);
+      batch = [];
+    }
+    for (const item of group) {
+      if (batch.length >= size) {
+        batches.push(batch);
+        batch = [];
+      }
+      batch.push(item);
+    }
+  }
+  if (batch.length > 0) {
+    batches.push(batch);
+  }
+
+  return batches;
+}
+
+/**
+ * Result of appending `next` to `current`: the combined operation, null
+ * when both cancel out, or undefined when they cannot be combined.
+ */
+function fold(
+  current: SyncQueueItem,
+  next: SyncQueueItem,
+): Pick<SyncQueueItem, 'operation' | 'data'> | null | undefined {
+  const data = { ...current.data, ...next.data };
+
+  if (current.operation === 'create') {
+    if (next.operation === 'update') {
+      return { operation: 'create', data };
+    }
+    if (next.operation === 'delete') {
+      return wasSent(current, data) ? undefined : null;
+    }
+  }
+
+  if (current.operation === 'update') {
+    if (next.operation === 'update' || next.operation === 'delete') {
+      return { operation: next.operation, data };
+    }
+  }
+
+  return undefined;
+}
+
+// Whether the server may already have applied the item
+function wasSent(item: SyncQueueItem, data: Partial<Task>): boolean {
+  return item.retry_count > 0 || !!data.server_id;
+}
+
+// By HLC, which stays in order when the device clock jumps back
+function compareQueueItems(a: SyncQueueItem, b: SyncQueueItem): number {
+  if (a.hlc && b.hlc) {
+    return a.hlc < b.hlc ? -1 : a.hlc > b.hlc ? 1 : 0;
+  }
+  return new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+}
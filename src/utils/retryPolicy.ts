@@ -0,0 +1,99 @@
+export interface RetryPolicy {
+  /** Attempts before an item is moved to the dead letter queue */
+  maxAttempts: number;
+  /** Delay before the first retry; doubled on every further attempt */
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface ErrorClassification {
+  transient: boolean;
+  /** Delay the server asked for through Retry-After */
+  retryAfterMs?: number;
+  /**
+   * The server refused the credentials (401 or 403). No item can sync
+   * until they are fixed, so this is no reason to give up on any of them.
+   */
+  unauthorized?: boolean;
+}
+
+export function retryPolicyFromEnv(): RetryPolicy {
+  return {
+    maxAttempts: positiveInt(process.env.SYNC_RETRY_ATTEMPTS, 3),
+    baseDelayMs: positiveInt(process.env.SYNC_BACKOFF_BASE_MS, 1000),
+    maxDelayMs: positiveInt(process.env.SYNC_BACKOFF_MAX_MS, 300000),
+  };
+}
+
+/**
+ * Exponential backoff with jitter for the given failed attempt (1-based).
+ * The delay is drawn from the upper half of the exponential step, so
+ * retries from many clients spread out without ever retrying early.
+ */
+export function backoffDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  random: () => number = Math.random,
+): number {
+  const exponential = policy.baseDelayMs * 2 ** Math.max(attempt - 1, 0);
+  const capped = Math.min(exponential, policy.maxDelayMs);
+  return Math.round(capped / 2 + (random() * capped) / 2);
+}
+
+/**
+ * Network failures, timeouts, 5xx, 408 and 429 are worth retrying, and so
+ * are 401 and 403 once the credentials are fixed. Any other 4xx means the
+ * server rejected the request itself, and sending it again will not
+ * change that, and the same goes for the items of a batch the server
+ * rejects with a 4xx `status_code`. Errors carrying no status are treated
+ * as transient.
+ */
+export function classifySyncError(error: unknown): ErrorClassification {
+  const status = statusOf(error);
+
+  if (status === undefined || status >= 500 || status === 408) {
+    return { transient: true };
+  }
+  if (status === 401 || status === 403) {
+    return { transient: true, unauthorized: true };
+  }
+  if (status === 429) {
+    return { transient: true, retryAfterMs: retryAfterOf(error) };
+  }
+  return { transient: status < 400 };
+}
+
+function statusOf(error: unknown): number | undefined {
+  let current: any = error;
+  while (current) {
+    const status = current.response?.status ?? current.statusCode;
+    if (typeof status === 'number') {
+      return status;
+    }
+    current = current.cause;
+  }
+  return undefined;
+}
+
+function retryAfterOf(error: unknown): number | undefined {
+  let current: any = error;
+  while (current && !current.response) {
+    current = current.cause;
+  }
+  const header = current?.response?.headers?.['retry-after'];
+  if (header === undefined || header === null || header === '') {
+    return undefined;
+  }
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(seconds * 1000, 0);
+  }
+  const date = Date.parse(String(header));
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+function positiveInt(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value ?? '', 10);
+  return parsed > 0 ? parsed : fallback;
+}
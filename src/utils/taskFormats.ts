@@ -0,0 +1,456 @@
+import { Task, TaskPriority } from '../types';
+
+export type TaskFormat = 'json' | 'csv' | 'ics';
+
+export const TASK_FORMATS: TaskFormat[] = ['json', 'csv', 'ics'];
+
+/** A task as read from an import file, before validation */
+export type RawTaskRecord = Record<string, unknown>;
+
+export class ImportFormatError extends Error {
+  statusCode = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportFormatError';
+  }
+}
+
+export interface ExportOptions {
+  /** Include deleted tasks, with an is_deleted field */
+  includeDeleted?: boolean;
+  /** Include sync_status, server_id, last_synced_at and hlc */
+  includeSync?: boolean;
+}
+
+/** Produces an export piece by piece, so it can be streamed */
+export interface ExportWriter {
+  contentType: string;
+  start(): string;
+  task(task: Task, index: number): string;
+  end(): string;
+}
+
+const CONTENT_FIELDS: (keyof Task)[] = [
+  'id',
+  'title',
+  'description',
+  'completed',
+  'due_at',
+  'priority',
+  'tags',
+  'parent_id',
+  'created_at',
+  'updated_at',
+];
+const SYNC_FIELDS: (keyof Task)[] = [
+  'sync_status',
+  'server_id',
+  'last_synced_at',
+  'hlc',
+];
+
+// iCalendar priorities run from 1 (highest) to 9 (lowest), 0 meaning none
+const ICS_PRIORITY: Record<TaskPriority, number> = {
+  urgent: 1,
+  high: 3,
+  normal: 5,
+  low: 9,
+};
+
+export function exportWriter(
+  format: TaskFormat,
+  options: ExportOptions = {},
+): ExportWriter {
+  const fields = [
+    ...CONTENT_FIELDS,
+    ...(options.includeDeleted ? (['is_deleted'] as (keyof Task)[]) : []),
+    ...(options.includeSync ? SYNC_FIELDS : []),
+  ];
+
+  switch (format) {
+    case 'json':
+      return {
+        contentType: 'application/json',
+        start: () => '[',
+        task: (task, index) =>
+          (index > 0 ? ',' : '') +
+          JSON.stringify(
+            Object.fromEntries(
+              fields.map((field) => [field, task[field] ?? null]),
+            ),
+          ),
+        end: () => ']',
+      };
+    case 'csv':
+      return {
+        contentType: 'text/csv',
+        start: () => csvRow(fields),
+        task: (task) => csvRow(fields.map((field) => csvValue(task[field]))),
+        end: () => '',
+      };
+    case 'ics': {
+      const stamp = icsDate(new Date());
+      return {
+        contentType: 'text/calendar',
+        start: () =>
+          icsLines([
+            'BEGIN:VCALENDAR',
+            'VERSION:2.0',
+            'PRODID:-//Task Sync API//EN',
+          ]),
+        task: (task) => icsLines(toVtodo(task, stamp, options)),
+        end: () => icsLines(['END:VCALENDAR']),
+      };
+    }
+  }
+}
+
+/**
+ * Reads the tasks in an import body. JSON is an array of tasks as exported;
+ * CSV needs a header row with at least a title column; iCalendar files are
+ * read for their VTODO components. Fields a CSV or iCalendar file has no
+ * value for are null or empty, so an import replaces them.
+ */
+export function parseImport(format: TaskFormat, body: unknown): RawTaskRecord[] {
+  if (format === 'json') {
+    let records = body;
+    if (typeof body === 'string') {
+      try {
+        records = JSON.parse(body);
+      } catch {
+        throw new ImportFormatError('Invalid JSON');
+      }
+    }
+    if (!Array.isArray(records)) {
+      throw new ImportFormatError('A JSON import must be an array of tasks');
+    }
+    return records;
+  }
+
+  if (typeof body !== 'string') {
+    throw new ImportFormatError(
+      format === 'csv'
+        ? 'Send CSV with Content-Type: text/csv'
+        : 'Send iCalendar with Content-Type: text/calendar',
+    );
+  }
+  return format === 'csv' ? fromCsv(body) : fromIcs(body);
+}
+
+// CSV (RFC 4180)
+
+function csvValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.join(';');
+  }
+  return String(value);
+}
+
+function csvRow(values: string[]): string {
+  return (
+    values
+      .map((value) =>
+        /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value,
+      )
+      .join(',') + '\r\n'
+  );
+}
+
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char !== '"') {
+        field += char;
+      } else if (text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else {
+        quoted = false;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw new ImportFormatError('Unterminated quoted field in CSV');
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell !== ''));
+}
+
+function fromCsv(text: string): RawTaskRecord[] {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  if (!header) {
+    return [];
+  }
+  const columns = header.map((name) => name.trim().toLowerCase());
+  if (!columns.includes('title')) {
+    throw new ImportFormatError('CSV needs a title column');
+  }
+
+  return rows.map((cells) => {
+    const cell = new Map(columns.map((name, i) => [name, cells[i] ?? '']));
+    // Only columns in the file are set; an empty cell clears the field
+    const column = <T>(name: string, read: (value: string) => T) =>
+      cell.has(name) ? read(cell.get(name)!) : undefined;
+
+    return {
+      id: column('id', (value) => value || undefined),
+      title: cell.get('title'),
+      description: column('description', (value) => value),
+      completed: column('completed', csvBoolean),
+      due_at: column('due_at', (value) => value || null),
+      priority: column('priority', (value) => value || 'normal'),
+      tags: column('tags', (value) =>
+        value
+          .split(';')
+          .map((tag) => tag.trim())
+          .filter(Boolean),
+      ),
+      parent_id: column('parent_id', (value) => value || null),
+      is_deleted: column('is_deleted', csvBoolean),
+    };
+  });
+}
+
+// Unrecognised values are kept, so validation reports them
+function csvBoolean(value: string): boolean | string {
+  const normalized = value.trim().toLowerCase();
+  if (['true', '1', 'yes', ''].includes(normalized)) {
+    return normalized !== '';
+  }
+  return ['false', '0', 'no'].includes(normalized) ? false : value;
+}
+
+// iCalendar (RFC 5545)
+
+function toVtodo(task: Task, stamp: string, options: ExportOptions): string[] {
+  const status = task.is_deleted
+    ? 'CANCELLED'
+    : task.completed
+      ? 'COMPLETED'
+      : 'NEEDS-ACTION';
+  const lines = [
+    'BEGIN:VTODO',
+    `UID:${task.id}`,
+    `DTSTAMP:${stamp}`,
+    `CREATED:${icsDate(task.created_at)}`,
+    `LAST-MODIFIED:${icsDate(task.updated_at)}`,
+    `SUMMARY:${icsText(task.title)}`,
+    `STATUS:${status}`,
+    `PRIORITY:${ICS_PRIORITY[task.priority ?? 'normal']}`,
+  ];
+  if (task.description) {
+    lines.push(`DESCRIPTION:${icsText(task.description)}`);
+  }
+  if (task.due_at) {
+    lines.push(`DUE:${icsDate(task.due_at)}`);
+  }
+  if (task.tags?.length) {
+    lines.push(`CATEGORIES:${task.tags.map(icsText).join(',')}`);
+  }
+  if (task.parent_id) {
+    lines.push(`RELATED-TO;RELTYPE=PARENT:${task.parent_id}`);
+  }
+  if (options.includeSync) {
+    lines.push(`X-SYNC-STATUS:${task.sync_status ?? ''}`);
+    if (task.server_id) {
+      lines.push(`X-SERVER-ID:${task.server_id}`);
+    }
+    if (task.last_synced_at) {
+      lines.push(`X-LAST-SYNCED-AT:${icsDate(task.last_synced_at)}`);
+    }
+    if (task.hlc) {
+      lines.push(`X-HLC:${task.hlc}`);
+    }
+  }
+  lines.push('END:VTODO');
+  return lines;
+}
+
+function icsDate(date: Date | string): string {
+  return new Date(date).toISOString().replace(/[-:]|\.\d{3}/g, '');
+}
+
+function parseIcsDate(value: string): string | null {
+  // Times with a TZID or no zone at all are read as UTC
+  const match = /^(\d{4})(\d\d)(\d\d)(?:T(\d\d)(\d\d)(\d\d)Z?)?$/.exec(value);
+  if (!match) {
+    return null;
+  }
+  const [, year, month, day, hour = '0', minute = '0', second = '0'] = match;
+  return new Date(
+    Date.UTC(+year, +month - 1, +day, +hour, +minute, +second),
+  ).toISOString();
+}
+
+function icsText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function parseIcsText(text: string): string {
+  return text.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === 'n' || char === 'N' ? '\n' : char,
+  );
+}
+
+// Lines longer than 75 octets are folded onto continuation lines
+function icsLines(lines: string[]): string {
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let part = '';
+  let size = 0;
+  for (const char of line) {
+    const charSize = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts towards the 75
+    if (size + charSize > (parts.length ? 74 : 75)) {
+      parts.push(part);
+      part = '';
+      size = 0;
+    }
+    part += char;
+    size += charSize;
+  }
+  parts.push(part);
+  return parts.join('\r\n ');
+}
+
+interface IcsProperty {
+  params: Record<string, string>;
+  value: string;
+}
+
+// NAME;PARAM=value:VALUE, where quoted parameter values may contain colons
+function parseIcsLine(line: string): [string, IcsProperty] | null {
+  let quoted = false;
+  let colon = -1;
+  for (let i = 0; i < line.length && colon < 0; i++) {
+    if (line[i] === '"') {
+      quoted = !quoted;
+    } else if (line[i] === ':' && !quoted) {
+      colon = i;
+    }
+  }
+  if (colon < 0) {
+    return null;
+  }
+  const [name, ...params] = line.slice(0, colon).split(';');
+  return [
+    name.toUpperCase(),
+    {
+      params: Object.fromEntries(
+        params.map((param) => {
+          const [key, value = ''] = param.split('=');
+          return [key.toUpperCase(), value.replace(/^"|"$/g, '')];
+        }),
+      ),
+      value: line.slice(colon + 1),
+    },
+  ];
+}
+
+function fromIcs(text: string): RawTaskRecord[] {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  if (!lines.some((line) => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new ImportFormatError('Not an iCalendar file');
+  }
+
+  const records: RawTaskRecord[] = [];
+  let todo: Map<string, IcsProperty[]> | null = null;
+  // Components nested in a VTODO, such as VALARM, are skipped
+  let nested = 0;
+
+  for (const line of lines) {
+    const parsed = parseIcsLine(line);
+    if (!parsed) {
+      continue;
+    }
+    const [name, property] = parsed;
+    const component = property.value.toUpperCase();
+
+    if (name === 'BEGIN' && component === 'VTODO' && !todo) {
+      todo = new Map();
+    } else if (name === 'END' && component === 'VTODO' && nested === 0) {
+      if (todo) {
+        records.push(fromVtodo(todo));
+      }
+      todo = null;
+    } else if (todo && name === 'BEGIN') {
+      nested++;
+    } else if (todo && name === 'END') {
+      nested--;
+    } else if (todo && nested === 0) {
+      todo.set(name, [...(todo.get(name) ?? []), property]);
+    }
+  }
+  return records;
+}
+
+function fromVtodo(props: Map<string, IcsProperty[]>): RawTaskRecord {
+  const value = (name: string) => props.get(name)?.[0]?.value;
+  const status = value('STATUS')?.toUpperCase();
+  const due = value('DUE');
+  const priority = parseInt(value('PRIORITY') ?? '0', 10);
+  const parent = props
+    .get('RELATED-TO')
+    ?.find((p) => (p.params.RELTYPE ?? 'PARENT').toUpperCase() === 'PARENT');
+
+  return {
+    id: value('UID') || undefined,
+    title: value('SUMMARY') !== undefined ? parseIcsText(value('SUMMARY')!) : undefined,
+    description: parseIcsText(value('DESCRIPTION') ?? ''),
+    completed: status === 'COMPLETED' || props.has('COMPLETED'),
+    is_deleted: status === 'CANCELLED',
+    // An unreadable date is passed on as-is, so validation reports it
+    due_at: due ? (parseIcsDate(due) ?? due) : null,
+    priority:
+      priority >= 1 && priority <= 2
+        ? 'urgent'
+        : priority >= 3 && priority <= 4
+          ? 'high'
+          : priority >= 6 && priority <= 9
+            ? 'low'
+            : 'normal',
+    tags: (props.get('CATEGORIES') ?? [])
+      .flatMap((p) => p.value.split(/(?<!\\),/))
+      .map((tag) => parseIcsText(tag).trim())
+      .filter(Boolean),
+    parent_id: parent?.value || null,
+  };
+}
@@ -0,0 +1,501 @@
+/**
+ * Declarative request validation. A schema reads an untrusted value (a
+ * JSON body or a query string) into a typed one, collecting every problem
+ * with the path of the field it is in, so clients can show each error
+ * next to the form field it belongs to. Every schema can also describe
+ * itself as JSON Schema, for the OpenAPI document (see utils/openapi).
+ */
+
+export const VALIDATION_CODES = [
+  'required',
+  'invalid_type',
+  'invalid_value',
+  'invalid_date',
+  'too_short',
+  'too_long',
+  'too_small',
+  'too_large',
+  'unknown_field',
+] as const;
+
+export type ValidationCode = (typeof VALIDATION_CODES)[number];
+
+/** What is wrong with one field of a request */
+export interface FieldError {
+  /**
+   * Path to the field, e.g. `tags[2]` or `items[0].data.title`; empty
+   * when the request as a whole is wrong
+   */
+  field: string;
+  code: ValidationCode;
+  message: string;
+}
+
+export class ValidationError extends Error {
+  statusCode = 422;
+
+  constructor(public errors: FieldError[]) {
+    super('Validation failed');
+    this.name = 'ValidationError';
+  }
+}
+
+export type JsonSchema = { [keyword: string]: unknown };
+
+/**
+ * Reads a value found at `field`. Problems are added to `errors`; the
+ * value returned only means something when none were added.
+ */
+export interface Schema<T> {
+  parse(value: unknown, field: string, errors: FieldError[]): T;
+  /** Named schemas are added to `components` and referenced */
+  jsonSchema(components: Record<string, JsonSchema>): JsonSchema;
+}
+
+/** A schema for an object field that may be left out */
+export interface OptionalSchema<T> extends Schema<T | undefined> {
+  optional: true;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+
+type ObjectOf<S extends Shape> = {
+  [K in keyof S as S[K] extends OptionalSchema<unknown> ? never : K]: Infer<
+    S[K]
+  >;
+} & {
+  [K in keyof S as S[K] extends OptionalSchema<unknown> ? K : never]?: Infer<
+    S[K]
+  >;
+};
+
+function fail(
+  errors: FieldError[],
+  field: string,
+  code: ValidationCode,
+  problem: string,
+): void {
+  errors.push({ field, code, message: `${field || 'Request'} ${problem}` });
+}
+
+function child(field: string, key: string): string {
+  return field ? `${field}.${key}` : key;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Reads a request with a schema, throwing a ValidationError listing every
+ * problem with it
+ */
+export function validate<T>(schema: Schema<T>, value: unknown): T {
+  const result = check(schema, value);
+  if ('errors' in result) {
+    throw new ValidationError(result.errors);
+  }
+  return result.value;
+}
+
+/** Like validate, but returns the problems instead of throwing them */
+export function check<T>(
+  schema: Schema<T>,
+  value: unknown,
+): { value: T } | { errors: FieldError[] } {
+  const errors: FieldError[] = [];
+  const parsed = schema.parse(value, '', errors);
+  return errors.length > 0 ? { errors } : { value: parsed };
+}
+
+export function string(
+  options: {
+    min?: number;
+    max?: number;
+    trim?: boolean;
+    pattern?: RegExp;
+  } = {},
+): Schema<string> {
+  return {
+    parse(value, field, errors) {
+      if (typeof value !== 'string') {
+        fail(errors, field, 'invalid_type', 'must be a string');
+        return '';
+      }
+      const text = options.trim ? value.trim() : value;
+      if (options.min !== undefined && text.length < options.min) {
+        fail(
+          errors,
+          field,
+          'too_short',
+          options.min === 1
+            ? 'must not be empty'
+            : `must be at least ${options.min} characters`,
+        );
+      } else if (options.max !== undefined && text.length > options.max) {
+        fail(
+          errors,
+          field,
+          'too_long',
+          `must be at most ${options.max} characters`,
+        );
+      } else if (options.pattern && !options.pattern.test(text)) {
+        fail(errors, field, 'invalid_value', 'is not in a valid format');
+      }
+      return text;
+    },
+    jsonSchema: () => ({
+      type: 'string',
+      minLength: options.min,
+      maxLength: options.max,
+      pattern: options.pattern?.source,
+    }),
+  };
+}
+
+/**
+ * A boolean. With `coerce`, the strings 'true' and 'false' are read too,
+ * as a query string carries them.
+ */
+export function boolean(options: { coerce?: boolean } = {}): Schema<boolean> {
+  return {
+    parse(value, field, errors) {
+      if (options.coerce && (value === 'true' || value === 'false')) {
+        return value === 'true';
+      }
+      if (typeof value !== 'boolean') {
+        fail(errors, field, 'invalid_type', 'must be true or false');
+        return false;
+      }
+      return value;
+    },
+    jsonSchema: () => ({ type: 'boolean' }),
+  };
+}
+
+/** An integer. With `coerce`, one written as a string is read too */
+export function integer(
+  options: { min?: number; max?: number; coerce?: boolean } = {},
+): Schema<number> {
+  return {
+    parse(value, field, errors) {
+      const number =
+        options.coerce && typeof value === 'string' && /^-?\d+$/.test(value)
+          ? Number(value)
+          : value;
+      if (typeof number !== 'number' || !Number.isInteger(number)) {
+        fail(errors, field, 'invalid_type', 'must be an integer');
+        return 0;
+      }
+      if (options.min !== undefined && number < options.min) {
+        fail(errors, field, 'too_small', `must be at least ${options.min}`);
+      } else if (options.max !== undefined && number > options.max) {
+        fail(errors, field, 'too_large', `must be at most ${options.max}`);
+      }
+      return number;
+    },
+    jsonSchema: () => ({
+      type: 'integer',
+      minimum: options.min,
+      maximum: options.max,
+    }),
+  };
+}
+
+/** An ISO 8601 date string (or a Date, for in-process callers) */
+export function date(): Schema<Date> {
+  return {
+    parse(value, field, errors) {
+      const parsed =
+        value instanceof Date
+          ? value
+          : typeof value === 'string'
+            ? new Date(value)
+            : null;
+      if (!parsed || Number.isNaN(parsed.getTime())) {
+        fail(errors, field, 'invalid_date', 'must be an ISO 8601 date');
+        return new Date(NaN);
+      }
+      return parsed;
+    },
+    jsonSchema: () => ({ type: 'string', format: 'date-time' }),
+  };
+}
+
+export function oneOf<T extends string>(values: readonly T[]): Schema<T> {
+  return {
+    parse(value, field, errors) {
+      if (!values.includes(value as T)) {
+        fail(
+          errors,
+          field,
+          'invalid_value',
+          `must be one of: ${values.join(', ')}`,
+        );
+      }
+      return value as T;
+    },
+    jsonSchema: () => ({ type: 'string', enum: [...values] }),
+  };
+}
+
+/**
+ * A list. With `unique`, repeated items are dropped before the length is
+ * checked.
+ */
+export function array<T>(
+  item: Schema<T>,
+  options: { min?: number; max?: number; unique?: boolean } = {},
+): Schema<T[]> {
+  return {
+    parse(value, field, errors) {
+      if (!Array.isArray(value)) {
+        fail(errors, field, 'invalid_type', 'must be an array');
+        return [];
+      }
+      const parsed = value.map((entry, index) =>
+        item.parse(entry, `${field}[${index}]`, errors),
+      );
+      const items = options.unique ? [...new Set(parsed)] : parsed;
+      if (options.min !== undefined && items.length < options.min) {
+        fail(
+          errors,
+          field,
+          'too_short',
+          `must have at least ${options.min} items`,
+        );
+      } else if (options.max !== undefined && items.length > options.max) {
+        fail(
+          errors,
+          field,
+          'too_long',
+          `must have at most ${options.max} items`,
+        );
+      }
+      return items;
+    },
+    jsonSchema: (components) => ({
+      type: 'array',
+      items: item.jsonSchema(components),
+      minItems: options.min,
+      maxItems: options.max,
+    }),
+  };
+}
+
+/**
+ * An object with the fields in `shape`. Fields are required unless their
+ * schema is optional(); fields not in the shape are rejected, and fields
+ * left out stay out of the result.
+ */
+export function object<S extends Shape>(shape: S): Schema<ObjectOf<S>> {
+  return {
+    parse(value, field, errors) {
+      if (!isObject(value)) {
+        fail(errors, field, 'invalid_type', 'must be an object');
+        return {} as ObjectOf<S>;
+      }
+      const result: Record<string, unknown> = {};
+      for (const key of Object.keys(value)) {
+        if (!Object.hasOwn(shape, key)) {
+          fail(
+            errors,
+            child(field, key),
+            'unknown_field',
+            'is not a known field',
+          );
+        }
+      }
+      for (const [key, schema] of Object.entries(shape)) {
+        if (value[key] === undefined) {
+          if (!(schema as Partial<OptionalSchema<unknown>>).optional) {
+            fail(errors, child(field, key), 'required', 'is required');
+          }
+          continue;
+        }
+        result[key] = schema.parse(value[key], child(field, key), errors);
+      }
+      return result as ObjectOf<S>;
+    },
+    jsonSchema(components) {
+      const required = Object.entries(shape)
+        .filter(
+          ([, schema]) =>
+            !(schema as Partial<OptionalSchema<unknown>>).optional,
+        )
+        .map(([key]) => key);
+      return {
+        type: 'object',
+        properties: Object.fromEntries(
+          Object.entries(shape).map(([key, schema]) => [
+            key,
+            schema.jsonSchema(components),
+          ]),
+        ),
+        required: required.length > 0 ? required : undefined,
+        additionalProperties: false,
+      };
+    },
+  };
+}
+
+/** An object with any keys, each holding a `value` */
+export function record<T>(value: Schema<T>): Schema<Record<string, T>> {
+  return {
+    parse(input, field, errors) {
+      if (!isObject(input)) {
+        fail(errors, field, 'invalid_type', 'must be an object');
+        return {};
+      }
+      return Object.fromEntries(
+        Object.entries(input).map(([key, entry]) => [
+          key,
+          value.parse(entry, child(field, key), errors),
+        ]),
+      );
+    },
+    jsonSchema: (components) => ({
+      type: 'object',
+      additionalProperties: value.jsonSchema(components),
+    }),
+  };
+}
+
+/** Any value at all */
+export function unknown(): Schema<unknown> {
+  return { parse: (value) => value, jsonSchema: () => ({}) };
+}
+
+/**
+ * An object whose shape depends on the value of one field, such as a bulk
+ * operation's `operation`
+ */
+export function variants<
+  K extends string,
+  V extends Record<string, Schema<object>>,
+>(
+  key: K,
+  shapes: V,
+): Schema<{ [T in keyof V]: { [P in K]: T } & Infer<V[T]> }[keyof V]> {
+  const names = Object.keys(shapes);
+  return {
+    parse(value, field, errors) {
+      if (!isObject(value)) {
+        fail(errors, field, 'invalid_type', 'must be an object');
+        return {} as never;
+      }
+      const { [key]: name, ...rest } = value;
+      if (typeof name !== 'string' || !Object.hasOwn(shapes, name)) {
+        fail(
+          errors,
+          child(field, key),
+          name === undefined ? 'required' : 'invalid_value',
+          `must be one of: ${names.join(', ')}`,
+        );
+        return {} as never;
+      }
+      return {
+        [key]: name,
+        ...shapes[name].parse(rest, field, errors),
+      } as never;
+    },
+    jsonSchema: (components) => ({
+      oneOf: names.map((name) => {
+        const variant = shapes[name].jsonSchema(components);
+        return {
+          ...variant,
+          properties: { [key]: { const: name }, ...(variant.properties ?? {}) },
+          required: [key, ...((variant.required as string[]) ?? [])],
+        };
+      }),
+    }),
+  };
+}
+
+export function optional<T>(schema: Schema<T>): OptionalSchema<T> {
+  return {
+    optional: true,
+    parse: schema.parse,
+    jsonSchema: schema.jsonSchema,
+  };
+}
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    parse: (value, field, errors) =>
+      value === null ? null : schema.parse(value, field, errors),
+    jsonSchema: (components) => ({
+      anyOf: [schema.jsonSchema(components), { type: 'null' }],
+    }),
+  };
+}
+
+/** A value matching any of the schemas; the first that reads it wins */
+export function anyOf<T>(...schemas: Schema<T>[]): Schema<T> {
+  return {
+    parse(value, field, errors) {
+      let best: FieldError[] | undefined;
+      for (const schema of schemas) {
+        const problems: FieldError[] = [];
+        const parsed = schema.parse(value, field, problems);
+        if (problems.length === 0) {
+          return parsed;
+        }
+        best ??= problems;
+      }
+      // Reported as the first schema saw it
+      errors.push(...(best ?? []));
+      return value as T;
+    },
+    jsonSchema: (components) => ({
+      anyOf: schemas.map((schema) => schema.jsonSchema(components)),
+    }),
+  };
+}
+
+/**
+ * A schema shared by many others, described once under `name` in the
+ * OpenAPI components. `get` is called lazily, so a schema can contain
+ * itself.
+ */
+export function named<T>(name: string, get: () => Schema<T>): Schema<T> {
+  return {
+    parse: (value, field, errors) => get().parse(value, field, errors),
+    jsonSchema(components) {
+      if (!(name in components)) {
+        // Claimed first, so a schema that refers to itself stops here
+        components[name] = {};
+        components[name] = get().jsonSchema(components);
+      }
+      return { $ref: `#/components/schemas/${name}` };
+    },
+  };
+}
+
+/**
+ * Adds a check across fields, run once the value is otherwise valid.
+ * `report` takes a path relative to the value.
+ */
+export function refine<T>(
+  schema: Schema<T>,
+  check: (
+    value: T,
+    report: (field: string, code: ValidationCode, problem: string) => void,
+  ) => void,
+): Schema<T> {
+  return {
+    parse(value, field, errors) {
+      const before = errors.length;
+      const parsed = schema.parse(value, field, errors);
+      if (errors.length === before) {
+        check(parsed, (path, code, problem) =>
+          fail(errors, path ? child(field, path) : field, code, problem),
+        );
+      }
+      return parsed;
+    },
+    jsonSchema: schema.jsonSchema,
+  };
+}
@@ -0,0 +1,212 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import { Database } from '../src/db/database';
+import {
+  AuthService,
+  InvalidAccountError,
+  InvalidCredentialsError,
+  UsernameTakenError,
+} from '../src/services/authService';
+import { TaskService } from '../src/services/taskService';
+import { requireAuth } from '../src/middleware/auth';
+import { createAuthRouter } from '../src/routes/auth';
+import { createTaskRouter } from '../src/routes/tasks';
+import { createEventRouter } from '../src/routes/events';
+import { signToken, verifyToken } from '../src/utils/authToken';
+
+describe('AuthService', () => {
+  let db: Database;
+  let authService: AuthService;
+
+  beforeEach(async () => {
+    db = new Database(':memory:');
+    await db.initialize();
+    authService = new AuthService(db, { secret: 'test-secret' });
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('should register, sign in and authenticate a user', async () => {
+    const registered = await authService.register('alice', 'correct horse');
+    expect(registered.user.username).toBe('alice');
+
+    const session = await authService.login('alice', 'correct horse');
+    expect(await authService.authenticate(session.token)).toEqual(
+      registered.user,
+    );
+    const row = await db.get('SELECT password_hash FROM users');
+    expect(row.password_hash).not.toContain('correct horse');
+  });
+
+  it('should reject bad credentials and duplicate or invalid accounts', async () => {
+    await authService.register('alice', 'correct horse');
+
+    await expect(
+      authService.login('alice', 'wrong horse'),
+    ).rejects.toBeInstanceOf(InvalidCredentialsError);
+    await expect(
+      authService.login('bob', 'correct horse'),
+    ).rejects.toBeInstanceOf(InvalidCredentialsError);
+    await expect(
+      authService.register('ALICE', 'another one'),
+    ).rejects.toBeInstanceOf(UsernameTakenError);
+    await expect(
+      authService.register('al', 'long enough'),
+    ).rejects.toBeInstanceOf(InvalidAccountError);
+    await expect(authService.register('carol', 'short')).rejects.toBeInstanceOf(
+      InvalidAccountError,
+    );
+  });
+
+  it('should reject tampered, foreign and expired tokens', async () => {
+    const { token, user } = await authService.register(
+      'alice',
+      'correct horse',
+    );
+    const [header, , signature] = token.split('.');
+    const forged = Buffer.from(
+      JSON.stringify({ sub: 'someone-else', iat: 0, exp: 9999999999 }),
+    ).toString('base64url');
+
+    expect(
+      await authService.authenticate(`${header}.${forged}.${signature}`),
+    ).toBeNull();
+    expect(
+      await authService.authenticate(signToken(user.id, 'other-secret', 60)),
+    ).toBeNull();
+
+    const expired = signToken(user.id, 'test-secret', 60, Date.now() - 120_000);
+    expect(verifyToken(expired, 'test-secret')).toBeNull();
+    expect(await authService.authenticate(expired)).toBeNull();
+  });
+
+  it('should give tasks from before accounts to the first user only', async () => {
+    const legacy = await new TaskService(db).createTask({ title: 'Legacy' });
+
+    const { user: first } = await authService.register(
+      'alice',
+      'correct horse',
+    );
+    const { user: second } = await authService.register(
+      'bob',
+      'battery staple',
+    );
+
+    const tasks = new TaskService(db);
+    expect((await tasks.forOwner(first.id).getTask(legacy.id))?.title).toBe(
+      'Legacy',
+    );
+    expect(await tasks.forOwner(second.id).getTask(legacy.id)).toBeNull();
+  });
+});
+
+describe('Authenticated routes', () => {
+  let db: Database;
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    db = new Database(':memory:');
+    await db.initialize();
+    const authService = new AuthService(db, { secret: 'test-secret' });
+    const authenticate = requireAuth(authService);
+    const app = express();
+    app.use(express.json());
+    app.use('/api/auth', createAuthRouter(authService, authenticate));
+    app.use('/api/tasks', authenticate, createTaskRouter(db));
+    app.use(
+      '/api/events',
+      requireAuth(authService, { tokenOutsideHeader: true }),
+      createEventRouter(db),
+    );
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await db.close();
+  });
+
+  async function register(username: string): Promise<string> {
+    const res = await fetch(`${baseUrl}/auth/register`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username, password: 'correct horse' }),
+    });
+    expect(res.status).toBe(201);
+    return (await res.json()).token;
+  }
+
+  it('should reject requests without a valid token', async () => {
+    const missing = await fetch(`${baseUrl}/tasks`);
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get('www-authenticate')).toBe('Bearer');
+
+    const invalid = await fetch(`${baseUrl}/tasks`, {
+      headers: { Authorization: 'Bearer not-a-token' },
+    });
+    expect(invalid.status).toBe(401);
+  });
+
+  it("should keep each user's tasks apart", async () => {
+    const alice = await register('alice');
+    const bob = await register('bob');
+
+    const created = await fetch(`${baseUrl}/tasks`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${alice}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ title: "Alice's task" }),
+    });
+    const task = await created.json();
+
+    const asBob = { headers: { Authorization: `Bearer ${bob}` } };
+    expect(
+      (await (await fetch(`${baseUrl}/tasks`, asBob)).json()).items,
+    ).toEqual([]);
+    expect((await fetch(`${baseUrl}/tasks/${task.id}`, asBob)).status).toBe(
+      404,
+    );
+    const deleted = await fetch(`${baseUrl}/tasks/${task.id}`, {
+      ...asBob,
+      method: 'DELETE',
+    });
+    expect(deleted.status).toBe(404);
+
+    const asAlice = { headers: { Authorization: `Bearer ${alice}` } };
+    const own = await (await fetch(`${baseUrl}/tasks`, asAlice)).json();
+    expect(own.items.map((t: { id: string }) => t.id)).toEqual([task.id]);
+  });
+
+  it('should take the event stream token from the query or a cookie', async () => {
+    const token = await register('alice');
+    const open = async (path: string, init: RequestInit = {}) => {
+      const controller = new AbortController();
+      const res = await fetch(`${baseUrl}${path}`, {
+        ...init,
+        signal: controller.signal,
+      });
+      controller.abort();
+      return res.status;
+    };
+
+    expect(await open(`/events?access_token=${token}`)).toBe(200);
+    expect(
+      await open('/events', {
+        headers: { Cookie: `theme=dark; access_token=${token}` },
+      }),
+    ).toBe(200);
+    expect(await open('/events')).toBe(401);
+    expect(await open('/events?access_token=not-a-token')).toBe(401);
+    // Other routes only take the header
+    expect(await open(`/tasks?access_token=${token}`)).toBe(401);
+  });
+});
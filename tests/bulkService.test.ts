@@ -0,0 +1,247 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Database } from '../src/db/database';
+import { TaskService } from '../src/services/taskService';
+import { BulkLimitError, BulkService } from '../src/services/bulkService';
+import { createTaskRouter } from '../src/routes/tasks';
+import { errorHandler } from '../src/middleware/errorHandler';
+
+describe('BulkService', () => {
+  let db: Database;
+  let taskService: TaskService;
+  let bulk: BulkService;
+
+  beforeEach(async () => {
+    db = new Database(':memory:');
+    await db.initialize();
+    taskService = new TaskService(db);
+    bulk = new BulkService(db, taskService);
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('should apply every operation and queue them in order', async () => {
+    const first = await taskService.createTask({ title: 'First' });
+    const second = await taskService.createTask({ title: 'Second' });
+    await db.run('DELETE FROM sync_queue');
+
+    const result = await bulk.apply(
+      [
+        { operation: 'update', id: first.id, data: { completed: true } },
+        { operation: 'create', data: { title: 'Third' } },
+        { operation: 'delete', id: second.id },
+      ],
+      'atomic',
+    );
+
+    expect(result).toMatchObject({ succeeded: 3, failed: 0 });
+    expect(result.results.map((r) => r.status)).toEqual([
+      'success',
+      'success',
+      'success',
+    ]);
+    const created = result.results[1].task!;
+    const queue = await db.all(
+      'SELECT task_id, operation FROM sync_queue ORDER BY hlc',
+    );
+    expect(queue).toEqual([
+      { task_id: first.id, operation: 'update' },
+      { task_id: created.id, operation: 'create' },
+      { task_id: second.id, operation: 'delete' },
+    ]);
+  });
+
+  it('should apply nothing when an atomic request has a failing item', async () => {
+    const task = await taskService.createTask({ title: 'Keep' });
+    await db.run('DELETE FROM sync_queue');
+
+    const result = await bulk.apply(
+      [
+        { operation: 'update', id: task.id, data: { title: 'Changed' } },
+        { operation: 'delete', id: 'missing' },
+        { operation: 'create', data: { title: 'Never' } },
+      ],
+      'atomic',
+    );
+
+    expect(result.results.map((r) => r.status)).toEqual([
+      'skipped',
+      'error',
+      'skipped',
+    ]);
+    expect(result.results[1].error).toBe('Task not found');
+    expect((await taskService.getTask(task.id))?.title).toBe('Keep');
+    expect(await taskService.getAllTasks()).toHaveLength(1);
+    expect(await db.all('SELECT * FROM sync_queue')).toEqual([]);
+  });
+
+  it('should apply the other items in best-effort mode', async () => {
+    const parent = await taskService.createTask({ title: 'Parent' });
+
+    const result = await bulk.apply(
+      [
+        { operation: 'create', data: { title: 'Child', parent_id: parent.id } },
+        { operation: 'create', data: { title: 'Orphan', parent_id: 'missing' } },
+        { operation: 'update', id: parent.id, data: { priority: 'high' } },
+      ],
+      'best-effort',
+    );
+
+    expect(result).toMatchObject({ succeeded: 2, failed: 1 });
+    expect(result.results[1]).toMatchObject({
+      status: 'error',
+      error: 'Parent task not found',
+    });
+    expect((await taskService.getTask(parent.id))?.priority).toBe('high');
+    expect((await taskService.getAllTasks()).map((t) => t.title).sort()).toEqual(
+      ['Child', 'Parent'],
+    );
+  });
+
+  it('should patch every task matching a filter', async () => {
+    const tagged = await taskService.createTask({
+      title: 'Tagged',
+      tags: ['sprint-12'],
+    });
+    await taskService.createTask({ title: 'Other', tags: ['sprint-13'] });
+
+    const result = await bulk.applyToMatching(
+      { tag: 'sprint-12' },
+      { completed: true },
+      'atomic',
+      10,
+    );
+
+    expect(result.results.map((r) => r.id)).toEqual([tagged.id]);
+    expect((await taskService.getTask(tagged.id))?.completed).toBe(true);
+    expect(await taskService.queryTasks({ completed: true })).toMatchObject({
+      items: [{ id: tagged.id }],
+    });
+  });
+
+  it('should refuse a filter matching more tasks than the limit', async () => {
+    for (let i = 0; i < 3; i++) {
+      await taskService.createTask({ title: `Task ${i}` });
+    }
+
+    await expect(
+      bulk.applyToMatching({}, { completed: true }, 'best-effort', 2),
+    ).rejects.toBeInstanceOf(BulkLimitError);
+    expect(await taskService.queryTasks({ completed: true })).toMatchObject({
+      items: [],
+    });
+  });
+
+  it("should only touch the owner's tasks", async () => {
+    const theirs = await taskService.forOwner('bob').createTask({ title: 'Bob' });
+    const aliceBulk = new BulkService(db, taskService.forOwner('alice'));
+
+    const result = await aliceBulk.apply(
+      [{ operation: 'delete', id: theirs.id }],
+      'best-effort',
+    );
+
+    expect(result.results[0].error).toBe('Task not found');
+    expect(await taskService.getTask(theirs.id)).not.toBeNull();
+  });
+});
+
+describe('POST /api/tasks/bulk', () => {
+  let db: Database;
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    db = new Database(':memory:');
+    await db.initialize();
+    const app = express();
+    app.use(express.json());
+    app.use('/api/tasks', createTaskRouter(db));
+    app.use(errorHandler);
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await db.close();
+  });
+
+  function post(body: unknown) {
+    return fetch(`${baseUrl}/tasks/bulk`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  }
+
+  it('should validate every operation before applying any', async () => {
+    const res = await post({
+      operations: [
+        { operation: 'create', data: { title: 'Valid' } },
+        { operation: 'create', data: {} },
+        { operation: 'update', data: { title: 'No id' } },
+        { operation: 'archive', id: 'x' },
+      ],
+    });
+
+    expect(res.status).toBe(422);
+    const body = await res.json();
+    expect(body.errors.map((e: { field: string }) => e.field)).toEqual([
+      'operations[1].data.title',
+      'operations[2].id',
+      'operations[3].operation',
+    ]);
+    expect(await new TaskService(db).getAllTasks()).toEqual([]);
+  });
+
+  it('should reject unknown filter fields and invalid patches', async () => {
+    const unknown = await post({
+      filter: { owner_id: 'x' },
+      patch: { completed: true },
+    });
+    expect(unknown.status).toBe(422);
+    expect((await unknown.json()).errors[0]).toMatchObject({
+      field: 'filter.owner_id',
+      code: 'unknown_field',
+    });
+
+    const badPatch = await post({
+      filter: { tag: 'sprint-12' },
+      patch: { completed: 'yes' },
+    });
+    expect(badPatch.status).toBe(422);
+  });
+
+  it('should answer 400 when an atomic request is rolled back', async () => {
+    const res = await post({
+      operations: [
+        { operation: 'create', data: { title: 'Rolled back' } },
+        { operation: 'delete', id: 'missing' },
+      ],
+    });
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).failed).toBe(1);
+    expect(await new TaskService(db).getAllTasks()).toEqual([]);
+  });
+
+  it('should complete tasks matched by a filter', async () => {
+    const tasks = new TaskService(db);
+    await tasks.createTask({ title: 'Open', tags: ['sprint-12'] });
+
+    const res = await post({
+      filter: { tag: 'sprint-12', completed: false },
+      patch: { completed: true },
+    });
+
+    expect(res.status).toBe(200);
+    expect((await res.json()).succeeded).toBe(1);
+    expect((await tasks.getAllTasks())[0].completed).toBe(true);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Database } from '../src/db/database';
+import { TaskService } from '../src/services/taskService';
+import { ConflictService } from '../src/services/conflictService';
+import { Task } from '../src/types';
+
+describe('ConflictService', () => {
+  let db: Database;
+  let taskService: TaskService;
+  let conflictService: ConflictService;
+  let local: Task;
+  let remote: Task;
+
+  beforeEach(async () => {
+    db = new Database(':memory:');
+    await db.initialize();
+    taskService = new TaskService(db);
+    conflictService = new ConflictService(db, taskService);
+
+    local = await taskService.createTask({ title: 'Local title' });
+    remote = { ...local, title: 'Remote title', completed: true };
+    await db.run('DELETE FROM sync_queue');
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('should record both versions and the outcome', async () => {
+    await conflictService.record(
+      local,
+      remote,
+      'srv_1',
+      { strategy: 'last-write-wins', resolved_task: remote },
+      'remote',
+    );
+
+    const page = await conflictService.list(local.id);
+    expect(page.total).toBe(1);
+    expect(page.items[0].local_version.title).toBe('Local title');
+    expect(page.items[0].remote_version.title).toBe('Remote title');
+    expect(page.items[0].strategy).toBe('last-write-wins');
+    expect(page.items[0].outcome).toBe('remote');
+  });
+
+  it('should re-apply the losing side and enqueue it', async () => {
+    const conflict = await conflictService.record(
+      local,
+      remote,
+      'srv_1',
+      { strategy: 'last-write-wins', resolved_task: local },
+      'local',
+    );
+
+    const result = await conflictService.resolve(conflict.id, 'remote');
+
+    expect(result?.task?.title).toBe('Remote title');
+    expect(result?.conflict.manual_resolution).toBe('remote');
+    const queue = await db.all('SELECT * FROM sync_queue WHERE task_id = ?', [
+      local.id,
+    ]);
+    expect(queue.length).toBe(1);
+    const history = await taskService.getHistory(local.id);
+    expect(history?.items[0].source).toBe('conflict-resolution');
+  });
+
+  it('should accept a user supplied merged task', async () => {
+    const conflict = await conflictService.record(
+      local,
+      remote,
+      'srv_1',
+      { strategy: 'server-wins', resolved_task: remote },
+      'remote',
+    );
+
+    const result = await conflictService.resolve(conflict.id, {
+      title: 'Merged by hand',
+    });
+
+    const task = await taskService.getTask(local.id);
+    expect(task?.title).toBe('Merged by hand');
+    expect(result?.conflict.manual_resolution).toBe('custom');
+    expect((await conflictService.get(conflict.id))?.manually_resolved_at).toBeDefined();
+  });
+
+  it('should return null for an unknown conflict', async () => {
+    expect(await conflictService.resolve('missing', 'local')).toBeNull();
+  });
+
+  it("should keep each owner's conflicts apart", async () => {
+    const theirs = await taskService.forOwner('alice').createTask({
+      title: "Alice's task",
+    });
+    const conflict = await conflictService.record(
+      theirs,
+      { ...theirs, title: 'Remote title' },
+      'srv_1',
+      { strategy: 'last-write-wins', resolved_task: theirs },
+      'local',
+    );
+    expect(conflict.owner_id).toBe('alice');
+
+    const bob = conflictService.forOwner('bob');
+    expect((await bob.list()).total).toBe(0);
+    expect(await bob.get(conflict.id)).toBeNull();
+    expect(await bob.resolve(conflict.id, { title: 'Taken over' })).toBeNull();
+    expect((await taskService.getTask(theirs.id))?.title).toBe("Alice's task");
+
+    const alice = conflictService.forOwner('alice');
+    expect((await alice.list()).items.map((c) => c.id)).toEqual([conflict.id]);
+    const result = await alice.resolve(conflict.id, 'remote');
+    expect(result?.task?.title).toBe('Remote title');
+  });
+});
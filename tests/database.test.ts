@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Database, SchemaVersionError } from '../src/db/database';
+import { migrations } from '../src/db/migrations';
+
+describe('Database migrations', () => {
+  let db: Database;
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('should apply every migration once and record it', async () => {
+    db = new Database(':memory:');
+    await db.initialize();
+    await db.initialize();
+
+    const applied = await db.all(
+      'SELECT version FROM schema_migrations ORDER BY version',
+    );
+    expect(applied.map((m) => m.version)).toEqual(
+      migrations.map((m) => m.version),
+    );
+  });
+
+  it('should refuse to open a database from a newer build', async () => {
+    db = new Database(':memory:');
+    await db.initialize();
+    await db.run(
+      "INSERT INTO schema_migrations (version, name) VALUES (999, 'future')",
+    );
+
+    await expect(db.initialize()).rejects.toBeInstanceOf(SchemaVersionError);
+  });
+
+  it('should keep queued work when upgrading a pre-migration database', async () => {
+    db = new Database(':memory:');
+    await db.run(`
+      CREATE TABLE sync_queue (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        task_id TEXT,
+        operation_type TEXT,
+        task_snapshot TEXT,
+        attempts INTEGER DEFAULT 0,
+        status TEXT DEFAULT 'pending',
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    await db.run(
+      `INSERT INTO sync_queue (task_id, operation_type, task_snapshot, attempts)
+       VALUES ('task-1', 'create', '{"id":"task-1","title":"Old"}', 1)`,
+    );
+    await db.run(
+      `INSERT INTO sync_queue (operation_type, task_snapshot)
+       VALUES ('update', '{"id":"task-1","title":"Newer"}')`,
+    );
+
+    await db.initialize();
+
+    const queue = await db.all('SELECT * FROM sync_queue ORDER BY rowid');
+    expect(queue.map((q) => [q.task_id, q.operation, q.retry_count])).toEqual([
+      ['task-1', 'create', 1],
+      ['task-1', 'update', 0],
+    ]);
+    expect(JSON.parse(queue[1].data).title).toBe('Newer');
+  });
+
+  it('should roll back a failing migration', async () => {
+    db = new Database(':memory:');
+    await db.run('CREATE TABLE sync_queue_new (id TEXT)');
+
+    await expect(db.initialize()).rejects.toThrow(/Migration 2/);
+
+    const applied = await db.all('SELECT version FROM schema_migrations');
+    expect(applied.map((m) => m.version)).toEqual([1]);
+    const columns = await db.all('PRAGMA table_info(sync_queue)');
+    expect(columns.some((c) => c.name === 'operation_type')).toBe(true);
+  });
+});
+
+describe('Database transactions', () => {
+  let db: Database;
+
+  beforeEach(async () => {
+    db = new Database(':memory:');
+    await db.initialize();
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  async function stateValues(): Promise<string[]> {
+    const rows = await db.all(
+      "SELECT key FROM sync_state WHERE key != 'device_id' ORDER BY key",
+    );
+    return rows.map((r) => r.key);
+  }
+
+  it('should roll back every write when the callback throws', async () => {
+    await expect(
+      db.transaction(async () => {
+        await db.run("INSERT INTO sync_state (key, value) VALUES ('a', '1')");
+        throw new Error('crash');
+      }),
+    ).rejects.toThrow('crash');
+
+    expect(await stateValues()).toEqual([]);
+  });
+
+  it('should roll back a failed nested transaction only', async () => {
+    await db.transaction(async () => {
+      await db.run("INSERT INTO sync_state (key, value) VALUES ('outer', '1')");
+      await db
+        .transaction(async () => {
+          await db.run(
+            "INSERT INTO sync_state (key, value) VALUES ('inner', '1')",
+          );
+          throw new Error('crash');
+        })
+        .catch(() => undefined);
+    });
+
+    expect(await stateValues()).toEqual(['outer']);
+  });
+
+  it('should keep writes from outside a transaction out of it', async () => {
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => (release = resolve));
+
+    const pending = db.transaction(async () => {
+      await db.run("INSERT INTO sync_state (key, value) VALUES ('a', '1')");
+      await gate;
+      throw new Error('crash');
+    });
+    const outside = db.run(
+      "INSERT INTO sync_state (key, value) VALUES ('b', '1')",
+    );
+    release();
+
+    await expect(pending).rejects.toThrow('crash');
+    await outside;
+    expect(await stateValues()).toEqual(['b']);
+  });
+});
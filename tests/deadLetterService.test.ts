@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Database } from '../src/db/database';
+import { DeadLetterService } from '../src/services/deadLetterService';
+
+describe('DeadLetterService', () => {
+  let db: Database;
+  let deadLetterService: DeadLetterService;
+
+  async function addDeadLetter(
+    id: string,
+    taskId: string,
+    operation: string,
+    data: object = { title: 'Task' },
+    ownerId: string | null = null,
+  ) {
+    await db.run(
+      `INSERT INTO dead_letter_queue (id, task_id, owner_id, operation, data, error_message)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [
+        id,
+        taskId,
+        ownerId,
+        operation,
+        JSON.stringify(data),
+        'Server rejected item',
+      ],
+    );
+  }
+
+  beforeEach(async () => {
+    db = new Database(':memory:');
+    await db.initialize();
+    deadLetterService = new DeadLetterService(db);
+
+    await addDeadLetter('dlq-1', 'task-1', 'create');
+    await addDeadLetter('dlq-2', 'task-1', 'update');
+    await addDeadLetter('dlq-3', 'task-2', 'update');
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  describe('list', () => {
+    it('should filter by task and operation', async () => {
+      const byTask = await deadLetterService.list({ task_id: 'task-1' });
+      expect(byTask.total).toBe(2);
+
+      const byOperation = await deadLetterService.list({ operation: 'update' });
+      expect(byOperation.total).toBe(2);
+      expect(byOperation.items.every((i) => i.operation === 'update')).toBe(
+        true,
+      );
+    });
+
+    it('should paginate results', async () => {
+      const page = await deadLetterService.list({}, 2, 2);
+      expect(page.total).toBe(3);
+      expect(page.items.length).toBe(1);
+    });
+  });
+
+  describe('requeue', () => {
+    it('should move the item to sync_queue with attempts reset', async () => {
+      const item = await deadLetterService.requeue('dlq-1');
+      expect(item).not.toBeNull();
+
+      const queue = await db.all('SELECT * FROM sync_queue');
+      expect(queue.length).toBe(1);
+      expect(queue[0].task_id).toBe('task-1');
+      expect(queue[0].retry_count).toBe(0);
+      expect(await deadLetterService.get('dlq-1')).toBeNull();
+    });
+
+    it('should merge an edited payload before requeueing', async () => {
+      await deadLetterService.requeue('dlq-2', { title: 'Fixed title' });
+
+      const queue = await db.all('SELECT * FROM sync_queue');
+      expect(JSON.parse(queue[0].data).title).toBe('Fixed title');
+    });
+
+    it('should requeue every item matching a filter', async () => {
+      const count = await deadLetterService.requeueMatching({
+        operation: 'update',
+      });
+      expect(count).toBe(2);
+
+      const remaining = await deadLetterService.list();
+      expect(remaining.items.map((i) => i.id)).toEqual(['dlq-1']);
+    });
+
+    it('should return null for a missing item', async () => {
+      expect(await deadLetterService.requeue('missing')).toBeNull();
+    });
+  });
+
+  describe('discard', () => {
+    it('should remove the item and keep an audit record', async () => {
+      const result = await deadLetterService.discard('dlq-3', 'Obsolete');
+      expect(result).toBe(true);
+      expect(await deadLetterService.get('dlq-3')).toBeNull();
+
+      const audit = await db.all('SELECT * FROM dead_letter_audit');
+      expect(audit.length).toBe(1);
+      expect(audit[0].dead_letter_id).toBe('dlq-3');
+      expect(audit[0].action).toBe('discarded');
+      expect(audit[0].reason).toBe('Obsolete');
+    });
+
+    it('should discard every item matching a filter', async () => {
+      const count = await deadLetterService.discardMatching({
+        task_id: 'task-1',
+      });
+      expect(count).toBe(2);
+      expect((await deadLetterService.list()).total).toBe(1);
+    });
+  });
+
+  describe('owners', () => {
+    it("should only show and act on the owner's items", async () => {
+      await addDeadLetter('dlq-4', 'task-4', 'update', {}, 'alice');
+      const alice = deadLetterService.forOwner('alice');
+      const bob = deadLetterService.forOwner('bob');
+
+      expect((await bob.list()).total).toBe(0);
+      expect(await bob.get('dlq-4')).toBeNull();
+      expect(await bob.requeue('dlq-4')).toBeNull();
+      expect(await bob.discard('dlq-4')).toBe(false);
+      expect(await bob.discardMatching()).toBe(0);
+
+      expect((await alice.list()).items).toEqual([
+        expect.objectContaining({ id: 'dlq-4', owner_id: 'alice' }),
+      ]);
+      expect(await alice.requeueMatching()).toBe(1);
+      expect((await deadLetterService.list()).total).toBe(3);
+    });
+  });
+});
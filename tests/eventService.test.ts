@@ -0,0 +1,293 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import { Database } from '../src/db/database';
+import { EventService } from '../src/services/eventService';
+import { TaskService } from '../src/services/taskService';
+import { SyncService } from '../src/services/syncService';
+import { LoopbackSyncTransport } from '../src/services/syncTransport';
+import { createEventRouter } from '../src/routes/events';
+import { ServerEvent } from '../src/types';
+
+describe('EventService', () => {
+  let db: Database;
+  let events: EventService;
+  let received: ServerEvent[];
+  let unsubscribe: () => void;
+
+  beforeEach(async () => {
+    db = new Database(':memory:');
+    await db.initialize();
+    events = EventService.for(db);
+    received = [];
+    unsubscribe = events.subscribe((event) => received.push(event));
+  });
+
+  afterEach(async () => {
+    unsubscribe();
+    await db.close();
+  });
+
+  it('should replay buffered events after a given id', () => {
+    const first = events.publish('sync.started', {
+      owner_id: null,
+      queue_size: 1,
+    });
+    const second = events.publish('sync.started', {
+      owner_id: null,
+      queue_size: 2,
+    });
+
+    expect(events.since(first.id)).toEqual([second]);
+    expect(events.since(second.id)).toEqual([]);
+  });
+
+  it('should report when the replay would be incomplete', () => {
+    events.publish('sync.started', { owner_id: null, queue_size: 1 });
+    expect(events.since(0)).toBeNull();
+  });
+
+  it('should keep feeds for different databases apart', async () => {
+    const other = new Database(':memory:');
+    await other.initialize();
+    await new TaskService(other).createTask({ title: 'Elsewhere' });
+    await other.close();
+
+    expect(received).toEqual([]);
+  });
+
+  it('should publish task events from TaskService', async () => {
+    const taskService = new TaskService(db);
+    const task = await taskService.createTask({ title: 'Live' });
+    await taskService.updateTask(task.id, { title: 'Live edit' });
+    await taskService.deleteTask(task.id);
+
+    expect(received.map((e) => e.type)).toEqual([
+      'task.created',
+      'task.updated',
+      'task.deleted',
+    ]);
+    expect((received[1].data as any).title).toBe('Live edit');
+  });
+
+  it('should not publish writes that were rolled back', async () => {
+    const taskService = new TaskService(db);
+    const run = db.run.bind(db);
+    vi.spyOn(db, 'run').mockImplementation(async (sql, params) => {
+      if (sql.includes('INSERT INTO sync_queue')) {
+        throw new Error('SQLITE_IOERR: disk I/O error');
+      }
+      return run(sql, params);
+    });
+
+    await expect(taskService.createTask({ title: 'Lost' })).rejects.toThrow();
+    expect(received).toEqual([]);
+  });
+
+  it('should publish sync progress', async () => {
+    const serverDb = new Database(':memory:');
+    await serverDb.initialize();
+    const taskService = new TaskService(db);
+    const syncService = new SyncService(
+      db,
+      taskService,
+      new LoopbackSyncTransport(serverDb),
+    );
+    const task = await taskService.createTask({ title: 'Offline edit' });
+    received = [];
+
+    const result = await syncService.sync();
+    await serverDb.close();
+
+    const progress = received.filter((e) => e.type.startsWith('sync.'));
+    expect(progress.map((e) => e.type)).toEqual([
+      'sync.started',
+      'sync.item',
+      'sync.completed',
+    ]);
+    expect(progress[1].data).toMatchObject({
+      task_id: task.id,
+      status: 'success',
+    });
+    expect(progress[2].data).toEqual({ ...result, owner_id: null });
+  });
+
+  it('should publish items moved to the dead letter queue', async () => {
+    const serverDb = new Database(':memory:');
+    await serverDb.initialize();
+    const transport = new LoopbackSyncTransport(serverDb);
+    const taskService = new TaskService(db, 'alice');
+    const task = await taskService.createTask({ title: 'Rejected' });
+    vi.spyOn(transport, 'sendBatch').mockRejectedValueOnce(
+      Object.assign(new Error('Request failed with status code 400'), {
+        response: { status: 400, headers: {} },
+      }),
+    );
+
+    await new SyncService(db, taskService, transport).sync();
+    await serverDb.close();
+
+    const added = received.find((e) => e.type === 'dlq.added');
+    expect(added?.data).toMatchObject({
+      task_id: task.id,
+      owner_id: 'alice',
+      operation: 'create',
+    });
+    const [row] = await db.all('SELECT owner_id FROM dead_letter_queue');
+    expect(row.owner_id).toBe('alice');
+  });
+});
+
+describe('GET /api/events', () => {
+  let db: Database;
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    db = new Database(':memory:');
+    await db.initialize();
+    const app = express();
+    // Stands in for requireAuth
+    app.use((req, _res, next) => {
+      const id = req.header('X-User');
+      if (id) {
+        req.user = { id, username: id, created_at: new Date() };
+      }
+      next();
+    });
+    app.use('/api/events', createEventRouter(db));
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+    await db.close();
+  });
+
+  // Collects raw SSE text until it contains `until`
+  function stream(headers: Record<string, string>, until: string) {
+    return new Promise<string>((resolve, reject) => {
+      const req = http.get(`${baseUrl}/api/events`, { headers }, (res) => {
+        expect(res.headers['content-type']).toContain('text/event-stream');
+        let body = '';
+        res.on('data', (chunk) => {
+          body += chunk;
+          if (body.includes(until)) {
+            req.destroy();
+            resolve(body);
+          }
+        });
+      });
+      req.on('error', reject);
+    });
+  }
+
+  it('should stream new events', async () => {
+    const received = stream({}, 'event: task.created');
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    await new TaskService(db).createTask({ title: 'Streamed' });
+
+    const body = await received;
+    expect(body).toMatch(/id: \d+\nevent: task\.created\ndata: .*"Streamed"/);
+  });
+
+  it('should replay missed events for Last-Event-ID', async () => {
+    const events = EventService.for(db);
+    const seen = events.publish('sync.started', {
+      owner_id: null,
+      queue_size: 1,
+    });
+    events.publish('sync.started', { owner_id: null, queue_size: 2 });
+
+    const body = await stream(
+      { 'Last-Event-ID': String(seen.id) },
+      'queue_size',
+    );
+    expect(body).toContain('"queue_size":2');
+    expect(body).not.toContain('"queue_size":1');
+  });
+
+  it("should only stream a signed-in user's own events", async () => {
+    const events = EventService.for(db);
+    const seen = events.publish('sync.started', {
+      owner_id: null,
+      queue_size: 1,
+    });
+    events.publish('sync.item', {
+      task_id: 'theirs',
+      owner_id: 'bob',
+      operation: 'update',
+      status: 'success',
+    });
+    events.publish('dlq.added', {
+      id: 'dlq-1',
+      task_id: 'theirs',
+      owner_id: 'bob',
+      operation: 'update',
+      data: {},
+      error_message: 'Rejected',
+      failed_at: new Date(),
+    });
+    events.publish('sync.item', {
+      task_id: 'mine',
+      owner_id: 'alice',
+      operation: 'update',
+      status: 'success',
+    });
+
+    const body = await stream(
+      { 'Last-Event-ID': String(seen.id - 1), 'X-User': 'alice' },
+      '"mine"',
+    );
+    expect(body).not.toContain('sync.started');
+    expect(body).not.toContain('theirs');
+    expect(body).toContain('event: sync.item');
+  });
+
+  it("should only stream a signed-in user's own sync runs", async () => {
+    const serverDb = new Database(':memory:');
+    await serverDb.initialize();
+    const serverTasks = new TaskService(serverDb);
+    const syncAs = async (owner: string) => {
+      const taskService = new TaskService(db, owner);
+      await taskService.createTask({ title: `${owner}'s task` });
+      const transport = new LoopbackSyncTransport(serverDb, serverTasks, owner);
+      return new SyncService(db, taskService, transport).sync();
+    };
+    const seen: ServerEvent[] = [];
+    const unsubscribe = EventService.for(db).subscribe((e) => seen.push(e));
+    await syncAs('bob');
+    const result = await syncAs('alice');
+    unsubscribe();
+    await serverDb.close();
+
+    const body = await stream(
+      { 'Last-Event-ID': String(seen[0].id - 1), 'X-User': 'alice' },
+      'event: sync.completed',
+    );
+    expect(body).not.toContain('bob');
+    const [started, completed] = ['sync.started', 'sync.completed'].map(
+      (type) =>
+        JSON.parse(body.match(new RegExp(`event: ${type}\ndata: (.*)`))![1]),
+    );
+    expect(started).toEqual({ owner_id: 'alice', queue_size: 1 });
+    expect(completed).toMatchObject({
+      owner_id: 'alice',
+      synced_items: result.synced_items,
+    });
+  });
+
+  it('should tell the client to refetch when history is gone', async () => {
+    EventService.for(db).publish('sync.started', {
+      owner_id: null,
+      queue_size: 1,
+    });
+
+    const body = await stream({ 'Last-Event-ID': '1' }, 'stream.reset');
+    expect(body).toContain('event: stream.reset');
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Database } from '../src/db/database';
+import { ClockService } from '../src/services/clockService';
+import {
+  compareHlc,
+  compareVersions,
+  formatHlc,
+  mergeHlc,
+  nextHlc,
+  parseHlc,
+} from '../src/utils/hlc';
+
+const T = Date.parse('2024-01-10T10:00:00.000Z');
+
+describe('hybrid logical clock', () => {
+  it('should format and parse timestamps', () => {
+    const hlc = { wallTime: T, counter: 42, deviceId: 'device-a' };
+    expect(formatHlc(hlc)).toBe('2024-01-10T10:00:00.000Z-002a-device-a');
+    expect(parseHlc(formatHlc(hlc))).toEqual(hlc);
+    expect(parseHlc('2024-01-10T10:00:00Z')).toBeNull();
+  });
+
+  it('should keep moving forward when the wall clock goes back', () => {
+    const first = nextHlc({ wallTime: 0, counter: 0, deviceId: 'a' }, T);
+    const second = nextHlc(first, T - 60_000);
+    const third = nextHlc(second, T + 1);
+
+    expect(compareHlc(second, first)).toBeGreaterThan(0);
+    expect(second).toEqual({ wallTime: T, counter: 1, deviceId: 'a' });
+    expect(third).toEqual({ wallTime: T + 1, counter: 0, deviceId: 'a' });
+  });
+
+  it('should move past timestamps received from other devices', () => {
+    const local = { wallTime: T - 60_000, counter: 3, deviceId: 'a' };
+    const remote = { wallTime: T, counter: 5, deviceId: 'b' };
+
+    const merged = mergeHlc(local, remote, T - 30_000);
+
+    expect(merged).toEqual({ wallTime: T, counter: 6, deviceId: 'a' });
+    expect(compareHlc(nextHlc(merged, T - 30_000), remote)).toBeGreaterThan(0);
+  });
+
+  it('should sort formatted timestamps like compareHlc', () => {
+    const stamps = [
+      { wallTime: T, counter: 2, deviceId: 'a' },
+      { wallTime: T, counter: 1, deviceId: 'b' },
+      { wallTime: T + 1, counter: 0, deviceId: 'a' },
+      { wallTime: T, counter: 1, deviceId: 'a' },
+    ];
+    const byString = stamps.map(formatHlc).sort();
+    const byCompare = [...stamps].sort(compareHlc).map(formatHlc);
+    expect(byString).toEqual(byCompare);
+  });
+
+  it('should order versions by HLC, then operation, then device', () => {
+    const stamp = (wallTime: number, deviceId: string) =>
+      formatHlc({ wallTime, counter: 0, deviceId });
+    const skewed = {
+      hlc: stamp(T + 1, 'a'),
+      updated_at: new Date(T - 3_600_000),
+      operation: 'update' as const,
+    };
+    const earlier = {
+      hlc: stamp(T, 'b'),
+      updated_at: new Date(T),
+      operation: 'update' as const,
+    };
+    expect(compareVersions(skewed, earlier)).toBeGreaterThan(0);
+
+    const update = { hlc: stamp(T, 'z'), operation: 'update' as const };
+    const deletion = { hlc: stamp(T, 'a'), operation: 'delete' as const };
+    expect(compareVersions(deletion, update)).toBeGreaterThan(0);
+
+    const fromA = { hlc: stamp(T, 'a'), operation: 'update' as const };
+    const fromB = { hlc: stamp(T, 'b'), operation: 'update' as const };
+    expect(compareVersions(fromB, fromA)).toBeGreaterThan(0);
+    expect(compareVersions(fromA, fromB)).toBeLessThan(0);
+  });
+
+  it('should compare versions without an HLC by updated_at', () => {
+    const legacy = {
+      updated_at: new Date(T + 1),
+      operation: 'update' as const,
+    };
+    const stamped = {
+      hlc: formatHlc({ wallTime: T, counter: 9, deviceId: 'a' }),
+      operation: 'update' as const,
+    };
+    expect(compareVersions(legacy, stamped)).toBeGreaterThan(0);
+  });
+});
+
+describe('ClockService', () => {
+  let db: Database;
+  let now: number;
+
+  beforeEach(async () => {
+    db = new Database(':memory:');
+    await db.initialize();
+    now = T;
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await db.close();
+  });
+
+  it('should keep a persistent device id and resume after a restart', async () => {
+    const clock = new ClockService(db, () => now);
+    const deviceId = await clock.deviceId();
+    const last = await clock.tick();
+
+    now = T - 60_000;
+    const restarted = new ClockService(db, () => now);
+    const next = await restarted.tick();
+
+    expect(await restarted.deviceId()).toBe(deviceId);
+    expect(parseHlc(last)?.deviceId).toBe(deviceId);
+    expect(next > last).toBe(true);
+  });
+
+  it('should not follow or keep timestamps far in the future', async () => {
+    vi.stubEnv('SYNC_MAX_CLOCK_DRIFT_MS', '60000');
+    const clock = new ClockService(db, () => now);
+    const future = formatHlc({
+      wallTime: T + 3_600_000,
+      counter: 0,
+      deviceId: 'skewed',
+    });
+
+    await clock.observe(future);
+    const clamped = await clock.clamp(future);
+
+    expect(parseHlc(clamped)?.wallTime).toBe(T);
+    expect(parseHlc(await clock.tick())?.wallTime).toBe(T);
+    expect(clock.clampTime(new Date(T + 3_600_000))).toEqual(new Date(T));
+
+    const near = formatHlc({ wallTime: T + 1000, counter: 0, deviceId: 'b' });
+    expect(await clock.clamp(near)).toBe(near);
+    expect(parseHlc(await clock.tick())?.wallTime).toBe(T + 1000);
+  });
+});
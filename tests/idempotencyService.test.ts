@@ -0,0 +1,294 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Database } from '../src/db/database';
+import { TaskService } from '../src/services/taskService';
+import { BatchService } from '../src/services/batchService';
+import { IdempotencyService } from '../src/services/idempotencyService';
+import { createTaskRouter } from '../src/routes/tasks';
+import { createSyncRouter } from '../src/routes/sync';
+import { errorHandler } from '../src/middleware/errorHandler';
+import { calculateBatchChecksum } from '../src/utils/checksum';
+import { SyncQueueItem } from '../src/types';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('IdempotencyService', () => {
+  let db: Database;
+  let now: number;
+  let idempotency: IdempotencyService;
+
+  beforeEach(async () => {
+    db = new Database(':memory:');
+    await db.initialize();
+    now = Date.now();
+    idempotency = new IdempotencyService(db, {
+      ttlMs: 24 * HOUR,
+      now: () => now,
+    });
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('should replay the stored response for the same key and request', async () => {
+    expect(await idempotency.claim('test', 'alice', 'key-1', { a: 1 })).toEqual({
+      state: 'new',
+    });
+    expect(await idempotency.claim('test', 'alice', 'key-1', { a: 1 })).toEqual({
+      state: 'in-progress',
+    });
+
+    await idempotency.complete('test', 'alice', 'key-1', {
+      statusCode: 201,
+      body: { id: 'task-1' },
+    });
+
+    expect(await idempotency.claim('test', 'alice', 'key-1', { a: 1 })).toEqual({
+      state: 'replay',
+      response: { statusCode: 201, body: { id: 'task-1' } },
+    });
+    expect(await idempotency.claim('test', 'alice', 'key-1', { a: 2 })).toEqual({
+      state: 'mismatch',
+    });
+  });
+
+  it('should keep keys apart by owner and scope', async () => {
+    await idempotency.claim('test', 'alice', 'shared', {});
+
+    expect((await idempotency.claim('test', 'bob', 'shared', {})).state).toBe('new');
+    expect((await idempotency.claim('other', 'alice', 'shared', {})).state).toBe(
+      'new',
+    );
+    expect((await idempotency.claim('test', null, 'shared', {})).state).toBe('new');
+  });
+
+  it('should forget keys after the TTL and released claims straight away', async () => {
+    await idempotency.claim('test', null, 'old', {});
+    await idempotency.complete('test', null, 'old', { statusCode: 200, body: {} });
+    await idempotency.claim('test', null, 'failed', {});
+    await idempotency.release('test', null, 'failed');
+
+    expect((await idempotency.claim('test', null, 'failed', {})).state).toBe('new');
+    now += 25 * HOUR;
+    expect((await idempotency.claim('test', null, 'old', {})).state).toBe('new');
+  });
+});
+
+describe('batch item idempotency', () => {
+  let db: Database;
+  let taskService: TaskService;
+  let batch: BatchService;
+
+  beforeEach(async () => {
+    db = new Database(':memory:');
+    await db.initialize();
+    taskService = new TaskService(db);
+    batch = new BatchService(db, taskService);
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  function item(overrides: Partial<SyncQueueItem>): SyncQueueItem {
+    return {
+      id: 'queue-1',
+      task_id: 'client-task',
+      operation: 'create',
+      data: { title: 'From the client' },
+      created_at: new Date(),
+      retry_count: 0,
+      ...overrides,
+    };
+  }
+
+  async function send(items: SyncQueueItem[]) {
+    const keyed = items.map((i) => ({
+      ...i,
+      idempotency_key: calculateBatchChecksum([i]),
+    }));
+    return batch.processBatch(keyed, calculateBatchChecksum(keyed));
+  }
+
+  it('should keep the client task id and create it only once', async () => {
+    const first = await send([item({})]);
+    const retry = await send([item({})]);
+
+    expect(first.processed_items[0].server_id).toBe('client-task');
+    expect(retry).toEqual(JSON.parse(JSON.stringify(first)));
+    expect(await taskService.getAllTasks()).toHaveLength(1);
+  });
+
+  it('should answer a resent update with its first result', async () => {
+    await send([item({})]);
+    const update = item({
+      id: 'queue-2',
+      operation: 'update',
+      data: { title: 'Renamed', server_id: 'client-task', version: 1 },
+    });
+
+    const first = await send([update]);
+    // The version has moved on, so applying it again would conflict
+    const retry = await send([update]);
+
+    expect(first.processed_items[0].status).toBe('success');
+    expect(retry.processed_items[0].status).toBe('success');
+    expect((await taskService.getTask('client-task'))?.version).toBe(2);
+  });
+
+  it('should give a new id when the client id is taken', async () => {
+    const existing = await taskService.createTask({ title: 'Already here' });
+
+    const response = await send([item({ task_id: existing.id })]);
+
+    expect(response.processed_items[0].server_id).not.toBe(existing.id);
+    expect(await taskService.getAllTasks()).toHaveLength(2);
+  });
+});
+
+describe('POST /api/tasks with an Idempotency-Key', () => {
+  let db: Database;
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    db = new Database(':memory:');
+    await db.initialize();
+    const app = express();
+    app.use(express.json());
+    app.use('/api/tasks', createTaskRouter(db));
+    app.use(errorHandler);
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await db.close();
+  });
+
+  function create(body: unknown, key: string) {
+    return fetch(`${baseUrl}/tasks`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Idempotency-Key': key },
+      body: JSON.stringify(body),
+    });
+  }
+
+  it('should create the task once and replay the response', async () => {
+    const first = await create({ title: 'Retried' }, 'create-1');
+    const retry = await create({ title: 'Retried' }, 'create-1');
+
+    expect(first.status).toBe(201);
+    expect(retry.status).toBe(201);
+    expect(retry.headers.get('idempotent-replayed')).toBe('true');
+    expect((await retry.json()).id).toBe((await first.json()).id);
+    expect(await new TaskService(db).getAllTasks()).toHaveLength(1);
+  });
+
+  it('should refuse a key reused for a different body', async () => {
+    await create({ title: 'One' }, 'create-2');
+
+    const reused = await create({ title: 'Two' }, 'create-2');
+
+    expect(reused.status).toBe(422);
+    expect(await new TaskService(db).getAllTasks()).toHaveLength(1);
+  });
+
+  it('should replay validation errors too', async () => {
+    const first = await create({}, 'create-3');
+    const retry = await create({}, 'create-3');
+
+    expect(first.status).toBe(422);
+    expect(retry.status).toBe(422);
+    expect(retry.headers.get('idempotent-replayed')).toBe('true');
+  });
+});
+
+describe('POST /api/batch with an Idempotency-Key', () => {
+  let db: Database;
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    db = new Database(':memory:');
+    await db.initialize();
+    const app = express();
+    app.use(express.json());
+    app.use('/api', createSyncRouter(db));
+    app.use(errorHandler);
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await db.close();
+  });
+
+  // Sends the items as SyncService does, keyed by their checksum
+  function sendBatch(items: Partial<SyncQueueItem>[], attempt: number) {
+    const sent = items.map((item) => ({
+      ...item,
+      created_at: new Date(0),
+      retry_count: attempt,
+      error_message: attempt ? 'timeout of 5000ms exceeded' : undefined,
+    }));
+    const checksum = calculateBatchChecksum(sent as SyncQueueItem[]);
+    return fetch(`${baseUrl}/batch`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Idempotency-Key': checksum,
+      },
+      body: JSON.stringify({
+        checksum,
+        items: sent,
+        client_timestamp: new Date(Date.now() + attempt),
+      }),
+    });
+  }
+
+  it('should replay a resent batch whose attempt details changed', async () => {
+    const items = [
+      {
+        id: 'queue-1',
+        task_id: 'client-task',
+        operation: 'create' as const,
+        data: { title: 'Resent' },
+      },
+    ];
+
+    const first = await sendBatch(items, 0);
+    const retry = await sendBatch(items, 1);
+
+    expect(first.status).toBe(200);
+    expect(retry.status).toBe(200);
+    expect(retry.headers.get('idempotent-replayed')).toBe('true');
+    expect(await new TaskService(db).getAllTasks()).toHaveLength(1);
+  });
+
+  it('should not keep a response with failed items', async () => {
+    const items = [
+      {
+        id: 'queue-1',
+        task_id: 'not-created-yet',
+        operation: 'update' as const,
+        data: { title: 'Too early', server_id: 'not-created-yet' },
+      },
+    ];
+
+    const first = await sendBatch(items, 0);
+    expect((await first.json()).processed_items[0].status).toBe('error');
+
+    const retry = await sendBatch(items, 1);
+
+    expect(retry.status).toBe(200);
+    expect(retry.headers.get('idempotent-replayed')).toBeNull();
+  });
+});
@@ -0,0 +1,199 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Database } from '../src/db/database';
+import { TaskService } from '../src/services/taskService';
+import { ImportService } from '../src/services/importService';
+import { createTaskRouter } from '../src/routes/tasks';
+
+describe('ImportService', () => {
+  let db: Database;
+  let taskService: TaskService;
+  let importer: ImportService;
+
+  beforeEach(async () => {
+    db = new Database(':memory:');
+    await db.initialize();
+    taskService = new TaskService(db);
+    importer = new ImportService(db, taskService);
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('should create new tasks and queue them for sync', async () => {
+    const report = await importer.importTasks([
+      { fields: { title: 'Imported', completed: true, tags: ['home'] } },
+    ]);
+
+    expect(report).toMatchObject({ created: 1, updated: 0, skipped: 0 });
+    const task = await taskService.getTask(report.results[0].id!);
+    expect(task).toMatchObject({ title: 'Imported', completed: true });
+    const queue = await db.all('SELECT task_id, operation FROM sync_queue');
+    expect(queue).toEqual([{ task_id: task!.id, operation: 'create' }]);
+  });
+
+  it('should update tasks matched by id and skip unchanged ones', async () => {
+    const changed = await taskService.createTask({ title: 'Old title' });
+    const same = await taskService.createTask({ title: 'Same' });
+
+    const report = await importer.importTasks([
+      { id: changed.id, fields: { title: 'New title' } },
+      { id: same.id, fields: { title: 'Same' } },
+    ]);
+
+    expect(report.results).toMatchObject([
+      { index: 0, id: changed.id, status: 'updated' },
+      { index: 1, id: same.id, status: 'skipped', reason: 'Unchanged' },
+    ]);
+    expect((await taskService.getTask(changed.id))?.title).toBe('New title');
+  });
+
+  it('should skip tasks with the same content as an existing one', async () => {
+    const existing = await taskService.createTask({
+      title: 'Pay rent',
+      due_at: new Date('2024-05-01T00:00:00.000Z'),
+    });
+
+    const report = await importer.importTasks([
+      {
+        id: 'from-another-app',
+        fields: { title: 'Pay rent', due_at: new Date('2024-05-01T00:00:00.000Z') },
+      },
+      { fields: { title: 'Pay rent' } },
+      { fields: { title: 'Pay rent' } },
+    ]);
+
+    expect(report.results.map((r) => [r.status, r.reason])).toEqual([
+      ['skipped', 'Duplicate'],
+      ['created', undefined],
+      ['skipped', 'Duplicate'],
+    ]);
+    expect(report.results[0].id).toBe(existing.id);
+  });
+
+  it('should link subtasks to parents imported after them', async () => {
+    const report = await importer.importTasks([
+      { id: 'child', fields: { title: 'Child', parent_id: 'parent' } },
+      { id: 'parent', fields: { title: 'Parent' } },
+      { fields: { title: 'Orphan', parent_id: 'missing' } },
+      { error: 'Title is required and must be a string' },
+    ]);
+
+    expect(report).toMatchObject({ created: 2, failed: 2 });
+    const [child, parent] = report.results;
+    expect((await taskService.getTask(child.id!))?.parent_id).toBe(parent.id);
+    expect(report.results[2]).toMatchObject({
+      status: 'error',
+      reason: 'Parent task not found',
+    });
+  });
+
+  it('should not import deleted tasks or revive trashed ones', async () => {
+    const trashed = await taskService.createTask({ title: 'Trashed' });
+    await taskService.deleteTask(trashed.id);
+
+    const report = await importer.importTasks([
+      { id: trashed.id, fields: { title: 'Trashed' } },
+      { is_deleted: true, fields: { title: 'Deleted elsewhere' } },
+    ]);
+
+    expect(report.results.map((r) => r.reason)).toEqual([
+      'Task is in the trash',
+      'Task is deleted',
+    ]);
+    expect(await taskService.getAllTasks()).toEqual([]);
+  });
+});
+
+describe('task import and export endpoints', () => {
+  let db: Database;
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    db = new Database(':memory:');
+    await db.initialize();
+    const app = express();
+    app.use(express.json());
+    app.use('/api/tasks', createTaskRouter(db));
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await db.close();
+  });
+
+  it('should export tasks as a CSV download', async () => {
+    const tasks = new TaskService(db);
+    await tasks.createTask({ title: 'Kept' });
+    const deleted = await tasks.createTask({ title: 'Gone' });
+    await tasks.deleteTask(deleted.id);
+
+    const res = await fetch(`${baseUrl}/tasks/export?format=csv`);
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toBe('text/csv; charset=utf-8');
+    expect(res.headers.get('content-disposition')).toContain('tasks.csv');
+    const lines = (await res.text()).trim().split('\r\n');
+    expect(lines).toHaveLength(2);
+    expect(lines[1]).toContain('Kept');
+
+    const all = await fetch(
+      `${baseUrl}/tasks/export?format=json&include_deleted=true`,
+    );
+    expect((await all.json()).map((t: { title: string }) => t.title)).toEqual([
+      'Kept',
+      'Gone',
+    ]);
+  });
+
+  it('should import an export into another store without duplicates', async () => {
+    const source = new TaskService(db);
+    const parent = await source.createTask({ title: 'Parent', tags: ['a'] });
+    await source.createTask({ title: 'Child', parent_id: parent.id });
+    const ics = await (await fetch(`${baseUrl}/tasks/export?format=ics`)).text();
+    await db.run('DELETE FROM sync_queue');
+    await db.run('DELETE FROM tasks');
+
+    const post = () =>
+      fetch(`${baseUrl}/tasks/import`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'text/calendar' },
+        body: ics,
+      });
+    const first = await (await post()).json();
+    const second = await (await post()).json();
+
+    expect(first).toMatchObject({ created: 2, skipped: 0 });
+    expect(second).toMatchObject({ created: 0, skipped: 2 });
+    const imported = await source.getAllTasks();
+    const child = imported.find((t) => t.title === 'Child')!;
+    expect(imported.find((t) => t.id === child.parent_id)?.title).toBe('Parent');
+  });
+
+  it('should reject unknown formats and unreadable files', async () => {
+    const format = await fetch(`${baseUrl}/tasks/export?format=xml`);
+    expect(format.status).toBe(422);
+
+    const csv = await fetch(`${baseUrl}/tasks/import?format=csv`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify([{ title: 'Sent as JSON' }]),
+    });
+    expect(csv.status).toBe(400);
+
+    const invalid = await fetch(`${baseUrl}/tasks/import`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify([{ title: 'Valid' }, { priority: 'high' }]),
+    });
+    expect(invalid.status).toBe(200);
+    expect(await invalid.json()).toMatchObject({ created: 1, failed: 1 });
+  });
+});
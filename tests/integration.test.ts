@@ -1,7 +1,12 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { Database } from '../src/db/database';
 import { TaskService } from '../src/services/taskService';
 import { SyncService } from '../src/services/syncService';
+import { LoopbackSyncTransport } from '../src/services/syncTransport';
+import { ClockService } from '../src/services/clockService';
+import { TombstoneService } from '../src/services/tombstoneService';
+import { SyncAccountService } from '../src/services/syncAccountService';
+import { formatHlc, parseHlc } from '../src/utils/hlc';
 
 describe('Integration Tests', () => {
   let db: Database;
@@ -90,4 +95,935 @@ describe('Integration Tests', () => {
       // Simulate successful retry
     });
   });
-});
\ No newline at end of file
+
+  describe('Loopback Sync', () => {
+    let serverDb: Database;
+    let serverTaskService: TaskService;
+    let transport: LoopbackSyncTransport;
+
+    beforeEach(async () => {
+      serverDb = new Database(':memory:');
+      await serverDb.initialize();
+      serverTaskService = new TaskService(serverDb);
+      transport = new LoopbackSyncTransport(serverDb, serverTaskService);
+      syncService = new SyncService(db, taskService, transport);
+    });
+
+    afterEach(async () => {
+      await serverDb.close();
+      delete process.env.SYNC_BATCH_SIZE;
+      delete process.env.SYNC_RETRY_ATTEMPTS;
+    });
+
+    it('should push offline creates to the server database', async () => {
+      await taskService.createTask({ title: 'Loopback Task 1' });
+      await taskService.createTask({ title: 'Loopback Task 2' });
+
+      expect(await syncService.checkConnectivity()).toBe(true);
+      const result = await syncService.sync();
+
+      expect(result.success).toBe(true);
+      expect(result.synced_items).toBe(2);
+
+      const serverTasks = await new TaskService(serverDb).getAllTasks();
+      expect(serverTasks.map((t) => t.title).sort()).toEqual([
+        'Loopback Task 1',
+        'Loopback Task 2',
+      ]);
+
+      const localQueue = await db.all('SELECT * FROM sync_queue');
+      expect(localQueue.length).toBe(0);
+      const [local] = await taskService.getAllTasks();
+      expect(local.sync_status).toBe('synced');
+    });
+
+    it('should keep the queue item when a crash interrupts marking it synced', async () => {
+      const task = await taskService.createTask({ title: 'Half synced' });
+      const run = db.run.bind(db);
+      const spy = vi.spyOn(db, 'run').mockImplementation(async (sql, params) => {
+        if (sql.includes('INSERT INTO task_base_snapshots')) {
+          throw new Error('SQLITE_IOERR: disk I/O error');
+        }
+        return run(sql, params);
+      });
+
+      const result = await syncService.sync();
+      spy.mockRestore();
+
+      expect(result.success).toBe(false);
+      const queue = await db.all('SELECT * FROM sync_queue');
+      expect(queue.length).toBe(1);
+      expect(queue[0].retry_count).toBe(1);
+      const local = await taskService.getTask(task.id);
+      expect(local?.sync_status).toBe('error');
+      expect(local?.server_id).toBeFalsy();
+    });
+
+    it('should not create a task twice when a batch response is lost', async () => {
+      const task = await taskService.createTask({ title: 'Sent twice' });
+      const send = transport.sendBatch.bind(transport);
+      vi.spyOn(transport, 'sendBatch').mockImplementationOnce(async (payload) => {
+        await send(payload);
+        throw new Error('timeout of 5000ms exceeded');
+      });
+
+      await syncService.sync();
+      await db.run('UPDATE sync_queue SET next_attempt_at = NULL');
+      const retry = await syncService.sync();
+
+      expect(retry.success).toBe(true);
+      const serverTasks = await serverTaskService.getAllTasks();
+      expect(serverTasks.map((t) => t.id)).toEqual([task.id]);
+      expect((await taskService.getTask(task.id))?.server_id).toBe(task.id);
+    });
+
+    it('should keep edits folded into a create whose response was lost', async () => {
+      const task = await taskService.createTask({ title: 'First title' });
+      const send = transport.sendBatch.bind(transport);
+      vi.spyOn(transport, 'sendBatch').mockImplementationOnce(async (payload) => {
+        await send(payload);
+        throw new Error('timeout of 5000ms exceeded');
+      });
+
+      await syncService.sync();
+      await taskService.updateTask(task.id, { title: 'Edited offline' });
+      await db.run('UPDATE sync_queue SET next_attempt_at = NULL');
+      await syncService.sync();
+
+      const serverTasks = await serverTaskService.getAllTasks();
+      expect(serverTasks).toHaveLength(1);
+      expect(serverTasks[0].title).toBe('Edited offline');
+    });
+
+    it('should send the delete of a task whose create response was lost', async () => {
+      const task = await taskService.createTask({ title: 'Deleted offline' });
+      const send = transport.sendBatch.bind(transport);
+      vi.spyOn(transport, 'sendBatch').mockImplementationOnce(async (payload) => {
+        await send(payload);
+        throw new Error('timeout of 5000ms exceeded');
+      });
+
+      await syncService.sync();
+      await taskService.deleteTask(task.id);
+      await db.run('UPDATE sync_queue SET next_attempt_at = NULL');
+      const retry = await syncService.sync();
+
+      expect(retry.success).toBe(true);
+      expect(await serverTaskService.getAllTasks()).toEqual([]);
+      const serverTask = await serverTaskService.getTask(task.id, true);
+      expect(serverTask?.is_deleted).toBe(true);
+      expect(await db.all('SELECT * FROM sync_queue')).toEqual([]);
+    });
+
+    it('should dead-letter items the server rejects without retrying them', async () => {
+      await syncService.addToSyncQueue('unknown-task', 'update', {
+        title: 'Nope',
+      });
+
+      const result = await syncService.sync();
+
+      expect(result.success).toBe(false);
+      expect(result.errors[0].task_id).toBe('unknown-task');
+      expect(await db.all('SELECT * FROM sync_queue')).toEqual([]);
+      const [dead] = await db.all('SELECT * FROM dead_letter_queue');
+      expect(dead).toMatchObject({
+        task_id: 'unknown-task',
+        error_message: 'Task not found',
+      });
+    });
+
+    it('should retry batch items that fail without a status', async () => {
+      await taskService.createTask({ title: 'Flaky' });
+      vi.spyOn(transport, 'sendBatch').mockImplementationOnce(async (request) => ({
+        processed_items: request.items.map((item) => ({
+          client_id: item.task_id,
+          server_id: '',
+          status: 'error' as const,
+          error: 'SQLITE_BUSY: database is locked',
+        })),
+      }));
+
+      await syncService.sync();
+
+      const [item] = await db.all('SELECT * FROM sync_queue');
+      expect(item.retry_count).toBe(1);
+      expect(await db.all('SELECT * FROM dead_letter_queue')).toEqual([]);
+    });
+
+    it('should wait out the backoff before retrying a failed item', async () => {
+      await taskService.createTask({ title: 'Flaky' });
+      const sendBatch = vi
+        .spyOn(transport, 'sendBatch')
+        .mockRejectedValueOnce(
+          Object.assign(new Error('Request failed with status code 503'), {
+            response: { status: 503, headers: {} },
+          }),
+        );
+
+      await syncService.sync();
+      const retry = await syncService.sync();
+
+      expect(sendBatch).toHaveBeenCalledTimes(1);
+      expect(retry.synced_items).toBe(0);
+      const [item] = await db.all('SELECT * FROM sync_queue');
+      expect(item.retry_count).toBe(1);
+      expect(new Date(item.next_attempt_at).getTime()).toBeGreaterThan(
+        Date.now(),
+      );
+
+      await db.run('UPDATE sync_queue SET next_attempt_at = NULL');
+      const due = await syncService.sync();
+      expect(due.synced_items).toBe(1);
+    });
+
+    it('should honour Retry-After on 429 responses', async () => {
+      await taskService.createTask({ title: 'Throttled' });
+      vi.spyOn(transport, 'sendBatch').mockRejectedValueOnce(
+        Object.assign(new Error('Request failed with status code 429'), {
+          response: { status: 429, headers: { 'retry-after': '120' } },
+        }),
+      );
+
+      await syncService.sync();
+
+      const [item] = await db.all('SELECT * FROM sync_queue');
+      expect(
+        new Date(item.next_attempt_at).getTime() - Date.now(),
+      ).toBeGreaterThan(110_000);
+    });
+
+    it('should dead-letter permanent rejections without retrying', async () => {
+      const task = await taskService.createTask({ title: 'Invalid' });
+      vi.spyOn(transport, 'sendBatch').mockRejectedValueOnce(
+        Object.assign(new Error('Request failed with status code 400'), {
+          response: { status: 400, headers: {} },
+        }),
+      );
+
+      await syncService.sync();
+
+      expect(await db.all('SELECT * FROM sync_queue')).toEqual([]);
+      const [dead] = await db.all('SELECT * FROM dead_letter_queue');
+      expect(dead.task_id).toBe(task.id);
+      expect((await taskService.getTask(task.id))?.sync_status).toBe('failed');
+    });
+
+    it('should stop without using up attempts when the token is refused', async () => {
+      process.env.SYNC_RETRY_ATTEMPTS = '1';
+      const task = await taskService.createTask({ title: 'Signed out' });
+      const fetchChanges = vi.spyOn(transport, 'fetchChanges');
+      vi.spyOn(transport, 'sendBatch').mockRejectedValueOnce(
+        Object.assign(new Error('Request failed with status code 401'), {
+          response: { status: 401, headers: {} },
+        }),
+      );
+
+      const result = await syncService.sync();
+
+      expect(result.success).toBe(false);
+      expect(result.errors[0].error).toContain('401');
+      expect(fetchChanges).not.toHaveBeenCalled();
+      expect(await db.all('SELECT * FROM dead_letter_queue')).toEqual([]);
+      const [item] = await db.all('SELECT * FROM sync_queue');
+      expect(item).toMatchObject({ retry_count: 0, status: 'pending' });
+      expect((await taskService.getTask(task.id))?.sync_status).toBe('pending');
+
+      expect((await syncService.sync()).success).toBe(true);
+      expect(await db.all('SELECT * FROM sync_queue')).toEqual([]);
+    });
+
+    it('should take the retry limit from SYNC_RETRY_ATTEMPTS', async () => {
+      process.env.SYNC_RETRY_ATTEMPTS = '1';
+      await syncService.addToSyncQueue('unknown-task', 'update', {
+        title: 'Nope',
+      });
+
+      await syncService.sync();
+
+      expect(await db.all('SELECT * FROM sync_queue')).toEqual([]);
+      const dead = await db.all('SELECT * FROM dead_letter_queue');
+      expect(dead.length).toBe(1);
+    });
+
+    it('should run overlapping syncs only once', async () => {
+      await taskService.createTask({ title: 'Once' });
+      const sendBatch = vi.spyOn(transport, 'sendBatch');
+
+      const [first, second] = await Promise.all([
+        syncService.sync(),
+        new SyncService(db, taskService, transport).sync(),
+      ]);
+
+      expect(sendBatch).toHaveBeenCalledTimes(1);
+      expect(second).toBe(first);
+      expect(await serverTaskService.getAllTasks()).toHaveLength(1);
+    });
+
+    it('should mark items and tasks in-progress while they are sent', async () => {
+      const task = await taskService.createTask({ title: 'Sending' });
+      let during: { queue: any; task: any } | undefined;
+      const send = transport.sendBatch.bind(transport);
+      vi.spyOn(transport, 'sendBatch').mockImplementation(async (payload) => {
+        during = {
+          queue: await db.get('SELECT status FROM sync_queue'),
+          task: await taskService.getTask(task.id),
+        };
+        return send(payload);
+      });
+
+      await syncService.sync();
+
+      expect(during?.queue.status).toBe('in-progress');
+      expect(during?.task.sync_status).toBe('in-progress');
+      expect((await taskService.getTask(task.id))?.sync_status).toBe('synced');
+    });
+
+    it('should resend items left in-progress by an interrupted sync', async () => {
+      const task = await taskService.createTask({ title: 'Interrupted' });
+      await db.run("UPDATE sync_queue SET status = 'in-progress'");
+      await db.run("UPDATE tasks SET sync_status = 'in-progress'");
+
+      const result = await syncService.sync();
+
+      expect(result.synced_items).toBe(1);
+      expect((await taskService.getTask(task.id))?.sync_status).toBe('synced');
+    });
+
+    it('should send the queue in batches of SYNC_BATCH_SIZE', async () => {
+      process.env.SYNC_BATCH_SIZE = '2';
+      const sendBatch = vi.spyOn(transport, 'sendBatch');
+      for (let i = 1; i <= 5; i++) {
+        await taskService.createTask({ title: `Task ${i}` });
+      }
+
+      const result = await syncService.sync();
+
+      expect(result.synced_items).toBe(5);
+      expect(sendBatch).toHaveBeenCalledTimes(3);
+      expect(sendBatch.mock.calls[0][0].checksum).toBeDefined();
+    });
+
+    it('should coalesce a task edited many times offline into one request', async () => {
+      const sendBatch = vi.spyOn(transport, 'sendBatch');
+      const task = await taskService.createTask({ title: 'Draft' });
+      for (let i = 1; i <= 40; i++) {
+        await taskService.updateTask(task.id, { title: `Draft ${i}` });
+      }
+
+      const result = await syncService.sync();
+
+      expect(result.synced_items).toBe(1);
+      const [request] = sendBatch.mock.calls[0];
+      expect(request.items).toHaveLength(1);
+      expect(request.items[0].operation).toBe('create');
+      expect(request.items[0].data.title).toBe('Draft 40');
+      const [onServer] = await serverTaskService.getAllTasks();
+      expect(onServer.title).toBe('Draft 40');
+    });
+
+    it('should not send a task created and deleted while offline', async () => {
+      const sendBatch = vi.spyOn(transport, 'sendBatch');
+      const task = await taskService.createTask({ title: 'Scratch' });
+      await taskService.updateTask(task.id, { title: 'Scratch 2' });
+      await taskService.deleteTask(task.id);
+
+      const result = await syncService.sync();
+
+      expect(result.success).toBe(true);
+      expect(sendBatch).not.toHaveBeenCalled();
+      expect(await db.all('SELECT * FROM sync_queue')).toEqual([]);
+      const local = await taskService.getTask(task.id, true);
+      expect(local?.sync_status).toBe('synced');
+      expect(await serverTaskService.getAllTasks()).toEqual([]);
+    });
+
+    it('should hold back later operations of a task whose earlier one failed', async () => {
+      process.env.SYNC_BATCH_SIZE = '1';
+      await syncService.addToSyncQueue('unknown-task', 'delete', {});
+      await syncService.addToSyncQueue('unknown-task', 'update', {
+        title: 'After delete',
+      });
+      await taskService.createTask({ title: 'Unrelated' });
+      const sendBatch = vi.spyOn(transport, 'sendBatch');
+
+      const result = await syncService.sync();
+
+      expect(result.synced_items).toBe(1);
+      expect(result.failed_items).toBe(1);
+      const sent = sendBatch.mock.calls.flatMap(([request]) => request.items);
+      expect(sent.map((i) => i.operation)).toEqual(['delete', 'create']);
+      const queue = await db.all(
+        'SELECT operation, retry_count FROM sync_queue ORDER BY created_at',
+      );
+      expect(queue).toEqual([{ operation: 'update', retry_count: 0 }]);
+      const dead = await db.all('SELECT operation FROM dead_letter_queue');
+      expect(dead).toEqual([{ operation: 'delete' }]);
+    });
+
+    it('should sync subtasks after their parent, in one batch or across batches', async () => {
+      process.env.SYNC_BATCH_SIZE = '1';
+      const parent = await taskService.createTask({ title: 'Parent' });
+      const child = await taskService.createTask({
+        title: 'Child',
+        parent_id: parent.id,
+      });
+
+      const result = await syncService.sync();
+
+      expect(result.success).toBe(true);
+      const local = await taskService.getTask(parent.id);
+      const [serverChild] = await serverTaskService.getChildren(
+        local!.server_id!,
+      );
+      expect(serverChild.title).toBe('Child');
+      expect((await taskService.getTask(child.id))?.parent_id).toBe(parent.id);
+
+      delete process.env.SYNC_BATCH_SIZE;
+      const second = await taskService.createTask({ title: 'Second' });
+      await taskService.createTask({ title: 'Nested', parent_id: second.id });
+      expect((await syncService.sync()).synced_items).toBe(2);
+      const { server_id } = (await taskService.getTask(second.id))!;
+      expect(await serverTaskService.getChildren(server_id!)).toHaveLength(1);
+    });
+
+    it('should hold back subtasks while their parent fails to sync', async () => {
+      process.env.SYNC_BATCH_SIZE = '1';
+      const parent = await taskService.createTask({ title: 'Parent' });
+      const child = await taskService.createTask({
+        title: 'Child',
+        parent_id: parent.id,
+      });
+      vi.spyOn(transport, 'sendBatch').mockImplementation(async (request) => ({
+        processed_items: request.items.map((item) => ({
+          client_id: item.task_id,
+          server_id: '',
+          status: 'error' as const,
+          error: 'Rejected',
+        })),
+      }));
+
+      const sendBatch = vi.mocked(transport.sendBatch);
+
+      await syncService.sync();
+
+      expect(sendBatch).toHaveBeenCalledTimes(1);
+      const queue = await db.all(
+        'SELECT task_id, retry_count FROM sync_queue ORDER BY created_at',
+      );
+      expect(queue).toEqual([
+        { task_id: parent.id, retry_count: 1 },
+        { task_id: child.id, retry_count: 0 },
+      ]);
+    });
+
+    it("should reject batch items that touch another user's tasks", async () => {
+      const theirs = await serverTaskService
+        .forOwner('alice')
+        .createTask({ title: "Alice's task" });
+      syncService = new SyncService(
+        db,
+        taskService,
+        new LoopbackSyncTransport(serverDb, serverTaskService, 'bob'),
+      );
+      await syncService.addToSyncQueue('hijack', 'update', {
+        server_id: theirs.id,
+        title: 'Taken over',
+        updated_at: new Date(Date.now() + 60_000),
+      });
+      const own = await taskService.createTask({ title: "Bob's task" });
+
+      const result = await syncService.sync();
+
+      expect(result.failed_items).toBe(1);
+      expect(result.errors[0].error).toContain('another user');
+      expect((await serverTaskService.getTask(theirs.id))?.title).toBe(
+        "Alice's task",
+      );
+      const { server_id } = (await taskService.getTask(own.id))!;
+      expect((await serverTaskService.getTask(server_id!))?.owner_id).toBe('bob');
+    });
+
+    it('should store server ids and sync later updates and deletes', async () => {
+      const task = await taskService.createTask({ title: 'Round trip' });
+      await taskService.updateTask(task.id, { completed: true });
+
+      await syncService.sync();
+
+      const synced = await taskService.getTask(task.id);
+      expect(synced?.server_id).toBeDefined();
+      const onServer = await serverTaskService.getTask(synced!.server_id!);
+      expect(onServer?.completed).toBe(true);
+
+      await taskService.deleteTask(task.id);
+      const result = await syncService.sync();
+
+      expect(result.success).toBe(true);
+      const deleted = await serverTaskService.getTask(synced!.server_id!, true);
+      expect(deleted?.is_deleted).toBe(true);
+    });
+
+    it('should apply the server version when it is newer', async () => {
+      const task = await taskService.createTask({ title: 'Original' });
+      await syncService.sync();
+      const { server_id } = (await taskService.getTask(task.id))!;
+
+      await taskService.updateTask(task.id, { title: 'Local edit' });
+      const serverTask = (await serverTaskService.getTask(server_id!))!;
+      await serverTaskService.applyRemoteTask({
+        ...serverTask,
+        title: 'Server edit',
+        hlc: formatHlc({
+          wallTime: Date.now() + 60_000,
+          counter: 0,
+          deviceId: 'server',
+        }),
+      });
+
+      const result = await syncService.sync();
+
+      expect(result.success).toBe(true);
+      const local = await taskService.getTask(task.id);
+      expect(local?.title).toBe('Server edit');
+      expect(local?.sync_status).toBe('synced');
+    });
+
+    it('should pull edits made on a second device', async () => {
+      const deviceB = new Database(':memory:');
+      await deviceB.initialize();
+      const deviceBTasks = new TaskService(deviceB);
+      const deviceBSync = new SyncService(deviceB, deviceBTasks, transport);
+
+      const task = await taskService.createTask({ title: 'Shared' });
+      await syncService.sync();
+
+      await deviceBSync.sync();
+      const [copy] = await deviceBTasks.getAllTasks();
+      expect(copy.title).toBe('Shared');
+
+      await deviceBTasks.updateTask(copy.id, { title: 'Edited on B' });
+      await deviceBSync.sync();
+
+      const result = await syncService.sync();
+      expect(result.pulled_items).toBeGreaterThan(0);
+      expect((await taskService.getTask(task.id))?.title).toBe('Edited on B');
+
+      // Nothing new on the server, so the stored cursor yields no changes
+      expect(await syncService.pull()).toBe(0);
+      await deviceB.close();
+    });
+
+    it('should keep local owners when syncing as another server account', async () => {
+      const aliceTasks = taskService.forOwner('alice');
+      syncService = new SyncService(
+        db,
+        aliceTasks,
+        new LoopbackSyncTransport(serverDb, serverTaskService, 'server-user'),
+      );
+      const task = await aliceTasks.createTask({ title: 'Mine' });
+      await syncService.sync();
+
+      const { server_id } = (await aliceTasks.getTask(task.id))!;
+      expect((await serverTaskService.getTask(server_id!))?.owner_id).toBe(
+        'server-user',
+      );
+      await serverTaskService
+        .forOwner('server-user')
+        .updateTask(server_id!, { title: 'Edited upstream' });
+      const added = await serverTaskService
+        .forOwner('server-user')
+        .createTask({ title: 'Added upstream' });
+
+      const result = await syncService.sync();
+
+      expect(result.pulled_items).toBeGreaterThan(0);
+      const mine = await aliceTasks.getTask(task.id);
+      expect(mine).toMatchObject({ title: 'Edited upstream', owner_id: 'alice' });
+      const pulled = (await aliceTasks.getAllTasks()).find(
+        (t) => t.server_id === added.id,
+      );
+      expect(pulled?.owner_id).toBe('alice');
+    });
+
+    it("should sync each user's tasks as their own linked account", async () => {
+      // The loopback server takes each token as the account it signs in
+      syncService = new SyncService(
+        db,
+        taskService,
+        new LoopbackSyncTransport(serverDb, serverTaskService, 'server-own'),
+        undefined,
+        (token) => new LoopbackSyncTransport(serverDb, serverTaskService, token),
+      );
+      const accounts = new SyncAccountService(db);
+      await accounts.link('alice', 'server-alice');
+      await accounts.link('bob', 'server-bob');
+      const alice = taskService.forOwner('alice');
+      const bob = taskService.forOwner('bob');
+      const mine = await alice.createTask({ title: "Alice's" });
+      const theirs = await bob.createTask({ title: "Bob's" });
+      const unlinked = await taskService
+        .forOwner('carol')
+        .createTask({ title: "Carol's" });
+
+      const result = await syncService.sync();
+
+      expect(result.success).toBe(true);
+      expect(result.synced_items).toBe(2);
+      const owners = async (owner: string) =>
+        (await serverTaskService.forOwner(owner).getAllTasks()).map(
+          (t) => t.title,
+        );
+      expect(await owners('server-alice')).toEqual(["Alice's"]);
+      expect(await owners('server-bob')).toEqual(["Bob's"]);
+      expect((await alice.getTask(mine.id))?.sync_status).toBe('synced');
+      expect((await bob.getTask(theirs.id))?.sync_status).toBe('synced');
+      const queued = await db.all('SELECT task_id FROM sync_queue');
+      expect(queued).toEqual([{ task_id: unlinked.id }]);
+
+      await serverTaskService
+        .forOwner('server-alice')
+        .createTask({ title: 'Added upstream' });
+      expect((await syncService.sync()).pulled_items).toBe(1);
+
+      const pulled = (await alice.getAllTasks()).find(
+        (t) => t.title === 'Added upstream',
+      );
+      expect(pulled?.owner_id).toBe('alice');
+      expect((await bob.getAllTasks()).map((t) => t.title)).toEqual(["Bob's"]);
+    });
+
+    it('should record pulled edits in the history as remote changes', async () => {
+      const deviceB = new Database(':memory:');
+      await deviceB.initialize();
+      const deviceBTasks = new TaskService(deviceB);
+      const deviceBSync = new SyncService(deviceB, deviceBTasks, transport);
+
+      const task = await taskService.createTask({ title: 'Shared' });
+      await syncService.sync();
+      await deviceBSync.sync();
+      const [copy] = await deviceBTasks.getAllTasks();
+      await deviceBTasks.updateTask(copy.id, { title: 'Edited on B' });
+      await deviceBSync.sync();
+      await syncService.sync();
+
+      // Our own create coming back from the server adds nothing
+      const history = await taskService.getHistory(task.id);
+      expect(history?.items.map((r) => r.source)).toEqual(['remote', 'local']);
+      expect(history?.items[0]).toMatchObject({
+        device_id: await ClockService.for(deviceB).deviceId(),
+        changes: { title: { from: 'Shared', to: 'Edited on B' } },
+      });
+      await deviceB.close();
+    });
+  });
+
+  describe('Conflict Strategies', () => {
+    let serverDb: Database;
+    let transport: LoopbackSyncTransport;
+    let deviceB: Database;
+    let deviceBTasks: TaskService;
+    let deviceBSync: SyncService;
+
+    beforeEach(async () => {
+      serverDb = new Database(':memory:');
+      await serverDb.initialize();
+      transport = new LoopbackSyncTransport(serverDb);
+      syncService = new SyncService(db, taskService, transport);
+
+      deviceB = new Database(':memory:');
+      await deviceB.initialize();
+      deviceBTasks = new TaskService(deviceB);
+      deviceBSync = new SyncService(deviceB, deviceBTasks, transport);
+    });
+
+    afterEach(async () => {
+      await deviceB.close();
+      await serverDb.close();
+    });
+
+    async function createSharedTask() {
+      const task = await taskService.createTask({ title: 'Shared' });
+      await syncService.sync();
+      await deviceBSync.sync();
+      const [copy] = await deviceBTasks.getAllTasks();
+      return { task, copy };
+    }
+
+    // Moves the task's last write, and its queued snapshot, to the given
+    // time on that device's clock, so edits have a definite order
+    async function setVersion(database: Database, id: string, at: Date) {
+      const hlc = formatHlc({
+        wallTime: at.getTime(),
+        counter: 0,
+        deviceId: await ClockService.for(database).deviceId(),
+      });
+      await database.run(
+        'UPDATE tasks SET updated_at = ?, hlc = ? WHERE id = ?',
+        [at.toISOString(), hlc, id],
+      );
+      await database.run(
+        `UPDATE sync_queue
+         SET data = json_set(data, '$.updated_at', ?, '$.hlc', ?)
+         WHERE task_id = ?`,
+        [at.toISOString(), hlc, id],
+      );
+    }
+
+    it('should merge edits to different fields', async () => {
+      const { task, copy } = await createSharedTask();
+
+      await taskService.updateTask(task.id, { title: 'Renamed on A' });
+      await deviceBTasks.updateTask(copy.id, { completed: true });
+      await setVersion(db, task.id, new Date(Date.now() - 60_000));
+      await deviceBSync.sync();
+
+      await syncService.sync({ strategy: 'merge' });
+      const local = await taskService.getTask(task.id);
+      expect(local?.title).toBe('Renamed on A');
+      expect(local?.completed).toBe(true);
+
+      await syncService.sync({ strategy: 'merge' });
+      await deviceBSync.sync();
+      const remote = await deviceBTasks.getTask(copy.id);
+      expect(remote?.title).toBe('Renamed on A');
+      expect(remote?.completed).toBe(true);
+
+      const [conflict] = await db.all('SELECT * FROM sync_conflicts');
+      expect(conflict.task_id).toBe(task.id);
+      expect(conflict.strategy).toBe('merge');
+      expect(conflict.outcome).toBe('merged');
+    });
+
+    it('should sync and merge due dates, priority and tags', async () => {
+      const { task, copy } = await createSharedTask();
+      const due = new Date('2030-05-01T12:00:00Z');
+
+      await taskService.updateTask(task.id, { due_at: due, tags: ['work'] });
+      await deviceBTasks.updateTask(copy.id, { priority: 'urgent' });
+      await setVersion(db, task.id, new Date(Date.now() - 60_000));
+      await deviceBSync.sync();
+
+      await syncService.sync({ strategy: 'merge' });
+      await syncService.sync({ strategy: 'merge' });
+      await deviceBSync.sync();
+
+      for (const synced of [
+        await taskService.getTask(task.id),
+        await deviceBTasks.getTask(copy.id),
+      ]) {
+        expect(synced?.due_at).toEqual(due);
+        expect(synced?.priority).toBe('urgent');
+        expect(synced?.tags).toEqual(['work']);
+      }
+    });
+
+    it('should fall back to last-write-wins without merge', async () => {
+      const { task, copy } = await createSharedTask();
+
+      await taskService.updateTask(task.id, { title: 'Renamed on A' });
+      await deviceBTasks.updateTask(copy.id, { completed: true });
+      await setVersion(db, task.id, new Date(Date.now() - 60_000));
+      await deviceBSync.sync();
+
+      await syncService.sync();
+      const local = await taskService.getTask(task.id);
+      expect(local?.title).toBe('Shared');
+      expect(local?.completed).toBe(true);
+    });
+
+    it('should honour server-wins for a newer local edit', async () => {
+      const { task, copy } = await createSharedTask();
+
+      await deviceBTasks.updateTask(copy.id, { title: 'From B' });
+      await deviceBSync.sync();
+      await taskService.updateTask(task.id, { title: 'Newer on A' });
+
+      await syncService.pull({ strategy: 'server-wins' });
+
+      expect((await taskService.getTask(task.id))?.title).toBe('From B');
+      const queue = await db.all('SELECT * FROM sync_queue WHERE task_id = ?', [
+        task.id,
+      ]);
+      expect(queue.length).toBe(0);
+    });
+
+    it('should apply an edit made on the latest version from a slow clock', async () => {
+      const { copy } = await createSharedTask();
+
+      await deviceBTasks.updateTask(copy.id, { title: 'From B' });
+      await setVersion(deviceB, copy.id, new Date(Date.now() - 60_000));
+      const result = await deviceBSync.sync();
+
+      expect(result.success).toBe(true);
+      const [server] = await new TaskService(serverDb).getAllTasks();
+      expect(server.title).toBe('From B');
+      expect(await deviceB.all('SELECT * FROM sync_conflicts')).toEqual([]);
+    });
+
+    it('should report an edit made on an outdated version as a conflict', async () => {
+      const { task, copy } = await createSharedTask();
+
+      await taskService.updateTask(task.id, { title: 'From A' });
+      await syncService.sync();
+      await deviceBTasks.updateTask(copy.id, { title: 'From B' });
+
+      await deviceBSync.sync();
+      const [conflict] = await deviceB.all('SELECT * FROM sync_conflicts');
+      expect(conflict.outcome).toBe('local');
+
+      // B's edit is the later one, so it is sent again on the server's
+      // current version
+      await deviceBSync.sync();
+      const [server] = await new TaskService(serverDb).getAllTasks();
+      expect(server.title).toBe('From B');
+    });
+
+    it('should delete a subtask added while another device deleted its parent', async () => {
+      const { task, copy } = await createSharedTask();
+
+      await deviceBTasks.deleteTask(copy.id);
+      await deviceBSync.sync();
+
+      const child = await taskService.createTask({
+        title: 'Added on A',
+        parent_id: task.id,
+      });
+      const result = await syncService.sync();
+
+      expect(result.success).toBe(true);
+      expect(await taskService.getTask(task.id)).toBeNull();
+      expect(await taskService.getTask(child.id)).toBeNull();
+      const { server_id } = (await taskService.getTask(child.id, true))!;
+      const onServer = await new TaskService(serverDb).getTask(server_id!, true);
+      expect(onServer?.is_deleted).toBe(true);
+      expect(await db.all('SELECT * FROM sync_queue')).toEqual([]);
+    });
+
+    // Runs fn with this process's clock moved by offsetMs
+    async function withClockSkew<T>(offsetMs: number, fn: () => Promise<T>) {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(Date.now() + offsetMs);
+      try {
+        return await fn();
+      } finally {
+        vi.useRealTimers();
+      }
+    }
+
+    it('should let a later edit win even when its device clock is behind', async () => {
+      const { task, copy } = await createSharedTask();
+      await taskService.updateTask(task.id, { title: 'From A' });
+      await syncService.sync();
+      await deviceBSync.sync();
+
+      // B edits after seeing A's edit, with a clock an hour slow
+      await withClockSkew(-3_600_000, () =>
+        deviceBTasks.updateTask(copy.id, { title: 'From B' }),
+      );
+      const result = await deviceBSync.sync();
+      await syncService.sync();
+
+      expect(result.success).toBe(true);
+      expect((await deviceBTasks.getTask(copy.id))?.title).toBe('From B');
+      expect((await taskService.getTask(task.id))?.title).toBe('From B');
+    });
+
+    it('should clamp timestamps from a clock far in the future', async () => {
+      const { task, copy } = await createSharedTask();
+      const soon = () => Date.now() + 60_000;
+
+      await withClockSkew(86_400_000, () =>
+        taskService.updateTask(task.id, { title: 'From the future' }),
+      );
+      await syncService.sync();
+
+      const [onServer] = await new TaskService(serverDb).getAllTasks();
+      expect(onServer.title).toBe('From the future');
+      expect(parseHlc(onServer.hlc!)!.wallTime).toBeLessThan(soon());
+      expect(onServer.updated_at.getTime()).toBeLessThan(soon());
+
+      // Other devices' clocks are not dragged a day ahead either
+      await deviceBSync.sync();
+      const edited = await deviceBTasks.updateTask(copy.id, { title: 'From B' });
+      expect(parseHlc(edited!.hlc!)!.wallTime).toBeLessThan(soon());
+      await deviceBSync.sync();
+      expect((await new TaskService(serverDb).getAllTasks())[0].title).toBe(
+        'From B',
+      );
+    });
+
+    it('should let a delete win over an update with the same timestamp', async () => {
+      const { task, copy } = await createSharedTask();
+      const at = new Date(Date.now() + 60_000);
+
+      await deviceBTasks.deleteTask(copy.id);
+      await setVersion(deviceB, copy.id, at);
+      await deviceBSync.sync();
+
+      await taskService.updateTask(task.id, { title: 'Edited on A' });
+      await setVersion(db, task.id, at);
+
+      await syncService.pull();
+
+      expect(await taskService.getTask(task.id)).toBeNull();
+      expect((await taskService.getTask(task.id, true))?.is_deleted).toBe(true);
+    });
+
+    it('should sync a restore from the trash as an un-delete', async () => {
+      const { task, copy } = await createSharedTask();
+      await taskService.deleteTask(task.id);
+      await syncService.sync();
+      await deviceBSync.sync();
+      expect((await deviceBTasks.getTrash()).map((t) => t.id)).toEqual([copy.id]);
+
+      await taskService.restoreTask(task.id);
+      await syncService.sync();
+      await deviceBSync.sync();
+
+      const [server] = await new TaskService(serverDb).getAllTasks();
+      expect(server.is_deleted).toBe(false);
+      expect((await deviceBTasks.getTask(copy.id))?.title).toBe('Shared');
+      expect(await deviceBTasks.getTrash()).toEqual([]);
+    });
+
+    it('should let a later delete win over a restore', async () => {
+      const { task, copy } = await createSharedTask();
+      await taskService.deleteTask(task.id);
+      await syncService.sync();
+      await deviceBSync.sync();
+
+      await deviceBTasks.restoreTask(copy.id);
+      await setVersion(deviceB, copy.id, new Date(Date.now() - 60_000));
+      await taskService.restoreTask(task.id);
+      await taskService.deleteTask(task.id);
+      await syncService.sync();
+
+      await deviceBSync.sync();
+
+      expect(await deviceBTasks.getTask(copy.id)).toBeNull();
+      const [server] = await new TaskService(serverDb).getAllTasks();
+      expect(server).toBeUndefined();
+    });
+
+    it('should drop tombstones once both devices have pulled them', async () => {
+      const { task, copy } = await createSharedTask();
+      await taskService.deleteTask(task.id);
+      await syncService.sync();
+      const tombstones = new TombstoneService(serverDb, { retentionMs: 0 });
+
+      // Device B has not seen the delete yet
+      expect(await tombstones.collect()).toBe(0);
+
+      await deviceBSync.sync();
+      await deviceBSync.sync();
+      await syncService.sync();
+      expect(await deviceBTasks.getTask(copy.id, true)).not.toBeNull();
+      expect(await tombstones.collect()).toBe(1);
+
+      // B's delete came from the server, so purging it there is immediate,
+      // and the server no longer has a tombstone to send back
+      await deviceBTasks.purgeTask(copy.id);
+      await deviceBSync.sync();
+      expect(await deviceBTasks.getTask(copy.id, true)).toBeNull();
+    });
+  });
+});
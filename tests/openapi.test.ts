@@ -0,0 +1,558 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import express, { Router } from 'express';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Database } from '../src/db/database';
+import { AuthService } from '../src/services/authService';
+import { TaskService } from '../src/services/taskService';
+import { ConflictService } from '../src/services/conflictService';
+import { requireAuth } from '../src/middleware/auth';
+import { errorHandler } from '../src/middleware/errorHandler';
+import { createAuthRouter } from '../src/routes/auth';
+import { createTaskRouter } from '../src/routes/tasks';
+import { createTagRouter } from '../src/routes/tags';
+import { createEventRouter } from '../src/routes/events';
+import { createSyncRouter } from '../src/routes/sync';
+import {
+  API_ROUTES,
+  createDocsRouter,
+  openApiDocument,
+} from '../src/routes/docs';
+import { calculateBatchChecksum } from '../src/utils/checksum';
+import { SyncQueueItem } from '../src/types';
+
+type JsonSchema = { [keyword: string]: any };
+
+interface Operation {
+  operationId: string;
+  responses: Record<
+    string,
+    { content?: Record<string, { schema: JsonSchema }>; headers?: object }
+  >;
+}
+
+const document = openApiDocument() as {
+  paths: Record<string, Record<string, Operation>>;
+  components: { schemas: Record<string, JsonSchema> };
+};
+
+/**
+ * Problems with `value` against `schema`, for the parts of JSON Schema the
+ * document uses. Empty when the value matches.
+ */
+function problems(schema: JsonSchema, value: unknown, at = '$'): string[] {
+  if (schema.$ref) {
+    const name = schema.$ref.replace('#/components/schemas/', '');
+    return problems(document.components.schemas[name], value, at);
+  }
+  if (schema.anyOf) {
+    const all = schema.anyOf.map((s: JsonSchema) => problems(s, value, at));
+    return all.some((p: string[]) => p.length === 0)
+      ? []
+      : [`${at} matches none of anyOf: ${all.flat().join('; ')}`];
+  }
+  if (schema.oneOf) {
+    const all = schema.oneOf.map((s: JsonSchema) => problems(s, value, at));
+    const matching = all.filter((p: string[]) => p.length === 0).length;
+    return matching === 1
+      ? []
+      : [`${at} matches ${matching} of oneOf: ${all.flat().join('; ')}`];
+  }
+  if ('const' in schema && value !== schema.const) {
+    return [`${at} is not ${JSON.stringify(schema.const)}`];
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [`${at} is ${JSON.stringify(value)}, not one of ${schema.enum}`];
+  }
+
+  const type =
+    value === null
+      ? 'null'
+      : Array.isArray(value)
+        ? 'array'
+        : Number.isInteger(value)
+          ? 'integer'
+          : typeof value;
+  if (schema.type && schema.type !== type) {
+    return [`${at} is ${type}, not ${schema.type}`];
+  }
+
+  const found: string[] = [];
+  if (typeof value === 'string') {
+    if (schema.format === 'date-time' && Number.isNaN(Date.parse(value))) {
+      found.push(`${at} is not a date-time: ${value}`);
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      found.push(`${at} does not match ${schema.pattern}`);
+    }
+    if (value.length < (schema.minLength ?? 0)) {
+      found.push(`${at} is shorter than ${schema.minLength}`);
+    }
+    if (value.length > (schema.maxLength ?? Infinity)) {
+      found.push(`${at} is longer than ${schema.maxLength}`);
+    }
+  }
+  if (typeof value === 'number') {
+    if (value < (schema.minimum ?? -Infinity)) {
+      found.push(`${at} is less than ${schema.minimum}`);
+    }
+    if (value > (schema.maximum ?? Infinity)) {
+      found.push(`${at} is more than ${schema.maximum}`);
+    }
+  }
+  if (Array.isArray(value)) {
+    value.forEach((item, i) => {
+      found.push(...problems(schema.items ?? {}, item, `${at}[${i}]`));
+    });
+  }
+  if (type === 'object') {
+    const object = value as Record<string, unknown>;
+    for (const name of schema.required ?? []) {
+      if (!(name in object)) {
+        found.push(`${at}.${name} is missing`);
+      }
+    }
+    for (const [name, field] of Object.entries(object)) {
+      const property = schema.properties?.[name];
+      if (property) {
+        found.push(...problems(property, field, `${at}.${name}`));
+      } else if (schema.additionalProperties === false) {
+        found.push(`${at}.${name} is not in the schema`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        found.push(
+          ...problems(schema.additionalProperties, field, `${at}.${name}`),
+        );
+      }
+    }
+  }
+  return found;
+}
+
+function routesOf(router: Router): string[] {
+  return (router as unknown as { stack: any[] }).stack
+    .filter((layer) => layer.route)
+    .flatMap((layer) =>
+      Object.keys(layer.route.methods).map(
+        (method) => `${method} ${layer.route.path}`,
+      ),
+    );
+}
+
+describe('OpenAPI document', () => {
+  it('should name every operation once and resolve every $ref', () => {
+    const ids = Object.values(document.paths).flatMap((methods) =>
+      Object.values(methods).map((op) => op.operationId),
+    );
+    expect(new Set(ids).size).toBe(ids.length);
+
+    const refs = JSON.stringify(document).match(/#\/components\/schemas\/\w+/g);
+    for (const ref of new Set(refs)) {
+      expect(document.components.schemas).toHaveProperty(ref.split('/').pop()!);
+    }
+  });
+
+  it('should document exactly the routes each router has', async () => {
+    const db = new Database(':memory:');
+    await db.initialize();
+    const auth = new AuthService(db);
+    const routers: Record<string, Router> = {
+      Docs: createDocsRouter(),
+      Accounts: createAuthRouter(auth, requireAuth(auth)),
+      Tasks: createTaskRouter(db),
+      Events: createEventRouter(db),
+      Sync: createSyncRouter(db),
+    };
+
+    for (const group of API_ROUTES) {
+      const router =
+        group.prefix === '/tags' ? createTagRouter(db) : routers[group.tag];
+      expect(routesOf(router).sort()).toEqual(
+        group.routes.map((route) => `${route.method} ${route.path}`).sort(),
+      );
+    }
+    await db.close();
+  });
+});
+
+describe('responses match the OpenAPI document', () => {
+  let db: Database;
+  let server: http.Server;
+  let baseUrl: string;
+  let token: string;
+  let syncToken: string;
+  // `METHOD /path status` for every response checked
+  const seen = new Set<string>();
+
+  beforeAll(async () => {
+    db = new Database(':memory:');
+    await db.initialize();
+    const auth = new AuthService(db);
+    const authenticate = requireAuth(auth);
+    const app = express();
+    app.use(express.json());
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+
+    // Sync goes to this same server, as the account linked below
+    syncToken = (await auth.register('sync-device', 'sync-password')).token;
+    const env = { ...process.env };
+    process.env.API_BASE_URL = baseUrl;
+    process.env.SYNC_AUTH_TOKEN = syncToken;
+    const syncRouter = createSyncRouter(db, undefined, authenticate);
+    process.env = env;
+
+    // As mounted in server.ts
+    app.use('/api', createDocsRouter());
+    app.use('/api/auth', createAuthRouter(auth, authenticate));
+    app.use('/api/tasks', authenticate, createTaskRouter(db));
+    app.use('/api/tags', authenticate, createTagRouter(db));
+    app.use('/api/events', authenticate, createEventRouter(db));
+    app.use('/api', syncRouter);
+    app.use(errorHandler);
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+    await db.close();
+  });
+
+  interface Call {
+    params?: Record<string, string | number>;
+    query?: Record<string, string>;
+    headers?: Record<string, string>;
+    body?: unknown;
+    contentType?: string;
+    anonymous?: boolean;
+  }
+
+  /**
+   * Sends a request to a documented operation and checks the status and
+   * body of the response against the document.
+   */
+  async function call(
+    method: string,
+    path: string,
+    options: Call = {},
+  ): Promise<{ status: number; body: any; headers: Headers }> {
+    const operation = document.paths[path]?.[method];
+    expect(operation, `${method} ${path} is documented`).toBeDefined();
+
+    let url = baseUrl + path;
+    for (const [name, value] of Object.entries(options.params ?? {})) {
+      url = url.replace(`{${name}}`, encodeURIComponent(value));
+    }
+    if (options.query) {
+      url += `?${new URLSearchParams(options.query)}`;
+    }
+    const headers: Record<string, string> = { ...options.headers };
+    if (!options.anonymous) {
+      headers.Authorization = `Bearer ${token}`;
+    }
+    let body: string | undefined;
+    if (options.body !== undefined) {
+      headers['Content-Type'] = options.contentType ?? 'application/json';
+      body =
+        typeof options.body === 'string'
+          ? options.body
+          : JSON.stringify(options.body);
+    }
+
+    const res = await fetch(url, {
+      method: method.toUpperCase(),
+      headers,
+      body,
+    });
+    const response = operation.responses[res.status];
+    expect(
+      response,
+      `${method} ${path} answered ${res.status}: ${await res.clone().text()}`,
+    ).toBeDefined();
+    seen.add(`${method} ${path} ${res.status}`);
+
+    const type = (res.headers.get('content-type') ?? '').split(';')[0];
+    const text = await res.text();
+    if (!response.content) {
+      return { status: res.status, body: text, headers: res.headers };
+    }
+    expect(Object.keys(response.content)).toContain(type);
+    const parsed = type === 'application/json' ? JSON.parse(text) : text;
+    expect(
+      problems(response.content[type].schema, parsed),
+      `${method} ${path} ${res.status}`,
+    ).toEqual([]);
+    for (const header of Object.keys(response.headers ?? {})) {
+      if (header !== 'Idempotent-Replayed') {
+        expect(res.headers.has(header), `${header} header`).toBe(true);
+      }
+    }
+    return { status: res.status, body: parsed, headers: res.headers };
+  }
+
+  it('should match the document for every operation', async () => {
+    // Docs and accounts
+    await call('get', '/openapi.json', { anonymous: true });
+    expect((await call('get', '/docs', { anonymous: true })).body).toContain(
+      'openapi.json',
+    );
+    await call('get', '/health', { anonymous: true });
+    const registered = await call('post', '/auth/register', {
+      anonymous: true,
+      body: { username: 'alice', password: 'correct horse' },
+    });
+    expect(registered.status).toBe(201);
+    await call('post', '/auth/register', {
+      anonymous: true,
+      body: { username: 'alice', password: 'correct horse' },
+    });
+    await call('post', '/auth/register', {
+      anonymous: true,
+      body: { username: 'a', password: 'short' },
+    });
+    await call('post', '/auth/login', {
+      anonymous: true,
+      body: { username: 'alice', password: 'wrong password' },
+    });
+    token = (
+      await call('post', '/auth/login', {
+        anonymous: true,
+        body: { username: 'alice', password: 'correct horse' },
+      })
+    ).body.token;
+    await call('get', '/auth/me');
+    await call('get', '/auth/me', { anonymous: true });
+
+    // Tasks
+    const parent = (
+      await call('post', '/tasks', {
+        body: {
+          title: 'Parent',
+          description: 'Has subtasks',
+          due_at: '2020-01-01T00:00:00.000Z',
+          priority: 'high',
+          tags: ['home', 'urgent'],
+        },
+        headers: { 'Idempotency-Key': 'create-parent' },
+      })
+    ).body;
+    await call('post', '/tasks', {
+      body: { title: 'Parent' },
+      headers: { 'Idempotency-Key': 'create-parent' },
+    });
+    const child = (
+      await call('post', '/tasks', {
+        body: { title: 'Child', parent_id: parent.id },
+      })
+    ).body;
+    await call('post', '/tasks', {
+      body: { title: 'Orphan', parent_id: 'missing' },
+    });
+    await call('post', '/tasks', { body: { title: '' } });
+
+    await call('get', '/tasks', { query: { limit: '1' } });
+    await call('get', '/tasks', { query: { cursor: 'not a cursor' } });
+    await call('get', '/tasks/overdue');
+    await call('get', '/tasks/tree');
+    const fetched = await call('get', '/tasks/{id}', {
+      params: { id: parent.id },
+    });
+    await call('get', '/tasks/{id}', { params: { id: 'missing' } });
+    await call('get', '/tasks/{id}/children', { params: { id: parent.id } });
+    await call('get', '/tasks/{id}/children', { params: { id: 'missing' } });
+    await call('get', '/tasks/{id}/tree', { params: { id: parent.id } });
+    await call('get', '/tasks/{id}/tree', { params: { id: 'missing' } });
+
+    const etag = fetched.headers.get('etag')!;
+    await call('put', '/tasks/{id}', {
+      params: { id: parent.id },
+      headers: { 'If-Match': etag },
+      body: { completed: true, due_at: null },
+    });
+    await call('put', '/tasks/{id}', {
+      params: { id: parent.id },
+      headers: { 'If-Match': etag },
+      body: { title: 'Stale' },
+    });
+    await call('put', '/tasks/{id}', {
+      params: { id: parent.id },
+      body: { parent_id: 'missing' },
+    });
+    await call('put', '/tasks/{id}', {
+      params: { id: 'missing' },
+      body: { title: 'Nothing' },
+    });
+    await call('get', '/tasks/{id}/history', { params: { id: parent.id } });
+    await call('get', '/tasks/{id}/history', { params: { id: 'missing' } });
+    await call('post', '/tasks/{id}/restore/{revision}', {
+      params: { id: parent.id, revision: 1 },
+    });
+    await call('post', '/tasks/{id}/restore/{revision}', {
+      params: { id: parent.id, revision: 99 },
+    });
+
+    await call('delete', '/tasks/{id}', {
+      params: { id: child.id },
+      headers: { 'If-Match': '"99"' },
+    });
+    await call('delete', '/tasks/{id}', { params: { id: child.id } });
+    await call('delete', '/tasks/{id}', { params: { id: 'missing' } });
+    await call('get', '/tasks/trash');
+    await call('post', '/tasks/{id}/restore', { params: { id: child.id } });
+    await call('post', '/tasks/{id}/restore', { params: { id: 'missing' } });
+    await call('delete', '/tasks/{id}', { params: { id: child.id } });
+    await call('delete', '/tasks/{id}/purge', { params: { id: child.id } });
+    await call('delete', '/tasks/{id}/purge', { params: { id: child.id } });
+
+    await call('post', '/tasks/bulk', {
+      body: {
+        operations: [
+          { operation: 'create', data: { title: 'Bulk' } },
+          { operation: 'update', id: parent.id, data: { priority: 'low' } },
+        ],
+      },
+    });
+    await call('post', '/tasks/bulk', {
+      body: {
+        operations: [{ operation: 'delete', id: 'missing' }],
+      },
+    });
+    await call('post', '/tasks/bulk', {
+      body: { filter: { completed: true }, patch: { completed: false } },
+    });
+
+    const exported = await call('get', '/tasks/export', {
+      query: { include_deleted: 'true', include_sync: 'true' },
+    });
+    const csv = await call('get', '/tasks/export', {
+      query: { format: 'csv' },
+    });
+    await call('get', '/tasks/export', { query: { format: 'ics' } });
+    await call('post', '/tasks/import', { body: exported.body });
+    await call('post', '/tasks/import', {
+      body: csv.body,
+      contentType: 'text/csv',
+    });
+    await call('post', '/tasks/import', {
+      body: 'not json',
+      contentType: 'text/plain',
+      query: { format: 'json' },
+    });
+    await call('get', '/tags');
+
+    const events = new AbortController();
+    const stream = await fetch(`${baseUrl}/events`, {
+      headers: { Authorization: `Bearer ${token}` },
+      signal: events.signal,
+    });
+    expect(stream.status).toBe(200);
+    expect(stream.headers.get('content-type')).toContain('text/event-stream');
+    seen.add('get /events 200');
+    events.abort();
+
+    // Sync
+    await call('post', '/sync');
+    await call('put', '/sync/account', { body: { token: syncToken } });
+    await call('post', '/sync', { body: { strategy: 'merge' } });
+    await call('post', '/sync/pause');
+    await call('post', '/sync/resume');
+    await call('get', '/status');
+
+    const item: SyncQueueItem = {
+      id: 'queue-1',
+      task_id: 'client-task',
+      operation: 'create',
+      data: { title: 'From a device' },
+      created_at: new Date(),
+      retry_count: 0,
+    };
+    const items = JSON.parse(JSON.stringify([item]));
+    await call('post', '/batch', {
+      body: { items, checksum: calculateBatchChecksum(items) },
+    });
+    await call('post', '/batch', {
+      body: {
+        items: [{ ...items[0], operation: 'update', task_id: 'unknown' }],
+        checksum: 'wrong',
+      },
+    });
+    await call('get', '/sync/changes', { query: { since: '0' } });
+
+    const tasks = new TaskService(db);
+    const local = (await tasks.getTask(parent.id))!;
+    const conflict = await new ConflictService(db, tasks).record(
+      local,
+      { ...local, title: 'Remote' },
+      local.id,
+      { strategy: 'last-write-wins', resolved_task: local },
+      'local',
+    );
+    await call('get', '/sync/conflicts');
+    await call('get', '/sync/conflicts/{id}', { params: { id: conflict.id } });
+    await call('get', '/sync/conflicts/{id}', { params: { id: 'missing' } });
+    await call('post', '/sync/conflicts/{id}/resolve', {
+      params: { id: conflict.id },
+      body: { choice: 'remote' },
+    });
+    await call('post', '/sync/conflicts/{id}/resolve', {
+      params: { id: 'missing' },
+      body: { task: { title: 'Merged' } },
+    });
+
+    for (const id of ['dlq-1', 'dlq-2', 'dlq-3']) {
+      await db.run(
+        `INSERT INTO dead_letter_queue (id, task_id, owner_id, operation, data, error_message)
+         VALUES (?, ?, ?, 'update', ?, 'Server rejected item')`,
+        [
+          id,
+          parent.id,
+          local.owner_id,
+          JSON.stringify({ title: 'Rejected', server_id: null }),
+        ],
+      );
+    }
+    await call('get', '/sync/dead-letter', { query: { operation: 'update' } });
+    await call('get', '/sync/dead-letter/{id}', { params: { id: 'dlq-1' } });
+    await call('get', '/sync/dead-letter/{id}', { params: { id: 'missing' } });
+    await call('post', '/sync/dead-letter/{id}/requeue', {
+      params: { id: 'dlq-1' },
+      body: { data: { title: 'Fixed' } },
+    });
+    await call('post', '/sync/dead-letter/{id}/requeue', {
+      params: { id: 'missing' },
+    });
+    await call('delete', '/sync/dead-letter/{id}', {
+      params: { id: 'dlq-2' },
+      body: { reason: 'Not needed' },
+    });
+    await call('delete', '/sync/dead-letter/{id}', {
+      params: { id: 'missing' },
+    });
+    await call('post', '/sync/dead-letter/requeue', {
+      body: { task_id: 'other' },
+    });
+    await call('delete', '/sync/dead-letter', {
+      query: { task_id: parent.id },
+    });
+    await call('get', '/sync/dead-letter', { query: { limit: '0' } });
+    await call('delete', '/sync/account');
+    await call('delete', '/sync/account');
+
+    // Every operation was called, and answered with success at least once
+    const untested = Object.entries(document.paths).flatMap(([path, methods]) =>
+      Object.keys(methods)
+        .filter(
+          (method) =>
+            ![...seen].some((s) =>
+              new RegExp(`^${method} ${escape(path)} 2\\d\\d$`).test(s),
+            ),
+        )
+        .map((method) => `${method} ${path}`),
+    );
+    expect(untested).toEqual([]);
+  });
+});
+
+function escape(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
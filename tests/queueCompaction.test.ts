@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import { batchByTask, coalesceQueue } from '../src/utils/queueCompaction';
+import { SyncOperation, SyncQueueItem } from '../src/types';
+
+let clock = 0;
+
+function queued(
+  taskId: string,
+  operation: SyncOperation,
+  data: Record<string, unknown> = {},
+): SyncQueueItem {
+  clock++;
+  return {
+    id: `q${clock}`,
+    task_id: taskId,
+    operation,
+    data,
+    created_at: new Date(clock * 1000),
+    retry_count: 0,
+  };
+}
+
+describe('coalesceQueue', () => {
+  it('should fold updates into the create with the latest snapshot', () => {
+    const create = queued('a', 'create', { title: 'v1' });
+    const { items, removed } = coalesceQueue([
+      create,
+      queued('a', 'update', { title: 'v2' }),
+      queued('a', 'update', { title: 'v3', completed: true }),
+    ]);
+
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({
+      id: create.id,
+      operation: 'create',
+      data: { title: 'v3', completed: true },
+    });
+    expect(removed).toHaveLength(2);
+  });
+
+  it('should collapse updates followed by a delete into the delete', () => {
+    const { items } = coalesceQueue([
+      queued('a', 'update', { title: 'v2' }),
+      queued('a', 'update', { title: 'v3' }),
+      queued('a', 'delete', { is_deleted: true }),
+    ]);
+
+    expect(items).toHaveLength(1);
+    expect(items[0].operation).toBe('delete');
+    expect(items[0].data).toMatchObject({ title: 'v3', is_deleted: true });
+  });
+
+  it('should drop a task created and deleted before it was sent', () => {
+    const ops = [queued('a', 'create')];
+    for (let i = 0; i < 40; i++) {
+      ops.push(queued('a', 'update', { title: `v${i}` }));
+    }
+    ops.push(queued('a', 'delete'));
+
+    const { items, removed } = coalesceQueue(ops);
+
+    expect(items).toEqual([]);
+    expect(removed.sort()).toEqual(ops.map((op) => op.id).sort());
+  });
+
+  it('should keep the delete of a task whose create was already sent', () => {
+    const attempted = { ...queued('a', 'create'), retry_count: 1 };
+    const synced = queued('b', 'create');
+    const ops = [
+      attempted,
+      synced,
+      queued('a', 'delete', { is_deleted: true }),
+      queued('b', 'delete', { is_deleted: true, server_id: 'srv-b' }),
+    ];
+
+    const { items, removed } = coalesceQueue(ops);
+
+    expect(items.map((i) => [i.task_id, i.operation])).toEqual([
+      ['a', 'create'],
+      ['b', 'create'],
+      ['a', 'delete'],
+      ['b', 'delete'],
+    ]);
+    expect(removed).toEqual([]);
+  });
+
+  it('should keep operations after a delete as separate items', () => {
+    const { items } = coalesceQueue([
+      queued('a', 'delete'),
+      queued('a', 'update', { title: 'Restored' }),
+      queued('a', 'update', { title: 'Restored again' }),
+    ]);
+
+    expect(items.map((i) => i.operation)).toEqual(['delete', 'update']);
+    expect(items[1].data.title).toBe('Restored again');
+  });
+
+  it('should send a task restored after an unsent create and delete as a create', () => {
+    const create = queued('a', 'create', { title: 'New' });
+    const remove = queued('a', 'delete', { is_deleted: true });
+    const restore = queued('a', 'update', { title: 'Back', is_deleted: false });
+    const { items, removed } = coalesceQueue([create, remove, restore]);
+
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({
+      id: restore.id,
+      operation: 'create',
+      data: { title: 'Back', is_deleted: false },
+    });
+    expect(removed).toHaveLength(2);
+  });
+
+  it('should keep the chronological order across tasks', () => {
+    const { items } = coalesceQueue([
+      queued('a', 'create'),
+      queued('b', 'create'),
+      queued('a', 'update'),
+      queued('c', 'update'),
+      queued('b', 'update'),
+    ]);
+
+    expect(items.map((i) => i.task_id)).toEqual(['a', 'b', 'c']);
+  });
+});
+
+describe('batchByTask', () => {
+  it('should not split a task across batches', () => {
+    const items = [
+      queued('a', 'create'),
+      queued('b', 'delete'),
+      queued('b', 'update'),
+      queued('c', 'create'),
+    ];
+
+    const batches = batchByTask(items, 2);
+
+    expect(batches.map((b) => b.map((i) => i.task_id))).toEqual([
+      ['a'],
+      ['b', 'b'],
+      ['c'],
+    ]);
+  });
+
+  it('should spread a task larger than a batch over consecutive batches', () => {
+    const items = [
+      queued('a', 'delete'),
+      queued('a', 'update'),
+      queued('a', 'delete'),
+    ];
+
+    const batches = batchByTask(items, 2);
+
+    expect(batches.flat().map((i) => i.id)).toEqual(items.map((i) => i.id));
+    expect(batches.map((b) => b.length)).toEqual([2, 1]);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  backoffDelay,
+  classifySyncError,
+  retryPolicyFromEnv,
+} from '../src/utils/retryPolicy';
+
+function httpError(status: number, headers: Record<string, string> = {}) {
+  return Object.assign(new Error(`Request failed with status code ${status}`), {
+    response: { status, headers },
+  });
+}
+
+describe('retryPolicy', () => {
+  afterEach(() => {
+    delete process.env.SYNC_RETRY_ATTEMPTS;
+    delete process.env.SYNC_BACKOFF_BASE_MS;
+  });
+
+  it('should read the limits from the environment', () => {
+    process.env.SYNC_RETRY_ATTEMPTS = '5';
+    process.env.SYNC_BACKOFF_BASE_MS = '200';
+
+    expect(retryPolicyFromEnv()).toMatchObject({
+      maxAttempts: 5,
+      baseDelayMs: 200,
+    });
+  });
+
+  it('should double the delay per attempt up to the maximum', () => {
+    const policy = { maxAttempts: 5, baseDelayMs: 1000, maxDelayMs: 5000 };
+    const highest = () => 1;
+
+    expect(backoffDelay(policy, 1, highest)).toBe(1000);
+    expect(backoffDelay(policy, 2, highest)).toBe(2000);
+    expect(backoffDelay(policy, 3, highest)).toBe(4000);
+    expect(backoffDelay(policy, 4, highest)).toBe(5000);
+  });
+
+  it('should jitter within the upper half of the step', () => {
+    const policy = { maxAttempts: 5, baseDelayMs: 1000, maxDelayMs: 60000 };
+
+    expect(backoffDelay(policy, 3, () => 0)).toBe(2000);
+    expect(backoffDelay(policy, 3, () => 0.5)).toBe(3000);
+  });
+
+  it('should treat network errors, 5xx and 429 as transient', () => {
+    expect(classifySyncError(new Error('socket hang up')).transient).toBe(true);
+    expect(classifySyncError(httpError(503)).transient).toBe(true);
+    expect(classifySyncError(httpError(429, { 'retry-after': '30' }))).toEqual({
+      transient: true,
+      retryAfterMs: 30000,
+    });
+  });
+
+  it('should tell refused credentials apart from the request', () => {
+    expect(classifySyncError(httpError(401))).toEqual({
+      transient: true,
+      unauthorized: true,
+    });
+    expect(classifySyncError(httpError(403)).unauthorized).toBe(true);
+    expect(classifySyncError(httpError(400)).unauthorized).toBeUndefined();
+  });
+
+  it('should treat other 4xx responses as permanent', () => {
+    expect(classifySyncError(httpError(400)).transient).toBe(false);
+    expect(classifySyncError(httpError(422)).transient).toBe(false);
+  });
+
+  it('should look through wrapped errors', () => {
+    const wrapped = new Error('Batch processing failed', {
+      cause: httpError(400),
+    });
+    expect(classifySyncError(wrapped).transient).toBe(false);
+  });
+});
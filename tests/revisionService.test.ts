@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Database } from '../src/db/database';
+import { TaskService } from '../src/services/taskService';
+import { ClockService } from '../src/services/clockService';
+
+describe('task revisions', () => {
+  let db: Database;
+  let taskService: TaskService;
+
+  beforeEach(async () => {
+    db = new Database(':memory:');
+    await db.initialize();
+    taskService = new TaskService(db);
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('should record every local write with the fields it changed', async () => {
+    const task = await taskService.createTask({ title: 'Draft' });
+    await taskService.updateTask(task.id, { title: 'Final', priority: 'high' });
+    await taskService.deleteTask(task.id);
+
+    const history = await taskService.getHistory(task.id);
+    const deviceId = await ClockService.for(db).deviceId();
+    expect(history?.total).toBe(3);
+    expect(history?.items.map((r) => [r.revision, r.operation])).toEqual([
+      [3, 'delete'],
+      [2, 'update'],
+      [1, 'create'],
+    ]);
+    expect(history?.items.every((r) => r.source === 'local')).toBe(true);
+    expect(history?.items[0].device_id).toBe(deviceId);
+    expect(history?.items[0].changes).toEqual({
+      is_deleted: { from: false, to: true },
+    });
+    expect(history?.items[1].changes).toEqual({
+      title: { from: 'Draft', to: 'Final' },
+      priority: { from: 'normal', to: 'high' },
+    });
+    expect(history?.items[2].changes.title).toEqual({ from: null, to: 'Draft' });
+  });
+
+  it('should diff the oldest revision on a page against the one before', async () => {
+    const task = await taskService.createTask({ title: 'One' });
+    await taskService.updateTask(task.id, { title: 'Two' });
+    await taskService.updateTask(task.id, { title: 'Three' });
+
+    const page = await taskService.getHistory(task.id, 1, 1);
+    expect(page?.items).toHaveLength(1);
+    expect(page?.items[0].changes).toEqual({
+      title: { from: 'One', to: 'Two' },
+    });
+  });
+
+  it('should record remote changes with the device that made them', async () => {
+    const task = await taskService.createTask({ title: 'Mine' });
+    const remoteHlc = '2026-01-01T00:00:00.000Z-0000-other-device';
+
+    await taskService.applyRemoteTask({ ...task, title: 'Theirs', hlc: remoteHlc });
+    // The same content arriving again is not a new revision
+    await taskService.applyRemoteTask({ ...task, title: 'Theirs', hlc: remoteHlc });
+
+    const history = await taskService.getHistory(task.id);
+    expect(history?.total).toBe(2);
+    expect(history?.items[0]).toMatchObject({
+      source: 'remote',
+      device_id: 'other-device',
+      hlc: remoteHlc,
+      changes: { title: { from: 'Mine', to: 'Theirs' } },
+    });
+  });
+
+  it('should restore an earlier revision as a new queued update', async () => {
+    const task = await taskService.createTask({
+      title: 'Original',
+      tags: ['a'],
+    });
+    await taskService.updateTask(task.id, {
+      title: 'Edited',
+      tags: ['b'],
+      completed: true,
+    });
+    await db.run('DELETE FROM sync_queue');
+
+    const restored = await taskService.restoreRevision(task.id, 1);
+
+    expect(restored).toMatchObject({
+      title: 'Original',
+      tags: ['a'],
+      completed: false,
+    });
+    const queue = await db.all('SELECT operation, data FROM sync_queue');
+    expect(queue).toHaveLength(1);
+    expect(queue[0].operation).toBe('update');
+    expect(JSON.parse(queue[0].data).title).toBe('Original');
+    const history = await taskService.getHistory(task.id);
+    expect(history?.items[0]).toMatchObject({
+      revision: 3,
+      restored_from: 1,
+      changes: {
+        title: { from: 'Edited', to: 'Original' },
+        completed: { from: true, to: false },
+      },
+    });
+  });
+
+  it('should not restore unknown revisions or deleted tasks', async () => {
+    const task = await taskService.createTask({ title: 'Task' });
+    expect(await taskService.restoreRevision(task.id, 5)).toBeNull();
+
+    await taskService.deleteTask(task.id);
+    expect(await taskService.restoreRevision(task.id, 1)).toBeNull();
+    expect(await taskService.getHistory('missing')).toBeNull();
+  });
+
+  it("should keep other users' history private", async () => {
+    const task = await taskService.forOwner('alice').createTask({ title: 'A' });
+
+    expect(await taskService.forOwner('bob').getHistory(task.id)).toBeNull();
+    expect(
+      await taskService.forOwner('bob').restoreRevision(task.id, 1),
+    ).toBeNull();
+  });
+});
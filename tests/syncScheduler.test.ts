@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SyncScheduler } from '../src/services/syncScheduler';
+import { SyncService } from '../src/services/syncService';
+
+describe('SyncScheduler', () => {
+  let online: boolean;
+  let syncService: {
+    checkConnectivity: ReturnType<typeof vi.fn>;
+    sync: ReturnType<typeof vi.fn>;
+    isSyncing: ReturnType<typeof vi.fn>;
+  };
+  let scheduler: SyncScheduler;
+
+  beforeEach(() => {
+    online = false;
+    syncService = {
+      checkConnectivity: vi.fn(async () => online),
+      sync: vi.fn(async () => ({
+        success: true,
+        synced_items: 0,
+        failed_items: 0,
+        errors: [],
+      })),
+      isSyncing: vi.fn(() => false),
+    };
+    scheduler = new SyncScheduler(syncService as unknown as SyncService, {
+      intervalMs: 60_000,
+      connectivityCheckMs: 1_000,
+    });
+  });
+
+  it('should not sync while offline', async () => {
+    await scheduler.tick();
+
+    expect(syncService.sync).not.toHaveBeenCalled();
+    expect(scheduler.getState().online).toBe(false);
+  });
+
+  it('should sync as soon as the server becomes reachable', async () => {
+    await scheduler.tick();
+    online = true;
+    await scheduler.tick();
+
+    expect(syncService.sync).toHaveBeenCalledTimes(1);
+    expect(scheduler.getState().last_sync_at).toBeInstanceOf(Date);
+  });
+
+  it('should wait for the interval between syncs while online', async () => {
+    online = true;
+    await scheduler.tick();
+    await scheduler.tick();
+    expect(syncService.sync).toHaveBeenCalledTimes(1);
+
+    vi.useFakeTimers();
+    vi.setSystemTime(Date.now() + 60_000);
+    await scheduler.tick();
+    vi.useRealTimers();
+    expect(syncService.sync).toHaveBeenCalledTimes(2);
+  });
+
+  it('should sync again after a reconnect even within the interval', async () => {
+    online = true;
+    await scheduler.tick();
+    online = false;
+    await scheduler.tick();
+    online = true;
+    await scheduler.tick();
+
+    expect(syncService.sync).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not sync while paused and catch up on resume', async () => {
+    online = true;
+    scheduler.pause();
+    await scheduler.tick();
+    expect(syncService.sync).not.toHaveBeenCalled();
+    expect(scheduler.getState().paused).toBe(true);
+
+    scheduler.resume();
+    await vi.waitFor(() => expect(syncService.sync).toHaveBeenCalledTimes(1));
+    expect(scheduler.getState().paused).toBe(false);
+  });
+
+  it('should never run two ticks at once', async () => {
+    online = true;
+    await Promise.all([scheduler.tick(), scheduler.tick()]);
+
+    expect(syncService.sync).toHaveBeenCalledTimes(1);
+  });
+});
@@ -13,6 +13,8 @@ describe('SyncService', () => {
   let syncService: SyncService;
 
   beforeEach(async () => {
+    // Tasks without an owner only sync with an account to sync as
+    process.env.SYNC_AUTH_TOKEN = 'server-token';
     db = new Database(':memory:');
     await db.initialize();
     taskService = new TaskService(db);
@@ -20,6 +22,7 @@ describe('SyncService', () => {
   });
 
   afterEach(async () => {
+    delete process.env.SYNC_AUTH_TOKEN;
     await db.close();
     vi.clearAllMocks();
   });
@@ -77,6 +80,9 @@ describe('SyncService', () => {
           ],
         },
       });
+      vi.mocked(axios.get).mockResolvedValueOnce({
+        data: { changes: [], cursor: '0', has_more: false },
+      });
 
       const result = await syncService.sync();
       
@@ -98,6 +104,41 @@ describe('SyncService', () => {
     });
   });
 
+  describe('pull', () => {
+    it('should apply remote changes and store the cursor', async () => {
+      vi.mocked(axios.get).mockResolvedValueOnce({
+        data: {
+          changes: [
+            {
+              id: 'srv_remote',
+              title: 'From another device',
+              description: '',
+              completed: false,
+              is_deleted: false,
+              created_at: '2024-01-10T10:00:00.000Z',
+              updated_at: '2024-01-10T10:00:00.000Z',
+            },
+          ],
+          cursor: '7',
+          has_more: false,
+        },
+      });
+
+      const pulled = await syncService.pull();
+
+      expect(pulled).toBe(1);
+      const task = await taskService.getTask('srv_remote');
+      expect(task?.title).toBe('From another device');
+      expect(task?.server_id).toBe('srv_remote');
+      expect(task?.sync_status).toBe('synced');
+
+      const cursor = await db.get(
+        "SELECT value FROM sync_state WHERE key = 'pull_cursor'",
+      );
+      expect(cursor.value).toBe('7');
+    });
+  });
+
   describe('conflict resolution', () => {
     it('should resolve conflicts using last-write-wins', async () => {
       // This test would verify that when there's a conflict,
@@ -0,0 +1,170 @@
+import { describe, it, expect } from 'vitest';
+import { Task } from '../src/types';
+import {
+  ImportFormatError,
+  TaskFormat,
+  exportWriter,
+  parseImport,
+} from '../src/utils/taskFormats';
+
+function task(overrides: Partial<Task> = {}): Task {
+  return {
+    id: 'task-1',
+    title: 'Write report',
+    description: 'Quarterly, with charts; "final" version',
+    completed: false,
+    is_deleted: false,
+    due_at: new Date('2024-03-01T09:30:00.000Z'),
+    priority: 'high',
+    tags: ['work', 'q1'],
+    parent_id: null,
+    created_at: new Date('2024-01-01T00:00:00.000Z'),
+    updated_at: new Date('2024-01-02T00:00:00.000Z'),
+    sync_status: 'synced',
+    hlc: '0000018d0000000:0000:device',
+    ...overrides,
+  };
+}
+
+function exportAll(format: TaskFormat, tasks: Task[], includeDeleted = false) {
+  const writer = exportWriter(format, { includeDeleted });
+  return (
+    writer.start() +
+    tasks.map((t, i) => writer.task(t, i)).join('') +
+    writer.end()
+  );
+}
+
+describe('task formats', () => {
+  it.each(['json', 'csv', 'ics'] as TaskFormat[])(
+    'should read back the tasks it exports as %s',
+    (format) => {
+      const tasks = [
+        task(),
+        task({
+          id: 'task-2',
+          title: 'Subtask, with a comma',
+          description: 'Line one\nLine two',
+          completed: true,
+          due_at: null,
+          priority: 'normal',
+          tags: [],
+          parent_id: 'task-1',
+        }),
+      ];
+
+      const records = parseImport(format, exportAll(format, tasks));
+
+      expect(records).toHaveLength(2);
+      for (const [i, record] of records.entries()) {
+        expect(record).toMatchObject({
+          id: tasks[i].id,
+          title: tasks[i].title,
+          description: tasks[i].description,
+          completed: tasks[i].completed,
+          due_at: tasks[i].due_at?.toISOString() ?? null,
+          priority: tasks[i].priority,
+          tags: tasks[i].tags,
+          parent_id: tasks[i].parent_id,
+        });
+      }
+    },
+  );
+
+  it('should leave sync metadata and deleted tasks out unless asked', () => {
+    const writer = exportWriter('csv');
+    expect(writer.start().trim().split(',')).not.toContain('hlc');
+
+    const withSync = exportWriter('json', {
+      includeDeleted: true,
+      includeSync: true,
+    });
+    const exported = JSON.parse(
+      withSync.start() + withSync.task(task({ is_deleted: true }), 0) + withSync.end(),
+    );
+    expect(exported[0]).toMatchObject({
+      is_deleted: true,
+      sync_status: 'synced',
+      hlc: '0000018d0000000:0000:device',
+    });
+  });
+
+  it('should mark deleted tasks as cancelled in iCalendar', () => {
+    const ics = exportAll('ics', [task({ is_deleted: true })], true);
+
+    expect(ics).toContain('STATUS:CANCELLED');
+    expect(parseImport('ics', ics)[0].is_deleted).toBe(true);
+  });
+
+  it('should fold long iCalendar lines at 75 octets', () => {
+    const ics = exportAll('ics', [task({ title: 'é'.repeat(100) })]);
+
+    for (const line of ics.split('\r\n')) {
+      expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+    }
+    expect(parseImport('ics', ics)[0].title).toBe('é'.repeat(100));
+  });
+
+  it('should read VTODOs written by other applications', () => {
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'BEGIN:VEVENT',
+      'UID:event',
+      'SUMMARY:Not a task',
+      'END:VEVENT',
+      'BEGIN:VTODO',
+      'UID:abc@example.com',
+      'SUMMARY:Call the bank',
+      'DUE;VALUE=DATE:20240315',
+      'PRIORITY:1',
+      'CATEGORIES:Errands,Phone',
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      'DESCRIPTION:Reminder',
+      'END:VALARM',
+      'END:VTODO',
+      'END:VCALENDAR',
+    ].join('\n');
+
+    expect(parseImport('ics', ics)).toEqual([
+      {
+        id: 'abc@example.com',
+        title: 'Call the bank',
+        description: '',
+        completed: false,
+        is_deleted: false,
+        due_at: '2024-03-15T00:00:00.000Z',
+        priority: 'urgent',
+        tags: ['Errands', 'Phone'],
+        parent_id: null,
+      },
+    ]);
+  });
+
+  it('should only set the CSV columns a file has', () => {
+    const [record] = parseImport(
+      'csv',
+      'Title,Completed,Due_At\r\n"Buy milk",yes,\r\n',
+    );
+
+    expect(record).toMatchObject({
+      title: 'Buy milk',
+      completed: true,
+      due_at: null,
+      priority: undefined,
+      tags: undefined,
+    });
+  });
+
+  it('should reject files it cannot read', () => {
+    expect(() => parseImport('json', { title: 'Not a list' })).toThrow(
+      ImportFormatError,
+    );
+    expect(() => parseImport('csv', 'name\r\nx\r\n')).toThrow(
+      'CSV needs a title column',
+    );
+    expect(() => parseImport('csv', 'title\r\n"open')).toThrow(ImportFormatError);
+    expect(() => parseImport('ics', 'not a calendar')).toThrow(ImportFormatError);
+  });
+});
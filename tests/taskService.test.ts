@@ -1,6 +1,15 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import express from 'express';
+import http from 'http';
+import { AddressInfo } from 'net';
 import { Database } from '../src/db/database';
-import { TaskService } from '../src/services/taskService';
+import {
+  InvalidCursorError,
+  InvalidParentError,
+  StaleVersionError,
+  TaskService,
+} from '../src/services/taskService';
+import { createTaskRouter } from '../src/routes/tasks';
 import { Task } from '../src/types';
 
 describe('TaskService', () => {
@@ -70,6 +79,31 @@ describe('TaskService', () => {
       const result = await taskService.updateTask('non-existent-id', { title: 'Test' });
       expect(result).toBeNull();
     });
+
+    it('should bump the version and refuse a stale expected version', async () => {
+      const task = await taskService.createTask({ title: 'Versioned' });
+      expect(task.version).toBe(1);
+
+      const updated = await taskService.updateTask(
+        task.id,
+        { title: 'Second' },
+        undefined,
+        [1],
+      );
+      expect(updated?.version).toBe(2);
+
+      const stale = taskService.updateTask(
+        task.id,
+        { title: 'Lost' },
+        undefined,
+        [1],
+      );
+      await expect(stale).rejects.toBeInstanceOf(StaleVersionError);
+      await expect(stale).rejects.toMatchObject({
+        current: { title: 'Second', version: 2 },
+      });
+      expect((await taskService.getTask(task.id))?.version).toBe(2);
+    });
   });
 
   describe('deleteTask', () => {
@@ -89,6 +123,33 @@ describe('TaskService', () => {
       const result = await taskService.deleteTask('non-existent-id');
       expect(result).toBe(false);
     });
+
+    it('should return false for a task in the trash or purged', async () => {
+      const trashed = await taskService.createTask({ title: 'Trashed' });
+      const purged = await taskService.createTask({ title: 'Purged' });
+      await taskService.deleteTask(trashed.id);
+      await taskService.deleteTask(purged.id);
+      await taskService.purgeTask(purged.id);
+      await db.run('DELETE FROM sync_queue');
+
+      expect(await taskService.deleteTask(trashed.id)).toBe(false);
+      expect(await taskService.deleteTask(purged.id)).toBe(false);
+      expect((await taskService.getTask(trashed.id, true))?.version).toBe(2);
+      expect(await db.all('SELECT * FROM sync_queue')).toEqual([]);
+    });
+
+    it('should not delete a task changed since the expected version', async () => {
+      const task = await taskService.createTask({ title: 'Keep' });
+      await taskService.updateTask(task.id, { completed: true });
+
+      await expect(
+        taskService.deleteTask(task.id, undefined, [1]),
+      ).rejects.toBeInstanceOf(StaleVersionError);
+      expect(await taskService.getTask(task.id)).not.toBeNull();
+
+      expect(await taskService.deleteTask(task.id, undefined, [2])).toBe(true);
+      expect((await taskService.getTask(task.id, true))?.version).toBe(3);
+    });
   });
 
   describe('getAllTasks', () => {
@@ -107,6 +168,384 @@ describe('TaskService', () => {
     });
   });
 
+  describe('queryTasks', () => {
+    async function seed() {
+      const groceries = await taskService.createTask({
+        title: 'Buy groceries',
+        description: 'Milk and bread',
+      });
+      const report = await taskService.createTask({
+        title: 'Write report',
+        description: 'Quarterly numbers',
+      });
+      const call = await taskService.createTask({ title: 'Call plumber' });
+      await taskService.updateTask(report.id, { completed: true });
+      await db.run(
+        "UPDATE tasks SET created_at = '2024-01-01T00:00:00.000Z' WHERE id = ?",
+        [groceries.id],
+      );
+      return { groceries, report, call };
+    }
+
+    it('should filter by completion and sync status', async () => {
+      const { report } = await seed();
+      await db.run("UPDATE tasks SET sync_status = 'synced' WHERE id = ?", [
+        report.id,
+      ]);
+
+      const done = await taskService.queryTasks({ completed: true });
+      expect(done.items.map((t) => t.id)).toEqual([report.id]);
+      const pending = await taskService.queryTasks({ sync_status: 'pending' });
+      expect(pending.items.length).toBe(2);
+    });
+
+    it('should filter by date range', async () => {
+      const { groceries } = await seed();
+
+      const old = await taskService.queryTasks({
+        created_before: new Date('2024-06-01T00:00:00Z'),
+      });
+      expect(old.items.map((t) => t.id)).toEqual([groceries.id]);
+    });
+
+    it('should sort by the requested field and direction', async () => {
+      await seed();
+
+      const page = await taskService.queryTasks({ sort: 'title', order: 'asc' });
+      expect(page.items.map((t) => t.title)).toEqual([
+        'Buy groceries',
+        'Call plumber',
+        'Write report',
+      ]);
+    });
+
+    it('should page through results with a cursor', async () => {
+      await seed();
+      const titles: string[] = [];
+
+      let cursor: string | undefined;
+      do {
+        const page = await taskService.queryTasks({
+          sort: 'title',
+          order: 'asc',
+          limit: 2,
+          cursor,
+        });
+        titles.push(...page.items.map((t) => t.title));
+        cursor = page.next_cursor ?? undefined;
+      } while (cursor);
+
+      expect(titles).toEqual(['Buy groceries', 'Call plumber', 'Write report']);
+    });
+
+    it('should reject a cursor issued for a different sort', async () => {
+      await seed();
+      const page = await taskService.queryTasks({ sort: 'title', limit: 1 });
+
+      await expect(
+        taskService.queryTasks({ sort: 'created_at', cursor: page.next_cursor! }),
+      ).rejects.toBeInstanceOf(InvalidCursorError);
+      await expect(
+        taskService.queryTasks({ cursor: 'not-a-cursor' }),
+      ).rejects.toBeInstanceOf(InvalidCursorError);
+    });
+
+    it('should search title and description', async () => {
+      const { groceries, report } = await seed();
+
+      const byDescription = await taskService.queryTasks({ q: 'milk' });
+      expect(byDescription.items.map((t) => t.id)).toEqual([groceries.id]);
+      const byPrefix = await taskService.queryTasks({ q: 'quart' });
+      expect(byPrefix.items.map((t) => t.id)).toEqual([report.id]);
+      const noMatch = await taskService.queryTasks({ q: 'write milk' });
+      expect(noMatch.items).toEqual([]);
+    });
+
+    it('should keep the search index in step with edits and deletes', async () => {
+      const { groceries, call } = await seed();
+      await taskService.updateTask(groceries.id, { title: 'Buy flowers' });
+      await taskService.deleteTask(call.id);
+
+      expect((await taskService.queryTasks({ q: 'groceries' })).items).toEqual(
+        [],
+      );
+      expect(
+        (await taskService.queryTasks({ q: 'flowers' })).items.map((t) => t.id),
+      ).toEqual([groceries.id]);
+      expect((await taskService.queryTasks({ q: 'plumber' })).items).toEqual([]);
+    });
+
+    it('should treat search operators as plain text', async () => {
+      await seed();
+
+      const page = await taskService.queryTasks({ q: 'report" OR "NEAR(' });
+      expect(page.items).toEqual([]);
+    });
+  });
+
+  describe('due dates, priority and tags', () => {
+    it('should store the new fields with defaults', async () => {
+      const plain = await taskService.createTask({ title: 'Plain' });
+      expect(plain).toMatchObject({ due_at: null, priority: 'normal', tags: [] });
+
+      const due = new Date('2030-01-01T09:00:00Z');
+      const rich = await taskService.createTask({
+        title: 'Rich',
+        due_at: due,
+        priority: 'urgent',
+        tags: ['work', 'q1'],
+      });
+      const stored = await taskService.getTask(rich.id);
+      expect(stored?.due_at).toEqual(due);
+      expect(stored?.priority).toBe('urgent');
+      expect(stored?.tags).toEqual(['work', 'q1']);
+    });
+
+    it('should only change the fields given to updateTask', async () => {
+      const task = await taskService.createTask({
+        title: 'Keep',
+        priority: 'high',
+        tags: ['home'],
+      });
+
+      const updated = await taskService.updateTask(task.id, {
+        completed: true,
+        title: undefined,
+      });
+
+      expect(updated).toMatchObject({
+        title: 'Keep',
+        completed: true,
+        priority: 'high',
+        tags: ['home'],
+      });
+      const cleared = await taskService.updateTask(task.id, { due_at: null });
+      expect(cleared?.due_at).toBeNull();
+    });
+
+    it('should filter by priority, tag and due date', async () => {
+      const urgent = await taskService.createTask({
+        title: 'Urgent',
+        priority: 'urgent',
+        tags: ['work'],
+        due_at: new Date('2030-01-01T00:00:00Z'),
+      });
+      await taskService.createTask({ title: 'Other', tags: ['home'] });
+
+      const byPriority = await taskService.queryTasks({ priority: 'urgent' });
+      expect(byPriority.items.map((t) => t.id)).toEqual([urgent.id]);
+      const byTag = await taskService.queryTasks({ tag: 'work' });
+      expect(byTag.items.map((t) => t.id)).toEqual([urgent.id]);
+      const byDue = await taskService.queryTasks({
+        due_before: new Date('2031-01-01T00:00:00Z'),
+      });
+      expect(byDue.items.map((t) => t.id)).toEqual([urgent.id]);
+    });
+
+    it('should list open overdue tasks, most overdue first', async () => {
+      const later = await taskService.createTask({
+        title: 'Later',
+        due_at: new Date('2024-02-01T00:00:00Z'),
+      });
+      const earlier = await taskService.createTask({
+        title: 'Earlier',
+        due_at: new Date('2024-01-01T00:00:00Z'),
+      });
+      const done = await taskService.createTask({
+        title: 'Done',
+        due_at: new Date('2024-01-01T00:00:00Z'),
+      });
+      await taskService.updateTask(done.id, { completed: true });
+      await taskService.createTask({
+        title: 'Future',
+        due_at: new Date('2030-01-01T00:00:00Z'),
+      });
+
+      const overdue = await taskService.getOverdueTasks(
+        new Date('2025-01-01T00:00:00Z'),
+      );
+      expect(overdue.map((t) => t.id)).toEqual([earlier.id, later.id]);
+    });
+
+    it('should count tags on tasks that are not deleted', async () => {
+      await taskService.createTask({ title: 'A', tags: ['work', 'q1'] });
+      await taskService.createTask({ title: 'B', tags: ['work'] });
+      const gone = await taskService.createTask({ title: 'C', tags: ['old'] });
+      await taskService.deleteTask(gone.id);
+
+      expect(await taskService.getTagCounts()).toEqual([
+        { tag: 'work', count: 2 },
+        { tag: 'q1', count: 1 },
+      ]);
+    });
+  });
+
+  describe('subtasks', () => {
+    it('should nest subtasks and build the tree', async () => {
+      const parent = await taskService.createTask({ title: 'Parent' });
+      const child = await taskService.createTask({
+        title: 'Child',
+        parent_id: parent.id,
+      });
+      const grandchild = await taskService.createTask({
+        title: 'Grandchild',
+        parent_id: child.id,
+      });
+      const other = await taskService.createTask({ title: 'Other' });
+
+      expect((await taskService.getChildren(parent.id)).map((t) => t.id)).toEqual(
+        [child.id],
+      );
+      const tree = await taskService.getTaskTree();
+      expect(tree.map((t) => t.id)).toEqual([parent.id, other.id]);
+      expect(tree[0].children[0].children.map((t) => t.id)).toEqual([
+        grandchild.id,
+      ]);
+      const [subtree] = await taskService.getTaskTree(child.id);
+      expect(subtree.id).toBe(child.id);
+    });
+
+    it('should reject unknown parents and cycles', async () => {
+      await expect(
+        taskService.createTask({ title: 'Orphan', parent_id: 'missing' }),
+      ).rejects.toBeInstanceOf(InvalidParentError);
+
+      const parent = await taskService.createTask({ title: 'Parent' });
+      const child = await taskService.createTask({
+        title: 'Child',
+        parent_id: parent.id,
+      });
+      await expect(
+        taskService.updateTask(parent.id, { parent_id: child.id }),
+      ).rejects.toBeInstanceOf(InvalidParentError);
+      await expect(
+        taskService.updateTask(parent.id, { parent_id: parent.id }),
+      ).rejects.toBeInstanceOf(InvalidParentError);
+    });
+
+    it('should complete and delete subtasks with their parent, parent first', async () => {
+      const parent = await taskService.createTask({ title: 'Parent' });
+      const child = await taskService.createTask({
+        title: 'Child',
+        parent_id: parent.id,
+      });
+      const grandchild = await taskService.createTask({
+        title: 'Grandchild',
+        parent_id: child.id,
+      });
+      await db.run('DELETE FROM sync_queue');
+
+      await taskService.updateTask(parent.id, { completed: true });
+      expect((await taskService.getTask(grandchild.id))?.completed).toBe(true);
+
+      await taskService.deleteTask(parent.id);
+      expect(await taskService.getTask(child.id)).toBeNull();
+      expect(await taskService.getTask(grandchild.id)).toBeNull();
+
+      const queue = await db.all(
+        'SELECT task_id, operation FROM sync_queue ORDER BY rowid',
+      );
+      expect(queue).toEqual([
+        { task_id: parent.id, operation: 'update' },
+        { task_id: child.id, operation: 'update' },
+        { task_id: grandchild.id, operation: 'update' },
+        { task_id: parent.id, operation: 'delete' },
+        { task_id: child.id, operation: 'delete' },
+        { task_id: grandchild.id, operation: 'delete' },
+      ]);
+    });
+  });
+
+  describe('trash', () => {
+    it('should list deleted tasks and restore them as a queued update', async () => {
+      const task = await taskService.createTask({ title: 'Oops' });
+      await taskService.deleteTask(task.id);
+      expect((await taskService.getTrash()).map((t) => t.id)).toEqual([task.id]);
+      await db.run('DELETE FROM sync_queue');
+
+      const restored = await taskService.restoreTask(task.id);
+
+      expect(restored?.is_deleted).toBe(false);
+      expect(await taskService.getTask(task.id)).not.toBeNull();
+      expect(await taskService.getTrash()).toEqual([]);
+      const queue = await db.all('SELECT operation, data FROM sync_queue');
+      expect(queue).toHaveLength(1);
+      expect(queue[0].operation).toBe('update');
+      expect(JSON.parse(queue[0].data).is_deleted).toBe(false);
+    });
+
+    it('should only restore and purge tasks in the trash', async () => {
+      const task = await taskService.createTask({ title: 'Alive' });
+
+      expect(await taskService.restoreTask(task.id)).toBeNull();
+      expect(await taskService.purgeTask(task.id)).toBe(false);
+      expect(await taskService.restoreTask('missing')).toBeNull();
+    });
+
+    it('should keep a purged tombstone until its delete is synced', async () => {
+      const task = await taskService.createTask({ title: 'Gone' });
+      await taskService.deleteTask(task.id);
+
+      expect(await taskService.purgeTask(task.id)).toBe(true);
+      expect(await taskService.getTrash()).toEqual([]);
+      expect(await taskService.restoreTask(task.id)).toBeNull();
+      // The delete is still queued, so the row stays as a tombstone
+      expect(await taskService.getTask(task.id, true)).not.toBeNull();
+    });
+
+    it('should remove a purged task straight away once its delete is synced', async () => {
+      const task = await taskService.createTask({ title: 'Gone' });
+      await taskService.deleteTask(task.id);
+      await db.run('DELETE FROM sync_queue');
+
+      await taskService.purgeTask(task.id);
+
+      expect(await taskService.getTask(task.id, true)).toBeNull();
+    });
+  });
+
+  describe('ownership', () => {
+    it("should only show and change the owner's tasks", async () => {
+      const alice = taskService.forOwner('alice');
+      const bob = taskService.forOwner('bob');
+      const task = await alice.createTask({ title: 'Mine', tags: ['work'] });
+
+      expect(task.owner_id).toBe('alice');
+      expect(await bob.getTask(task.id)).toBeNull();
+      expect((await bob.queryTasks()).items).toEqual([]);
+      expect(await bob.getTagCounts()).toEqual([]);
+      expect(await bob.updateTask(task.id, { title: 'Theirs' })).toBeNull();
+      expect(await bob.deleteTask(task.id)).toBe(false);
+      await expect(
+        bob.createTask({ title: 'Nested', parent_id: task.id }),
+      ).rejects.toBeInstanceOf(InvalidParentError);
+
+      expect((await alice.getAllTasks()).map((t) => t.id)).toEqual([task.id]);
+      expect((await taskService.getTask(task.id))?.title).toBe('Mine');
+    });
+
+    it('should only return changes to the owner\'s tasks', async () => {
+      const mine = await taskService.forOwner('alice').createTask({ title: 'A' });
+      await taskService.forOwner('bob').createTask({ title: 'B' });
+
+      const changes = await taskService.forOwner('alice').getChangesSince(0);
+      expect(changes.changes.map((t) => t.id)).toEqual([mine.id]);
+    });
+
+    it("should not bring back another user's deleted task", async () => {
+      const alice = taskService.forOwner('alice');
+      const task = await alice.createTask({ title: 'Mine' });
+      await alice.deleteTask(task.id);
+
+      const resolved = await taskService
+        .forOwner('bob')
+        .applyResolvedVersion(task.id, { title: 'Theirs' });
+
+      expect(resolved).toBeNull();
+      expect((await taskService.getTask(task.id, true))?.is_deleted).toBe(true);
+    });
+  });
+
   describe('getTasksNeedingSync', () => {
     it('should return tasks with pending or error sync status', async () => {
       // Create tasks with different sync statuses
@@ -121,4 +560,120 @@ describe('TaskService', () => {
       expect(needingSync[0].id).toBe(task1.id);
     });
   });
-});
\ No newline at end of file
+
+  describe('crash safety', () => {
+    // Simulates the process dying between the task write and its queue entry
+    function failQueueWrites() {
+      const run = db.run.bind(db);
+      return vi.spyOn(db, 'run').mockImplementation(async (sql, params) => {
+        if (sql.includes('INSERT INTO sync_queue')) {
+          throw new Error('SQLITE_IOERR: disk I/O error');
+        }
+        return run(sql, params);
+      });
+    }
+
+    it('should not keep a created task without its queue entry', async () => {
+      const spy = failQueueWrites();
+      await expect(taskService.createTask({ title: 'Lost' })).rejects.toThrow();
+      spy.mockRestore();
+
+      expect(await db.all('SELECT * FROM tasks')).toEqual([]);
+      expect(await db.all('SELECT * FROM task_changes')).toEqual([]);
+    });
+
+    it('should keep the previous version when an update cannot be queued', async () => {
+      const task = await taskService.createTask({ title: 'Original' });
+
+      const spy = failQueueWrites();
+      await expect(
+        taskService.updateTask(task.id, { title: 'Changed' }),
+      ).rejects.toThrow();
+      spy.mockRestore();
+
+      expect((await taskService.getTask(task.id))?.title).toBe('Original');
+      const queue = await db.all('SELECT * FROM sync_queue');
+      expect(queue.length).toBe(1);
+    });
+
+    it('should not soft delete when the delete cannot be queued', async () => {
+      const task = await taskService.createTask({ title: 'Keep me' });
+
+      const spy = failQueueWrites();
+      await expect(taskService.deleteTask(task.id)).rejects.toThrow();
+      spy.mockRestore();
+
+      expect(await taskService.getTask(task.id)).not.toBeNull();
+    });
+  });
+});
+describe('task versions over HTTP', () => {
+  let db: Database;
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    db = new Database(':memory:');
+    await db.initialize();
+    const app = express();
+    app.use(express.json());
+    app.use('/api/tasks', createTaskRouter(db));
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await db.close();
+  });
+
+  function put(id: string, body: unknown, ifMatch?: string) {
+    return fetch(`${baseUrl}/tasks/${id}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(ifMatch ? { 'If-Match': ifMatch } : {}),
+      },
+      body: JSON.stringify(body),
+    });
+  }
+
+  it('should only update with an If-Match naming the current version', async () => {
+    const task = await new TaskService(db).createTask({ title: 'Tab one' });
+    const read = await fetch(`${baseUrl}/tasks/${task.id}`);
+    const etag = read.headers.get('etag')!;
+    expect(etag).toBe('"1"');
+
+    const first = await put(task.id, { title: 'Saved' }, etag);
+    expect(first.status).toBe(200);
+    expect(first.headers.get('etag')).toBe('"2"');
+
+    // A second tab still holding the version it read
+    const second = await put(task.id, { title: 'Clobbered' }, etag);
+    expect(second.status).toBe(412);
+    expect(second.headers.get('etag')).toBe('"2"');
+    expect(await second.json()).toMatchObject({ title: 'Saved', version: 2 });
+
+    expect((await put(task.id, { completed: true }, '*')).status).toBe(200);
+    expect((await put(task.id, { completed: false })).status).toBe(200);
+  });
+
+  it('should refuse a delete with a stale If-Match', async () => {
+    const tasks = new TaskService(db);
+    const task = await tasks.createTask({ title: 'Delete me' });
+    await tasks.updateTask(task.id, { title: 'Edited elsewhere' });
+
+    const stale = await fetch(`${baseUrl}/tasks/${task.id}`, {
+      method: 'DELETE',
+      headers: { 'If-Match': '"1"' },
+    });
+    expect(stale.status).toBe(412);
+
+    const current = await fetch(`${baseUrl}/tasks/${task.id}`, {
+      method: 'DELETE',
+      headers: { 'If-Match': '"1", "2"' },
+    });
+    expect(current.status).toBe(200);
+  });
+});
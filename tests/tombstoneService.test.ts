@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Database } from '../src/db/database';
+import { TaskService } from '../src/services/taskService';
+import { TombstoneService } from '../src/services/tombstoneService';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('TombstoneService', () => {
+  let db: Database;
+  let taskService: TaskService;
+  let now: number;
+  let tombstones: TombstoneService;
+
+  beforeEach(async () => {
+    db = new Database(':memory:');
+    await db.initialize();
+    taskService = new TaskService(db);
+    now = Date.now();
+    tombstones = new TombstoneService(db, {
+      retentionMs: 30 * DAY,
+      now: () => now,
+    });
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  // A deleted task whose delete has been pushed upstream
+  async function syncedTombstone(title: string): Promise<string> {
+    const task = await taskService.createTask({ title });
+    await taskService.deleteTask(task.id);
+    await db.run('DELETE FROM sync_queue WHERE task_id = ?', [task.id]);
+    return task.id;
+  }
+
+  async function lastChange(taskId: string): Promise<number> {
+    const row = await db.get(
+      'SELECT MAX(seq) as seq FROM task_changes WHERE task_id = ?',
+      [taskId],
+    );
+    return row.seq;
+  }
+
+  it('should remove tombstones older than the retention period', async () => {
+    const id = await syncedTombstone('Old');
+
+    expect(await tombstones.collect()).toBe(0);
+    now += 31 * DAY;
+    expect(await tombstones.collect()).toBe(1);
+
+    expect(await taskService.getTask(id, true)).toBeNull();
+    const leftovers = await db.get(
+      `SELECT
+         (SELECT COUNT(*) FROM task_changes WHERE task_id = ?) +
+         (SELECT COUNT(*) FROM task_revisions WHERE task_id = ?) as count`,
+      [id, id],
+    );
+    expect(leftovers.count).toBe(0);
+  });
+
+  it('should keep tombstones whose delete has not been pushed', async () => {
+    const task = await taskService.createTask({ title: 'Queued' });
+    await taskService.deleteTask(task.id);
+    now += 31 * DAY;
+
+    expect(await tombstones.collect()).toBe(0);
+    expect(await taskService.getTask(task.id, true)).not.toBeNull();
+  });
+
+  it('should wait until every known device has pulled past the delete', async () => {
+    const id = await syncedTombstone('Shared');
+    const seq = await lastChange(id);
+    await tombstones.acknowledge('phone', null, seq);
+    await tombstones.acknowledge('laptop', null, seq - 1);
+    now += 31 * DAY;
+
+    expect(await tombstones.collect()).toBe(0);
+
+    await tombstones.acknowledge('laptop', null, seq);
+    expect(await tombstones.collect()).toBe(1);
+  });
+
+  it("should only wait for the owner's devices", async () => {
+    const alice = taskService.forOwner('alice');
+    const task = await alice.createTask({ title: 'Hers' });
+    await alice.deleteTask(task.id);
+    await db.run('DELETE FROM sync_queue');
+    await tombstones.acknowledge('bobs-phone', 'bob', 0);
+    now += 31 * DAY;
+
+    expect(await tombstones.collect()).toBe(1);
+  });
+
+  it('should never move a device back to an earlier cursor', async () => {
+    const id = await syncedTombstone('Task');
+    const seq = await lastChange(id);
+    await tombstones.acknowledge('phone', null, seq);
+    await tombstones.acknowledge('phone', null, 0);
+    now += 31 * DAY;
+
+    expect(await tombstones.collect()).toBe(1);
+  });
+
+  it('should not wait out the retention period for purged tasks', async () => {
+    const purged = await syncedTombstone('Purged');
+    const kept = await syncedTombstone('Kept');
+    await db.run('UPDATE tasks SET purged_at = ? WHERE id = ?', [
+      new Date(now).toISOString(),
+      purged,
+    ]);
+
+    expect(await tombstones.collect()).toBe(1);
+    expect(await taskService.getTask(purged, true)).toBeNull();
+    expect(await taskService.getTask(kept, true)).not.toBeNull();
+  });
+});
@@ -0,0 +1,301 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Database } from '../src/db/database';
+import { TaskService } from '../src/services/taskService';
+import { SyncService } from '../src/services/syncService';
+import { LoopbackSyncTransport } from '../src/services/syncTransport';
+import { createTaskRouter } from '../src/routes/tasks';
+import { createSyncRouter } from '../src/routes/sync';
+import { errorHandler } from '../src/middleware/errorHandler';
+import { calculateBatchChecksum } from '../src/utils/checksum';
+import {
+  batchSyncRequestSchema,
+  resolveConflictSchema,
+  taskQuerySchema,
+} from '../src/schemas';
+import {
+  ValidationError,
+  array,
+  check,
+  integer,
+  object,
+  optional,
+  string,
+  validate,
+} from '../src/utils/validation';
+import { BatchSyncRequest, BatchSyncResponse } from '../src/types';
+
+describe('validation', () => {
+  const schema = object({
+    name: string({ trim: true, min: 1, max: 5 }),
+    count: optional(integer({ min: 0, coerce: true })),
+    items: optional(array(object({ id: string() }), { max: 2 })),
+  });
+
+  it('should report every problem with the path of its field', () => {
+    const result = check(schema, {
+      name: 'far too long',
+      count: -1,
+      items: [{ id: 'a' }, { id: 2, extra: true }, { id: 'c' }],
+      colour: 'red',
+    });
+
+    expect(result).toEqual({
+      errors: [
+        {
+          field: 'colour',
+          code: 'unknown_field',
+          message: 'colour is not a known field',
+        },
+        {
+          field: 'name',
+          code: 'too_long',
+          message: 'name must be at most 5 characters',
+        },
+        {
+          field: 'count',
+          code: 'too_small',
+          message: 'count must be at least 0',
+        },
+        {
+          field: 'items[1].extra',
+          code: 'unknown_field',
+          message: 'items[1].extra is not a known field',
+        },
+        {
+          field: 'items[1].id',
+          code: 'invalid_type',
+          message: 'items[1].id must be a string',
+        },
+        {
+          field: 'items',
+          code: 'too_long',
+          message: 'items must have at most 2 items',
+        },
+      ],
+    });
+  });
+
+  it('should return the parsed value, leaving out missing fields', () => {
+    expect(validate(schema, { name: '  abc ', count: '3' })).toEqual({
+      name: 'abc',
+      count: 3,
+    });
+    expect(() => validate(schema, { name: '   ' })).toThrow(ValidationError);
+    expect(() => validate(schema, null)).toThrow('Validation failed');
+  });
+
+  it('should read query strings', () => {
+    expect(
+      validate(taskQuerySchema, {
+        completed: 'false',
+        limit: '20',
+        due_before: '2024-05-01',
+      }),
+    ).toEqual({
+      completed: false,
+      limit: 20,
+      due_before: new Date('2024-05-01'),
+    });
+  });
+
+  it('should take any editable field in a merged conflict resolution', () => {
+    expect(
+      validate(resolveConflictSchema, {
+        task: {
+          priority: 'high',
+          tags: ['work'],
+          due_at: '2024-05-01T00:00:00.000Z',
+          parent_id: null,
+        },
+      }),
+    ).toEqual({
+      task: {
+        priority: 'high',
+        tags: ['work'],
+        due_at: new Date('2024-05-01T00:00:00.000Z'),
+        parent_id: null,
+      },
+    });
+    expect(() =>
+      validate(resolveConflictSchema, { task: { priority: 'asap' } }),
+    ).toThrow(ValidationError);
+  });
+});
+
+describe('request validation over HTTP', () => {
+  let db: Database;
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    db = new Database(':memory:');
+    await db.initialize();
+    const app = express();
+    app.use(express.json());
+    app.use('/api/tasks', createTaskRouter(db));
+    app.use('/api', createSyncRouter(db));
+    app.use(errorHandler);
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await db.close();
+  });
+
+  function send(method: string, path: string, body: unknown) {
+    return fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  }
+
+  it('should answer 422 with an error for each invalid field', async () => {
+    const res = await send('POST', '/tasks', {
+      title: 'x'.repeat(501),
+      priority: 'asap',
+      tags: ['ok', 7],
+      owner_id: 'someone-else',
+    });
+
+    expect(res.status).toBe(422);
+    const body = await res.json();
+    expect(body).toMatchObject({
+      error: 'Validation failed',
+      path: '/api/tasks',
+    });
+    expect(
+      body.errors.map((e: { field: string; code: string }) => [
+        e.field,
+        e.code,
+      ]),
+    ).toEqual([
+      ['owner_id', 'unknown_field'],
+      ['title', 'too_long'],
+      ['priority', 'invalid_value'],
+      ['tags[1]', 'invalid_type'],
+    ]);
+    expect(await new TaskService(db).getAllTasks()).toEqual([]);
+  });
+
+  it('should not let an update empty the title', async () => {
+    const task = await new TaskService(db).createTask({ title: 'Named' });
+
+    const res = await send('PUT', `/tasks/${task.id}`, { title: '  ' });
+
+    expect(res.status).toBe(422);
+    expect((await res.json()).errors).toEqual([
+      { field: 'title', code: 'too_short', message: 'title must not be empty' },
+    ]);
+    expect((await new TaskService(db).getTask(task.id))?.title).toBe('Named');
+  });
+
+  it('should fail invalid batch items on their own', async () => {
+    const items = [
+      {
+        id: 'queue-1',
+        task_id: 'task-1',
+        operation: 'upsert',
+        data: { title: 'Bad', completed: 'yes' },
+        created_at: '2024-01-10T10:00:00Z',
+        retry_count: 0,
+      },
+      {
+        id: 'queue-2',
+        task_id: 'task-2',
+        operation: 'create',
+        data: { title: 'Good' },
+        created_at: '2024-01-10T10:00:00Z',
+        retry_count: 0,
+      },
+    ];
+    const res = await send('POST', '/batch', {
+      items,
+      checksum: calculateBatchChecksum(items),
+    });
+
+    expect(res.status).toBe(200);
+    const [bad, good] = (await res.json()).processed_items;
+    expect(bad).toMatchObject({ client_id: 'task-1', status: 'error' });
+    expect(bad.error).toContain('operation');
+    expect(bad.error).toContain('data.completed');
+    expect(good).toMatchObject({ client_id: 'task-2', status: 'success' });
+    expect(
+      (await new TaskService(db).getAllTasks()).map((t) => t.title),
+    ).toEqual(['Good']);
+  });
+
+  it('should reject a batch that is not a list of items', async () => {
+    const res = await send('POST', '/batch', { items: 'none', checksum: '' });
+
+    expect(res.status).toBe(422);
+    expect(
+      (await res.json()).errors.map((e: { field: string }) => e.field),
+    ).toEqual(['items', 'checksum']);
+  });
+
+  it('should check query strings', async () => {
+    const res = await fetch(`${baseUrl}/tasks?limit=0&sort=owner`);
+
+    expect(res.status).toBe(422);
+    expect(
+      (await res.json()).errors.map((e: { field: string }) => e.field),
+    ).toEqual(['sort', 'limit']);
+  });
+});
+
+describe('batches sent by the sync client', () => {
+  let db: Database;
+  let serverDb: Database;
+
+  beforeEach(async () => {
+    db = new Database(':memory:');
+    serverDb = new Database(':memory:');
+    await db.initialize();
+    await serverDb.initialize();
+  });
+
+  afterEach(async () => {
+    await db.close();
+    await serverDb.close();
+  });
+
+  it('should match the batch schema', async () => {
+    const sent: unknown[] = [];
+    class CheckingTransport extends LoopbackSyncTransport {
+      async sendBatch(payload: BatchSyncRequest): Promise<BatchSyncResponse> {
+        sent.push(JSON.parse(JSON.stringify(payload)));
+        return super.sendBatch(payload);
+      }
+    }
+    const tasks = new TaskService(db);
+    const sync = new SyncService(db, tasks, new CheckingTransport(serverDb));
+
+    const parent = await tasks.createTask({
+      title: 'Parent',
+      due_at: new Date('2024-05-01T00:00:00Z'),
+      tags: ['home'],
+    });
+    const child = await tasks.createTask({
+      title: 'Child',
+      parent_id: parent.id,
+    });
+    await sync.sync();
+    await tasks.updateTask(parent.id, { completed: true, priority: 'high' });
+    await tasks.deleteTask(child.id);
+    await sync.sync();
+
+    expect(sent).toHaveLength(2);
+    for (const payload of sent) {
+      expect(check(batchSyncRequestSchema, payload)).not.toHaveProperty(
+        'errors',
+      );
+    }
+  });
+});